@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { HttpError, RateLimiter, handler, readBody, readJson } from './proxy';
+
+const post = (body: string, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/api/test', { method: 'POST', body, headers });
+
+describe('RateLimiter', () => {
+  it('answers 429 with Retry-After once the window is used up', () => {
+    const limiter = new RateLimiter(2, 10_000);
+    limiter.take('a', 0);
+    limiter.take('a', 1000);
+    const error = (() => {
+      try {
+        limiter.take('a', 2500);
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ status: 429, headers: { 'Retry-After': '8' } });
+  });
+
+  it('counts each client separately', () => {
+    const limiter = new RateLimiter(1, 10_000);
+    limiter.take('a', 0);
+    expect(() => limiter.take('b', 0)).not.toThrow();
+    expect(() => limiter.take('a', 0)).toThrow(HttpError);
+  });
+
+  it('starts a new window once the old one has passed', () => {
+    const limiter = new RateLimiter(1, 10_000);
+    limiter.take('a', 0);
+    expect(() => limiter.take('a', 9999)).toThrow(HttpError);
+    expect(() => limiter.take('a', 10_000)).not.toThrow();
+  });
+});
+
+describe('readBody', () => {
+  it('reads the whole body', async () => {
+    expect(new TextDecoder().decode(await readBody(post('hello'), 10))).toBe('hello');
+  });
+
+  it('fails with 413 when the declared Content-Length is too large', async () => {
+    const request = post('tiny', { 'Content-Length': '1000' });
+    await expect(readBody(request, 100)).rejects.toMatchObject({ status: 413 });
+    // Refused without reading it
+    expect(request.bodyUsed).toBe(false);
+  });
+
+  it('fails with 413 when an undeclared body grows too large', async () => {
+    await expect(readBody(post('x'.repeat(101)), 100)).rejects.toMatchObject({ status: 413 });
+  });
+});
+
+describe('readJson', () => {
+  it('fails with 400 when the body is not JSON', async () => {
+    await expect(readJson(post('not json'), 100)).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('handler', () => {
+  it('turns thrown HttpErrors into OpenAI-style error responses', async () => {
+    const route = handler(new RateLimiter(10), async () => {
+      throw new HttpError(418, "I'm a teapot", { 'X-Reason': 'teapot' });
+    });
+    const response = await route(post('{}'));
+    expect(response.status).toBe(418);
+    expect(response.headers.get('X-Reason')).toBe('teapot');
+    expect(await response.json()).toEqual({ error: { message: "I'm a teapot" } });
+  });
+
+  it('rate-limits by the client IP', async () => {
+    const route = handler(new RateLimiter(1), async () => new Response('ok'));
+    const from = (ip: string) => post('{}', { 'x-forwarded-for': `${ip}, 10.0.0.1` });
+    expect((await route(from('1.1.1.1'))).status).toBe(200);
+    expect((await route(from('1.1.1.1'))).status).toBe(429);
+    expect((await route(from('2.2.2.2'))).status).toBe(200);
+  });
+});
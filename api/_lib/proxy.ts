@@ -0,0 +1,178 @@
+// Shared by the /api routes, which run as Vercel functions (files under _lib are not routes).
+// Keys are read from the server environment and never reach the browser.
+
+export type Route = 'chat' | 'classify' | 'transcribe';
+
+export interface Upstream {
+  baseUrl: string;  // OpenAI-compatible, up to and including /v1
+  apiKey?: string;
+  model: string;
+}
+
+const DEFAULTS: Record<Route, { baseUrl: string; keyVar: string; model: string }> = {
+  chat: { baseUrl: 'https://api.openai.com/v1', keyVar: 'OPENAI_API_KEY', model: 'gpt-3.5-turbo' },
+  classify: { baseUrl: 'https://api.groq.com/openai/v1', keyVar: 'GROQ_API_KEY', model: 'llama-3.3-70b-versatile' },
+  transcribe: { baseUrl: 'https://api.groq.com/openai/v1', keyVar: 'GROQ_API_KEY', model: 'whisper-large-v3-turbo' },
+};
+
+const MODEL_VARS: Record<Route, string> = {
+  chat: 'CHAT_MODEL',
+  classify: 'CLASSIFY_MODEL',
+  transcribe: 'TRANSCRIBE_MODEL',
+};
+
+/**
+ * Where a route's requests go. UPSTREAM_BASE_URL (with UPSTREAM_API_KEY) sends every route to one
+ * OpenAI-compatible server, e.g. a local llama.cpp or the stub in scripts/stub-upstream.mjs;
+ * otherwise chat goes to OpenAI and the rest to Groq. CHAT_MODEL, CLASSIFY_MODEL and
+ * TRANSCRIBE_MODEL override the models.
+ */
+export function upstreamFor(route: Route): Upstream {
+  const env = process.env;
+  const defaults = DEFAULTS[route];
+  const model = env[MODEL_VARS[route]] || defaults.model;
+  if (env.UPSTREAM_BASE_URL) {
+    return { baseUrl: env.UPSTREAM_BASE_URL.replace(/\/+$/, ''), apiKey: env.UPSTREAM_API_KEY, model };
+  }
+  return { baseUrl: defaults.baseUrl, apiKey: env[defaults.keyVar], model };
+}
+
+/**
+ * An error answered to the client in the same shape OpenAI uses, so one parser handles both.
+ */
+export class HttpError extends Error {
+  public status: number;
+  public headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+export const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const errorResponse = (error: HttpError) => json(error.status, { error: { message: error.message } }, error.headers);
+
+/**
+ * Fixed-window request counter per client. Lives in the function instance's memory, so each
+ * warm instance limits on its own; good enough to blunt abuse without a shared store.
+ */
+export class RateLimiter {
+  private limit: number;
+  private windowMs: number;
+  private windows: Map<string, { start: number; count: number }>;
+
+  constructor(limit: number, windowMs = 60_000) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+    this.windows = new Map();
+  }
+
+  // Counts a request from `key`; throws a 429 once the window's limit is used up
+  public take(key: string, now = Date.now()): void {
+    let window = this.windows.get(key);
+    if (!window || now - window.start >= this.windowMs) {
+      window = { start: now, count: 0 };
+      this.windows.set(key, window);
+      this.sweep(now);
+    }
+    window.count++;
+    if (window.count > this.limit) {
+      const retryAfter = Math.ceil((window.start + this.windowMs - now) / 1000);
+      throw new HttpError(429, 'Too many requests', { 'Retry-After': String(retryAfter) });
+    }
+  }
+
+  private sweep(now: number): void {
+    this.windows.forEach((window, key) => {
+      if (now - window.start >= this.windowMs) this.windows.delete(key);
+    });
+  }
+}
+
+export function clientIp(request: Request): string {
+  // Vercel puts the client first in x-forwarded-for
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Reads the request body, failing with 413 as soon as it grows past `maxBytes` rather than after
+ * buffering all of it.
+ */
+export async function readBody(request: Request, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(request.headers.get('Content-Length'));
+  if (declared > maxBytes) throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+  if (!request.body) return new Uint8Array();
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return body;
+}
+
+export async function readJson<T>(request: Request, maxBytes: number): Promise<T> {
+  try {
+    return JSON.parse(new TextDecoder().decode(await readBody(request, maxBytes)));
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+}
+
+/**
+ * Calls the upstream and hands its response back as it arrives, so streamed completions stream
+ * through to the browser. The client's disconnect aborts the upstream request.
+ */
+export async function forward(request: Request, upstream: Upstream, path: string, init: RequestInit): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (upstream.apiKey) headers.set('Authorization', `Bearer ${upstream.apiKey}`);
+  let response: Response;
+  try {
+    response = await fetch(`${upstream.baseUrl}${path}`, { ...init, headers, signal: request.signal });
+  } catch (error) {
+    console.error(`Upstream ${path} failed:`, error);
+    throw new HttpError(502, 'Upstream is unreachable');
+  }
+  const passed = new Headers();
+  ['Content-Type', 'Retry-After', 'Cache-Control'].forEach((name) => {
+    const value = response.headers.get(name);
+    if (value) passed.set(name, value);
+  });
+  return new Response(response.body, { status: response.status, headers: passed });
+}
+
+/**
+ * Wraps a route: rate-limits by client IP and turns thrown HttpErrors into error responses.
+ */
+export function handler(limiter: RateLimiter, handle: (request: Request) => Promise<Response>) {
+  return async (request: Request): Promise<Response> => {
+    try {
+      limiter.take(clientIp(request));
+      return await handle(request);
+    } catch (error) {
+      if (error instanceof HttpError) return errorResponse(error);
+      console.error('Proxy error:', error);
+      return errorResponse(new HttpError(500, 'Internal error'));
+    }
+  };
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '../chat';
+import { apiRequest, stubUpstream } from './upstream';
+
+const chat = (body: unknown) => POST(apiRequest('/api/chat', {
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+}));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('/api/chat', () => {
+  it('forwards the messages to the upstream with its key and model', async () => {
+    vi.stubEnv('CHAT_MODEL', 'test-model');
+    const calls = stubUpstream(() => new Response('{"choices":[]}', { headers: { 'Content-Type': 'application/json' } }));
+    const response = await chat({ messages: [{ role: 'user', content: 'hi', extra: 'dropped' }], temperature: 0.5 });
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].url).toBe('http://upstream.test/v1/chat/completions');
+    expect(new Headers(calls[0].init.headers).get('Authorization')).toBe('Bearer test-key');
+    expect(JSON.parse(String(calls[0].init.body))).toEqual({
+      model: 'test-model',
+      messages: [{ role: 'user', content: 'hi' }],
+      max_tokens: 1024,
+      temperature: 0.5,
+      stream: false,
+    });
+  });
+
+  it('clamps max_tokens to the server limit', async () => {
+    const calls = stubUpstream();
+    await chat({ messages: [{ role: 'user', content: 'hi' }], maxTokens: 100_000 });
+    await chat({ messages: [{ role: 'user', content: 'hi' }], maxTokens: 50 });
+    expect(calls.map((call) => JSON.parse(String(call.init.body)).max_tokens)).toEqual([1024, 50]);
+  });
+
+  it.each([
+    ['no messages', {}],
+    ['an empty list', { messages: [] }],
+    ['too many messages', { messages: Array.from({ length: 101 }, () => ({ role: 'user', content: 'hi' })) }],
+    ['an unknown role', { messages: [{ role: 'tool', content: 'hi' }] }],
+    ['content that is not a string', { messages: [{ role: 'user', content: { text: 'hi' } }] }],
+  ])('rejects %s with 400 without calling the upstream', async (_, body) => {
+    const calls = stubUpstream();
+    const response = await chat(body);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: { message: expect.any(String) } });
+    expect(calls).toHaveLength(0);
+  });
+});
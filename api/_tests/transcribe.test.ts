@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '../transcribe';
+import { apiRequest, stubUpstream } from './upstream';
+
+const transcribe = (type: string, body = 'audio', query = '') => POST(apiRequest(`/api/transcribe${query}`, {
+  headers: { 'Content-Type': type },
+  body,
+}));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('/api/transcribe', () => {
+  it('sends the recording to the upstream as a file named for its type', async () => {
+    vi.stubEnv('TRANSCRIBE_MODEL', 'test-whisper');
+    const calls = stubUpstream(() => new Response('{"text":"hello fish"}'));
+    const response = await transcribe('audio/ogg;codecs=opus', 'audio', '?language=en');
+
+    expect(await response.json()).toEqual({ text: 'hello fish' });
+    expect(calls[0].url).toBe('http://upstream.test/v1/audio/transcriptions');
+    const form = calls[0].init.body as FormData;
+    expect((form.get('file') as File).name).toBe('recording.ogg');
+    expect((form.get('file') as File).type).toBe('audio/ogg');
+    expect(form.get('model')).toBe('test-whisper');
+    expect(form.get('language')).toBe('en');
+  });
+
+  it("answers 415 for a type it can't name a file for without calling the upstream", async () => {
+    const calls = stubUpstream();
+    expect((await transcribe('video/x-matroska')).status).toBe(415);
+    expect((await transcribe('text/plain')).status).toBe(415);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('answers 400 for an empty recording', async () => {
+    stubUpstream();
+    expect((await transcribe('audio/webm', '')).status).toBe(400);
+  });
+});
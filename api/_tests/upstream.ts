@@ -0,0 +1,31 @@
+// Helpers for the route tests, which live under _tests so Vercel doesn't take them for routes
+
+import { vi } from 'vitest';
+
+export interface UpstreamCall {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * Points the routes at a stubbed upstream answering `response`, and returns the calls it receives.
+ */
+export function stubUpstream(response: () => Response = () => new Response('{}')): UpstreamCall[] {
+  const calls: UpstreamCall[] = [];
+  vi.stubEnv('UPSTREAM_BASE_URL', 'http://upstream.test/v1');
+  vi.stubEnv('UPSTREAM_API_KEY', 'test-key');
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return response();
+  });
+  return calls;
+}
+
+let clients = 0;
+
+// Requests from a new client each time, so the routes' rate limits don't carry over between tests
+export function apiRequest(path: string, init: RequestInit): Request {
+  const headers = new Headers(init.headers);
+  headers.set('x-forwarded-for', `10.0.0.${++clients}`);
+  return new Request(`http://localhost${path}`, { method: 'POST', ...init, headers });
+}
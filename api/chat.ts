@@ -0,0 +1,42 @@
+import { HttpError, RateLimiter, forward, handler, readJson, upstreamFor } from './_lib/proxy';
+
+interface ChatRequest {
+  messages: { role: string; content: string }[];
+  maxTokens?: number;
+  temperature?: number;
+  stream?: boolean;  // answer with server-sent events as the upstream produces them
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_MESSAGES = 100;
+const MAX_TOKENS = 1024;
+const ROLES = ['system', 'user', 'assistant'];
+
+const limiter = new RateLimiter(20);
+
+/**
+ * POST /api/chat: an OpenAI chat completion (or its event stream) for `messages`, on the model
+ * the server picks.
+ */
+export const POST = handler(limiter, async (request) => {
+  const { messages, maxTokens, temperature, stream } = await readJson<ChatRequest>(request, MAX_BODY_BYTES);
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_MESSAGES) {
+    throw new HttpError(400, `messages must be a list of 1 to ${MAX_MESSAGES} messages`);
+  }
+  if (!messages.every((message) => ROLES.includes(message?.role) && typeof message.content === 'string')) {
+    throw new HttpError(400, 'Each message needs a role (system, user or assistant) and string content');
+  }
+
+  const upstream = upstreamFor('chat');
+  return forward(request, upstream, '/chat/completions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: upstream.model,
+      messages: messages.map(({ role, content }) => ({ role, content })),
+      max_tokens: Math.min(maxTokens ?? MAX_TOKENS, MAX_TOKENS),
+      temperature,
+      stream: stream === true,
+    }),
+  });
+});
@@ -0,0 +1,36 @@
+import { classificationMessages, parseLabel } from '../src/providers/classificationPrompt';
+import { HttpError, RateLimiter, forward, handler, json, readJson, upstreamFor } from './_lib/proxy';
+
+interface ClassifyRequest {
+  text: string;
+  labels: Record<string, string>;  // label -> what it means
+}
+
+const MAX_BODY_BYTES = 8 * 1024;
+const MAX_LABELS = 10;
+
+// Classification runs on pauses in typing, so it gets more room than chat
+const limiter = new RateLimiter(60);
+
+/**
+ * POST /api/classify: `{ label }`, one of `labels` for `text`, or null when the model answered
+ * something else.
+ */
+export const POST = handler(limiter, async (request) => {
+  const { text, labels } = await readJson<ClassifyRequest>(request, MAX_BODY_BYTES);
+  if (typeof text !== 'string' || !text.trim()) throw new HttpError(400, 'text is required');
+  const names = labels && typeof labels === 'object' ? Object.keys(labels) : [];
+  if (names.length === 0 || names.length > MAX_LABELS) throw new HttpError(400, `labels must have 1 to ${MAX_LABELS} entries`);
+
+  const upstream = upstreamFor('classify');
+  const response = await forward(request, upstream, '/chat/completions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: upstream.model, messages: classificationMessages(text, labels), max_tokens: 10, temperature: 0 }),
+  });
+  // Errors (e.g. the upstream's own 429) go back as they came
+  if (!response.ok) return response;
+
+  const data = await response.json() as { choices?: { message?: { content?: string } }[] };
+  return json(200, { label: parseLabel(data.choices?.[0]?.message?.content ?? '', labels) });
+});
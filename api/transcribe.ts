@@ -0,0 +1,27 @@
+import { AUDIO_EXTENSIONS, baseAudioType } from '../src/utils/audioTypes';
+import { HttpError, RateLimiter, forward, handler, readBody, upstreamFor } from './_lib/proxy';
+
+// Vercel refuses request bodies over 4.5 MB, so stay under that
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const limiter = new RateLimiter(10);
+
+/**
+ * POST /api/transcribe: the request body is the recording itself, with its Content-Type.
+ * `?language=en` passes a language hint. Answers `{ text }`.
+ */
+export const POST = handler(limiter, async (request) => {
+  const type = baseAudioType(request.headers.get('Content-Type') ?? '');
+  const extension = AUDIO_EXTENSIONS[type];
+  if (!extension) throw new HttpError(415, `Unsupported audio type ${type || '(none)'}`);
+  const audio = await readBody(request, MAX_BODY_BYTES);
+  if (audio.byteLength === 0) throw new HttpError(400, 'Recording is empty');
+
+  const upstream = upstreamFor('transcribe');
+  const form = new FormData();
+  form.append('file', new Blob([audio], { type }), `recording.${extension}`);
+  form.append('model', upstream.model);
+  const language = new URL(request.url).searchParams.get('language');
+  if (language) form.append('language', language);
+  return forward(request, upstream, '/audio/transcriptions', { method: 'POST', body: form });
+});
@@ -0,0 +1,58 @@
+// A stand-in for OpenAI/Groq, to run the /api proxy locally without keys or network:
+//
+//   node scripts/stub-upstream.mjs              # listens on :8787 (PORT to change)
+//   UPSTREAM_BASE_URL=http://localhost:8787/v1 pnpm dev
+//
+// Chat answers with canned text (streamed when asked), classification prompts with ENTRY, and
+// transcription with a fixed sentence. Every request is logged.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT ?? 8787);
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    request.on('data', (chunk) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+const send = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const completion = (content) => ({
+  id: 'stub',
+  object: 'chat.completion',
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+});
+
+async function streamCompletion(response, content) {
+  response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  for (const word of content.split(/(?<= )/)) {
+    response.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: word } }] })}\n\n`);
+    await new Promise((resolve) => setTimeout(resolve, 80));
+  }
+  response.end('data: [DONE]\n\n');
+}
+
+createServer(async (request, response) => {
+  const body = await readBody(request);
+  console.log(request.method, request.url, `${body.length} bytes`);
+
+  if (request.method === 'POST' && request.url === '/v1/chat/completions') {
+    const { messages = [], stream } = JSON.parse(body.toString() || '{}');
+    const isClassification = messages[0]?.content?.startsWith('You are a text classifier');
+    const last = messages[messages.length - 1]?.content ?? '';
+    const content = isClassification ? 'ENTRY' : `Blub! You said "${last.slice(0, 60)}". The water is lovely today.`;
+    if (stream) return streamCompletion(response, content);
+    return send(response, 200, completion(content));
+  }
+
+  if (request.method === 'POST' && request.url === '/v1/audio/transcriptions') {
+    return send(response, 200, { text: 'This is a stub transcription.' });
+  }
+
+  send(response, 404, { error: { message: `No stub for ${request.method} ${request.url}` } });
+}).listen(port, () => console.log(`Stub upstream on http://localhost:${port}/v1`));
@@ -210,6 +210,8 @@ const App = () => {
 
               {/* Pass the fish position to update our fishPosition state */}
               {/* <Fish onPositionUpdate={setFishPosition} /> */}
+              {/* ...or a school of fish that flock together and compete for food (import School from './components/School') */}
+              {/* <School count={5} onPositionUpdate={setFishPosition} /> */}
               {/* Stats panel for real-time performance measurement */}
               {/* <Stats /> */}
             </Canvas>
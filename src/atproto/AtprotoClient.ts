@@ -0,0 +1,158 @@
+import { Facet } from './richtext';
+
+export interface ActorView {
+  did: string;
+  handle: string;
+  displayName?: string;
+  description?: string;
+  avatar?: string;  // image URL
+}
+
+export interface PostView {
+  uri: string;   // at://did/app.bsky.feed.post/rkey
+  cid: string;
+  author: ActorView;
+  text: string;
+  createdAt: string;  // ISO 8601, as written by the author's client
+  likeCount?: number;
+  repostCount?: number;
+  replyCount?: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface SearchPage<T> {
+  items: T[];
+  cursor?: string;  // pass back to fetch the next page; absent on the last page
+}
+
+/**
+ * Read access to the AT Protocol network (BlueSky). Implementations either call the public
+ * XRPC endpoints or, for offline development and tests, serve fixtures.
+ */
+export interface AtprotoClient {
+  searchActors(query: string, options?: SearchOptions): Promise<SearchPage<ActorView>>;
+  searchPosts(query: string, options?: SearchOptions): Promise<SearchPage<PostView>>;
+}
+
+export interface AtprotoSession {
+  did: string;
+  handle: string;
+  accessJwt: string;
+  refreshJwt: string;
+}
+
+// An uploaded blob, as returned by uploadBlob and referenced from records
+export interface BlobRef {
+  $type: 'blob';
+  ref: { $link: string };  // CID
+  mimeType: string;
+  size: number;
+}
+
+export interface ImagesEmbed {
+  $type: 'app.bsky.embed.images';
+  images: {
+    image: BlobRef;
+    alt: string;
+    aspectRatio?: { width: number; height: number };
+  }[];
+}
+
+// At most this many images per post, each at most MAX_IMAGE_BYTES once uploaded
+export const MAX_POST_IMAGES = 4;
+export const MAX_IMAGE_BYTES = 1_000_000;
+
+// app.bsky.feed.post record, limited to the fields we write
+export interface PostRecord {
+  $type: 'app.bsky.feed.post';
+  text: string;
+  createdAt: string;  // ISO 8601
+  facets?: Facet[];
+  embed?: ImagesEmbed;
+}
+
+/**
+ * Who may reply to a post. Anything but 'everyone' is enforced with a threadgate record, where
+ * 'mentioned' allows only the accounts mentioned in the post.
+ */
+export type ReplyAudience = 'everyone' | 'followers' | 'mentioned';
+
+export type ThreadgateRule =
+  | { $type: 'app.bsky.feed.threadgate#followerRule' }
+  | { $type: 'app.bsky.feed.threadgate#mentionRule' };
+
+export interface ThreadgateRecord {
+  $type: 'app.bsky.feed.threadgate';
+  post: string;  // at:// URI of the gated post
+  allow: ThreadgateRule[];
+  createdAt: string;
+}
+
+export function threadgateRules(audience: ReplyAudience): ThreadgateRule[] | null {
+  switch (audience) {
+    case 'followers':
+      return [{ $type: 'app.bsky.feed.threadgate#followerRule' }];
+    case 'mentioned':
+      return [{ $type: 'app.bsky.feed.threadgate#mentionRule' }];
+    default:
+      return null;
+  }
+}
+
+export interface CreatedRecord {
+  uri: string;
+  cid: string;
+}
+
+/**
+ * Write access to the network through an authenticated session on the user's PDS. Sessions are
+ * created with an app password, never the account password.
+ */
+export interface AtprotoPublisher {
+  readonly session: AtprotoSession | null;
+  login(identifier: string, password: string): Promise<AtprotoSession>;
+  // Continues a session saved earlier, e.g. in localStorage
+  resumeSession(session: AtprotoSession): void;
+  logout(): void;
+  // Handle to DID
+  resolveHandle(handle: string): Promise<string>;
+  createPost(record: PostRecord): Promise<CreatedRecord>;
+  // Images must be uploaded before a post can embed them
+  uploadBlob(data: Blob): Promise<BlobRef>;
+  // Gates replies to one of the session's own posts
+  createThreadgate(postUri: string, allow: ThreadgateRule[]): Promise<CreatedRecord>;
+}
+
+/**
+ * An XRPC call that failed. `error` is the AT Protocol error name (e.g. "InvalidRequest") when
+ * the server sent one.
+ */
+export class AtprotoError extends Error {
+  public status: number;
+  public error?: string;
+
+  constructor(status: number, message: string, error?: string) {
+    super(message);
+    this.name = 'AtprotoError';
+    this.status = status;
+    this.error = error;
+  }
+}
+
+// Public profile URL for an actor or post on bsky.app
+export const profileUrl = (actor: ActorView) => `https://bsky.app/profile/${actor.handle}`;
+
+export function postUrl(post: PostView): string {
+  const rkey = post.uri.split('/').pop();
+  return `${profileUrl(post.author)}/post/${rkey}`;
+}
+
+// bsky.app URL for an at://did/app.bsky.feed.post/rkey URI (profiles resolve by DID too)
+export function postUrlFromUri(uri: string): string {
+  const [did, , rkey] = uri.replace(/^at:\/\//, '').split('/');
+  return `https://bsky.app/profile/${did}/post/${rkey}`;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { ActorView, PostView } from './AtprotoClient';
+import { FakeAtprotoClient } from './FakeAtprotoClient';
+
+const actor = (handle: string, displayName?: string): ActorView => ({ did: `did:plc:${handle}`, handle, displayName });
+
+const post = (id: string, text: string, createdAt: string): PostView => ({
+  uri: `at://did:plc:a/app.bsky.feed.post/${id}`,
+  cid: id,
+  author: actor('alice.test', 'Alice'),
+  text,
+  createdAt,
+});
+
+const client = new FakeAtprotoClient({
+  actors: [actor('alice.test', 'Alice Fish'), actor('bob.test', 'Bob Otter'), actor('carol.test', 'Carol Fish')],
+  posts: [
+    post('1', 'Coral reefs at dawn', '2024-01-01T00:00:00.000Z'),
+    post('2', 'Reefs and coral at dusk', '2024-01-03T00:00:00.000Z'),
+    post('3', 'Just coral', '2024-01-02T00:00:00.000Z'),
+  ],
+  latency: 0,
+});
+
+describe('FakeAtprotoClient', () => {
+  it('needs every query word to match, in any field and any case', async () => {
+    const { items } = await client.searchActors('FISH carol');
+    expect(items.map((item) => item.handle)).toEqual(['carol.test']);
+  });
+
+  it('finds nothing for an empty query', async () => {
+    expect((await client.searchActors('  ')).items).toEqual([]);
+  });
+
+  it('returns posts newest first', async () => {
+    const { items } = await client.searchPosts('coral reefs');
+    expect(items.map((item) => item.cid)).toEqual(['2', '1']);
+  });
+
+  it('pages with an offset cursor until the results run out', async () => {
+    const first = await client.searchPosts('coral', { limit: 2 });
+    expect(first.items.map((item) => item.cid)).toEqual(['2', '3']);
+    expect(first.cursor).toBe('2');
+
+    const second = await client.searchPosts('coral', { limit: 2, cursor: first.cursor });
+    expect(second.items.map((item) => item.cid)).toEqual(['1']);
+    expect(second.cursor).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+import { ActorView, AtprotoClient, PostView, SearchOptions, SearchPage } from './AtprotoClient';
+import { FIXTURE_ACTORS, FIXTURE_POSTS } from './fixtures';
+
+export interface FakeClientOptions {
+  actors?: ActorView[];
+  posts?: PostView[];
+  latency?: number;  // simulated network delay in milliseconds
+}
+
+const matches = (query: string, ...fields: (string | undefined)[]) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = fields.filter(Boolean).join(' ').toLowerCase();
+  return words.length > 0 && words.every((word) => haystack.includes(word));
+};
+
+// Cursors are plain offsets into the filtered fixtures
+function paginate<T>(items: T[], { limit = 10, cursor }: SearchOptions): SearchPage<T> {
+  const start = cursor ? Number(cursor) : 0;
+  const end = start + limit;
+  return { items: items.slice(start, end), cursor: end < items.length ? String(end) : undefined };
+}
+
+/**
+ * In-memory AtprotoClient serving fixture data, so search works offline and in tests.
+ */
+export class FakeAtprotoClient implements AtprotoClient {
+  protected actors: ActorView[];
+  protected posts: PostView[];
+  protected latency: number;
+
+  constructor({ actors = FIXTURE_ACTORS, posts = FIXTURE_POSTS, latency = 150 }: FakeClientOptions = {}) {
+    this.actors = actors;
+    this.posts = posts;
+    this.latency = latency;
+  }
+
+  public async searchActors(query: string, options: SearchOptions = {}): Promise<SearchPage<ActorView>> {
+    await this.delay();
+    const found = this.actors.filter((actor) => matches(query, actor.handle, actor.displayName, actor.description));
+    return paginate(found, options);
+  }
+
+  public async searchPosts(query: string, options: SearchOptions = {}): Promise<SearchPage<PostView>> {
+    await this.delay();
+    const found = this.posts
+      .filter((post) => matches(query, post.text, post.author.handle, post.author.displayName))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return paginate(found, options);
+  }
+
+  protected delay(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, this.latency));
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AtprotoError } from './AtprotoClient';
+import { XrpcAtprotoClient } from './XrpcAtprotoClient';
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status });
+
+describe('XrpcAtprotoClient', () => {
+  it('builds the query from the given params, leaving out undefined ones', async () => {
+    const fetchImpl = vi.fn<typeof fetch>(async () => json(200, { actors: [] }));
+    const client = new XrpcAtprotoClient({ service: 'https://appview.test/', fetch: fetchImpl });
+
+    await client.searchActors('fish & chips', { limit: 5 });
+    const url = new URL(String(fetchImpl.mock.calls[0][0]));
+    expect(url.origin + url.pathname).toBe('https://appview.test/xrpc/app.bsky.actor.searchActors');
+    expect([...url.searchParams]).toEqual([['q', 'fish & chips'], ['limit', '5']]);
+
+    await client.searchActors('fish', { cursor: 'abc' });
+    expect(new URL(String(fetchImpl.mock.calls[1][0])).searchParams.get('cursor')).toBe('abc');
+  });
+
+  it('maps post views to the record text and creation time', async () => {
+    const client = new XrpcAtprotoClient({
+      fetch: async () => json(200, {
+        posts: [{
+          uri: 'at://did:plc:a/app.bsky.feed.post/1',
+          cid: 'c1',
+          author: { did: 'did:plc:a', handle: 'a.test', displayName: '' },
+          record: { text: 'hello', createdAt: '2024-01-01T00:00:00.000Z' },
+          indexedAt: '2024-01-02T00:00:00.000Z',
+        }],
+        cursor: 'next',
+      }),
+    });
+    const { items, cursor } = await client.searchPosts('hello');
+    expect(items[0]).toMatchObject({ text: 'hello', createdAt: '2024-01-01T00:00:00.000Z', author: { handle: 'a.test', displayName: undefined } });
+    expect(cursor).toBe('next');
+  });
+
+  it('turns an XRPC error body into an AtprotoError', async () => {
+    const client = new XrpcAtprotoClient({
+      fetch: async () => json(403, { error: 'AuthMissing', message: 'Authentication Required' }),
+    });
+    const error = await client.searchPosts('fish').catch((err) => err);
+    expect(error).toBeInstanceOf(AtprotoError);
+    expect(error).toMatchObject({ status: 403, error: 'AuthMissing', message: 'Authentication Required' });
+  });
+
+  it('falls back to a generic message when the error body is not JSON', async () => {
+    const client = new XrpcAtprotoClient({ fetch: async () => new Response('Bad Gateway', { status: 502 }) });
+    const error = await client.searchActors('fish').catch((err) => err);
+    expect(error).toMatchObject({ status: 502, error: undefined, message: 'XRPC request failed with status 502' });
+  });
+});
@@ -0,0 +1,101 @@
+import { ActorView, AtprotoClient, AtprotoError, PostView, SearchOptions, SearchPage } from './AtprotoClient';
+
+export const PUBLIC_APPVIEW = 'https://public.api.bsky.app';
+
+export interface XrpcClientOptions {
+  service?: string;      // base URL of the AppView to query
+  fetch?: typeof fetch;  // swapped out in tests
+}
+
+// Shapes of the lexicon responses, limited to the fields we read
+interface ProfileViewJson {
+  did: string;
+  handle: string;
+  displayName?: string;
+  description?: string;
+  avatar?: string;
+}
+
+interface PostViewJson {
+  uri: string;
+  cid: string;
+  author: ProfileViewJson;
+  record: { text?: string; createdAt?: string };
+  indexedAt: string;
+  likeCount?: number;
+  repostCount?: number;
+  replyCount?: number;
+}
+
+const toActor = (profile: ProfileViewJson): ActorView => ({
+  did: profile.did,
+  handle: profile.handle,
+  displayName: profile.displayName || undefined,
+  description: profile.description,
+  avatar: profile.avatar,
+});
+
+const toPost = (post: PostViewJson): PostView => ({
+  uri: post.uri,
+  cid: post.cid,
+  author: toActor(post.author),
+  text: post.record.text ?? '',
+  createdAt: post.record.createdAt ?? post.indexedAt,
+  likeCount: post.likeCount,
+  repostCount: post.repostCount,
+  replyCount: post.replyCount,
+});
+
+/**
+ * AtprotoClient over plain XRPC HTTP calls, by default against the unauthenticated public AppView.
+ */
+export class XrpcAtprotoClient implements AtprotoClient {
+  protected service: string;
+  protected fetch: typeof fetch;
+
+  constructor({ service = PUBLIC_APPVIEW, fetch: fetchImpl }: XrpcClientOptions = {}) {
+    this.service = service.replace(/\/+$/, '');
+    // Bound so that calling it as a method doesn't lose `window`
+    this.fetch = fetchImpl ?? globalThis.fetch.bind(globalThis);
+  }
+
+  public async searchActors(query: string, { limit = 10, cursor }: SearchOptions = {}): Promise<SearchPage<ActorView>> {
+    const data = await this.query<{ actors: ProfileViewJson[]; cursor?: string }>(
+      'app.bsky.actor.searchActors',
+      { q: query, limit, cursor }
+    );
+    return { items: data.actors.map(toActor), cursor: data.cursor };
+  }
+
+  public async searchPosts(query: string, { limit = 10, cursor }: SearchOptions = {}): Promise<SearchPage<PostView>> {
+    const data = await this.query<{ posts: PostViewJson[]; cursor?: string }>(
+      'app.bsky.feed.searchPosts',
+      { q: query, limit, cursor }
+    );
+    return { items: data.posts.map(toPost), cursor: data.cursor };
+  }
+
+  /**
+   * GET /xrpc/<nsid>. Undefined params are left out; failures become AtprotoErrors.
+   */
+  protected async query<T>(nsid: string, params: Record<string, string | number | undefined>, init: RequestInit = {}): Promise<T> {
+    const search = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) search.set(key, String(value));
+    });
+    return this.request<T>(`${this.service}/xrpc/${nsid}?${search}`, init);
+  }
+
+  protected async request<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await this.fetch(url, init);
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new AtprotoError(
+        response.status,
+        body?.message ?? `XRPC request failed with status ${response.status}`,
+        body?.error
+      );
+    }
+    return body as T;
+  }
+}
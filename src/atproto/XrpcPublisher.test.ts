@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AtprotoError, AtprotoSession, MAX_IMAGE_BYTES, PostRecord } from './AtprotoClient';
+import { MOCK_ACCOUNT, createMockXrpcFetch } from './mockXrpcServer';
+import { buildFacets } from './richtext';
+import { XrpcPublisher } from './XrpcPublisher';
+
+const SERVICE = 'https://mock.pds.invalid';
+
+const post = (text: string): PostRecord => ({
+  $type: 'app.bsky.feed.post',
+  text,
+  createdAt: new Date().toISOString(),
+  facets: buildFacets(text, new Map()),
+});
+
+// The mock server, answering the first createRecord call with an expired access token
+function expiringFetch(mock = createMockXrpcFetch()): typeof fetch {
+  let expired = false;
+  return async (input, init) => {
+    if (!expired && String(input).endsWith('/com.atproto.repo.createRecord')) {
+      expired = true;
+      return new Response(JSON.stringify({ error: 'ExpiredToken', message: 'Token has expired' }), { status: 400 });
+    }
+    return mock(input, init);
+  };
+}
+
+async function signedIn(fetchImpl: typeof fetch = createMockXrpcFetch()) {
+  const onSessionChange = vi.fn();
+  const publisher = new XrpcPublisher({ service: SERVICE, fetch: fetchImpl, onSessionChange });
+  await publisher.login(MOCK_ACCOUNT.handle, MOCK_ACCOUNT.password);
+  onSessionChange.mockClear();
+  return { publisher, onSessionChange };
+}
+
+describe('XrpcPublisher against the mock server', () => {
+  it('signs in with the app password, with or without the @', async () => {
+    const onSessionChange = vi.fn();
+    const publisher = new XrpcPublisher({ service: SERVICE, fetch: createMockXrpcFetch(), onSessionChange });
+    const session = await publisher.login(`@${MOCK_ACCOUNT.handle}`, MOCK_ACCOUNT.password);
+    expect(session).toMatchObject({ did: MOCK_ACCOUNT.did, handle: MOCK_ACCOUNT.handle });
+    expect(publisher.session).toBe(session);
+    expect(onSessionChange).toHaveBeenCalledWith(session);
+  });
+
+  it('rejects a wrong password and stays signed out', async () => {
+    const publisher = new XrpcPublisher({ service: SERVICE, fetch: createMockXrpcFetch() });
+    const error = await publisher.login(MOCK_ACCOUNT.handle, 'wrong').catch((err) => err);
+    expect(error).toBeInstanceOf(AtprotoError);
+    expect(error).toMatchObject({ status: 401, error: 'AuthenticationRequired' });
+    expect(publisher.session).toBeNull();
+  });
+
+  it('posts with facets to the signed-in repo, and the post becomes searchable', async () => {
+    const mock = createMockXrpcFetch();
+    const sent: unknown[] = [];
+    const { publisher } = await signedIn(async (input, init) => {
+      if (String(input).endsWith('/com.atproto.repo.createRecord')) sent.push(JSON.parse(String(init?.body)));
+      return mock(input, init);
+    });
+
+    const record = post('Swimming along, see https://example.com');
+    const created = await publisher.createPost(record);
+    expect(created.uri).toMatch(new RegExp(`^at://${MOCK_ACCOUNT.did}/app.bsky.feed.post/`));
+    expect(sent).toEqual([expect.objectContaining({ repo: MOCK_ACCOUNT.did, record })]);
+    expect(record.facets).toHaveLength(1);
+
+    const { items } = await publisher.searchPosts('swimming along');
+    expect(items.map((item) => item.uri)).toContain(created.uri);
+  });
+
+  it('rejects posts over 300 graphemes', async () => {
+    const { publisher } = await signedIn();
+    await expect(publisher.createPost(post('🐟'.repeat(300)))).resolves.toBeTruthy();
+    await expect(publisher.createPost(post('🐟'.repeat(301)))).rejects.toMatchObject({ status: 400, error: 'InvalidRequest' });
+  });
+
+  it('refreshes an expired session and retries once', async () => {
+    const { publisher, onSessionChange } = await signedIn(expiringFetch());
+    const before = publisher.session!;
+    const created = await publisher.createPost(post('after the refresh'));
+
+    expect(created.uri).toContain('app.bsky.feed.post');
+    expect(publisher.session!.accessJwt).not.toBe(before.accessJwt);
+    expect(onSessionChange).toHaveBeenCalledWith(publisher.session);
+  });
+
+  it('drops the session when the refresh fails too', async () => {
+    const onSessionChange = vi.fn();
+    const publisher = new XrpcPublisher({ service: SERVICE, fetch: expiringFetch(), onSessionChange });
+    const stale: AtprotoSession = { did: MOCK_ACCOUNT.did, handle: MOCK_ACCOUNT.handle, accessJwt: 'old', refreshJwt: 'old' };
+    publisher.resumeSession(stale);
+
+    await expect(publisher.createPost(post('too late'))).rejects.toMatchObject({ error: 'ExpiredToken' });
+    expect(publisher.session).toBeNull();
+    expect(onSessionChange).toHaveBeenCalledWith(null);
+  });
+
+  it('needs a session to post', async () => {
+    const publisher = new XrpcPublisher({ service: SERVICE, fetch: createMockXrpcFetch() });
+    await expect(publisher.createPost(post('hello'))).rejects.toMatchObject({ status: 401 });
+  });
+});
+
+describe('XrpcPublisher attachments and threadgates', () => {
+  const image = (bytes: number, type = 'image/jpeg') => new Blob([new Uint8Array(bytes)], { type });
+
+  it('uploads images and embeds them in a post', async () => {
+    const { publisher } = await signedIn();
+    const blob = await publisher.uploadBlob(image(1000));
+    expect(blob).toMatchObject({ $type: 'blob', mimeType: 'image/jpeg', size: 1000 });
+
+    const record: PostRecord = {
+      ...post('with a picture'),
+      embed: { $type: 'app.bsky.embed.images', images: [{ image: blob, alt: 'a fish' }] },
+    };
+    await expect(publisher.createPost(record)).resolves.toBeTruthy();
+  });
+
+  it('rejects blobs that are too large or not images', async () => {
+    const { publisher } = await signedIn();
+    await expect(publisher.uploadBlob(image(MAX_IMAGE_BYTES + 1))).rejects.toMatchObject({ error: 'BlobTooLarge' });
+    await expect(publisher.uploadBlob(image(10, 'text/plain'))).rejects.toMatchObject({ error: 'InvalidRequest' });
+  });
+
+  it('gives a threadgate the record key of its post', async () => {
+    const { publisher } = await signedIn();
+    const created = await publisher.createPost(post('followers only'));
+    const gate = await publisher.createThreadgate(created.uri, [{ $type: 'app.bsky.feed.threadgate#followerRule' }]);
+    expect(gate.uri.split('/').pop()).toBe(created.uri.split('/').pop());
+    expect(gate.uri).toContain('/app.bsky.feed.threadgate/');
+  });
+
+  it('rejects a threadgate for a post that is not yours', async () => {
+    const { publisher } = await signedIn();
+    const uri = `at://${MOCK_ACCOUNT.did}/app.bsky.feed.post/missing`;
+    await expect(publisher.createThreadgate(uri, [])).rejects.toMatchObject({ status: 400, error: 'InvalidRequest' });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  AtprotoError,
+  AtprotoPublisher,
+  AtprotoSession,
+  BlobRef,
+  CreatedRecord,
+  PostRecord,
+  ThreadgateRecord,
+  ThreadgateRule,
+} from './AtprotoClient';
+import { XrpcAtprotoClient, XrpcClientOptions } from './XrpcAtprotoClient';
+
+export const DEFAULT_PDS = 'https://bsky.social';
+
+export interface XrpcPublisherOptions extends XrpcClientOptions {
+  // Called whenever the session is created, refreshed or ended, e.g. to persist it
+  onSessionChange?: (session: AtprotoSession | null) => void;
+}
+
+/**
+ * AtprotoPublisher talking XRPC to the user's PDS. Expired access tokens are refreshed once,
+ * transparently, before a call fails.
+ */
+export class XrpcPublisher extends XrpcAtprotoClient implements AtprotoPublisher {
+  private _session: AtprotoSession | null;
+  private onSessionChange?: (session: AtprotoSession | null) => void;
+
+  constructor({ service = DEFAULT_PDS, onSessionChange, ...options }: XrpcPublisherOptions = {}) {
+    super({ service, ...options });
+    this._session = null;
+    this.onSessionChange = onSessionChange;
+  }
+
+  public get session(): AtprotoSession | null {
+    return this._session;
+  }
+
+  public async login(identifier: string, password: string): Promise<AtprotoSession> {
+    const data = await this.procedure<AtprotoSession>(
+      'com.atproto.server.createSession',
+      { identifier: identifier.replace(/^@/, '').trim(), password },
+      null
+    );
+    this.setSession({ did: data.did, handle: data.handle, accessJwt: data.accessJwt, refreshJwt: data.refreshJwt });
+    return this._session!;
+  }
+
+  public resumeSession(session: AtprotoSession): void {
+    this._session = session;
+  }
+
+  public logout(): void {
+    this.setSession(null);
+  }
+
+  public async resolveHandle(handle: string): Promise<string> {
+    const data = await this.query<{ did: string }>('com.atproto.identity.resolveHandle', { handle: handle.replace(/^@/, '') });
+    return data.did;
+  }
+
+  public createPost(record: PostRecord): Promise<CreatedRecord> {
+    return this.createRecord('app.bsky.feed.post', record);
+  }
+
+  public async uploadBlob(data: Blob): Promise<BlobRef> {
+    const { blob } = await this.authorized((accessJwt) => this.request<{ blob: BlobRef }>(
+      `${this.service}/xrpc/com.atproto.repo.uploadBlob`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': data.type || 'application/octet-stream', Authorization: `Bearer ${accessJwt}` },
+        body: data,
+      }
+    ));
+    return blob;
+  }
+
+  public createThreadgate(postUri: string, allow: ThreadgateRule[]): Promise<CreatedRecord> {
+    const record: ThreadgateRecord = { $type: 'app.bsky.feed.threadgate', post: postUri, allow, createdAt: new Date().toISOString() };
+    // A threadgate shares the record key of the post it gates
+    return this.createRecord('app.bsky.feed.threadgate', record, postUri.split('/').pop());
+  }
+
+  protected async createRecord(collection: string, record: unknown, rkey?: string): Promise<CreatedRecord> {
+    const session = this.requireSession();
+    return this.authorized((accessJwt) => this.procedure<CreatedRecord>(
+      'com.atproto.repo.createRecord',
+      { repo: session.did, collection, rkey, record },
+      accessJwt
+    ));
+  }
+
+  /**
+   * POST /xrpc/<nsid> with a JSON body, authenticated with `token` unless it is null.
+   */
+  protected procedure<T>(nsid: string, body: unknown, token: string | null): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) headers.Authorization = `Bearer ${token}`;
+    return this.request<T>(`${this.service}/xrpc/${nsid}`, {
+      method: 'POST',
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  // Runs `call` with the access token, refreshing the session and retrying once if it expired
+  protected async authorized<T>(call: (accessJwt: string) => Promise<T>): Promise<T> {
+    try {
+      return await call(this.requireSession().accessJwt);
+    } catch (err) {
+      if (!(err instanceof AtprotoError) || err.error !== 'ExpiredToken') throw err;
+      await this.refresh();
+      return call(this.requireSession().accessJwt);
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const data = await this.procedure<AtprotoSession>('com.atproto.server.refreshSession', undefined, this.requireSession().refreshJwt);
+      this.setSession({ did: data.did, handle: data.handle, accessJwt: data.accessJwt, refreshJwt: data.refreshJwt });
+    } catch (err) {
+      // The refresh token expired too: the user has to sign in again
+      this.setSession(null);
+      throw err;
+    }
+  }
+
+  private requireSession(): AtprotoSession {
+    if (!this._session) throw new AtprotoError(401, 'Not signed in to BlueSky', 'AuthenticationRequired');
+    return this._session;
+  }
+
+  private setSession(session: AtprotoSession | null): void {
+    this._session = session;
+    this.onSessionChange?.(session);
+  }
+}
@@ -0,0 +1,59 @@
+import { ActorView, PostView } from './AtprotoClient';
+
+// Offline data for FakeAtprotoClient. Handles use the reserved .test TLD.
+
+export const FIXTURE_ACTORS: ActorView[] = [
+  {
+    did: 'did:plc:fixturemarina0001',
+    handle: 'marina.test',
+    displayName: 'Marina Reyes',
+    description: 'Marine biologist. Reef surveys, fish behaviour, the occasional octopus.',
+  },
+  {
+    did: 'did:plc:fixturejonas00002',
+    handle: 'jonas.test',
+    displayName: 'Jonas Berg',
+    description: 'Journaling every morning since 2019. Writing about habits and attention.',
+  },
+  {
+    did: 'did:plc:fixtureaiko000003',
+    handle: 'aiko.test',
+    displayName: 'Aiko Tanaka',
+    description: 'Creative coder. Three.js, shaders and generative flocks.',
+  },
+  {
+    did: 'did:plc:fixturesam0000004',
+    handle: 'sam.test',
+    displayName: 'Sam Okafor',
+    description: 'Meditation teacher. Slow mornings, long walks.',
+  },
+  {
+    did: 'did:plc:fixturelea0000005',
+    handle: 'lea.test',
+    description: 'Mostly photos of the sea.',
+  },
+];
+
+const [marina, jonas, aiko, sam, lea] = FIXTURE_ACTORS;
+
+const post = (author: ActorView, rkey: string, text: string, createdAt: string, likeCount = 0): PostView => ({
+  uri: `at://${author.did}/app.bsky.feed.post/${rkey}`,
+  cid: `bafyfixture${rkey}`,
+  author,
+  text,
+  createdAt,
+  likeCount,
+  repostCount: Math.floor(likeCount / 4),
+  replyCount: Math.floor(likeCount / 6),
+});
+
+export const FIXTURE_POSTS: PostView[] = [
+  post(marina, '3kfix0001', 'Spent the morning counting wrasse on the reef. Schools move like one animal until something startles them.', '2024-10-12T08:14:00.000Z', 42),
+  post(jonas, '3kfix0002', 'Morning pages, day 1,800. The trick is not to reread them for a month.', '2024-10-11T06:30:00.000Z', 17),
+  post(aiko, '3kfix0003', 'New sketch: boids with separation, alignment and cohesion, rendered as toon-shaded spheres. Link soon.', '2024-10-10T21:02:00.000Z', 88),
+  post(sam, '3kfix0004', 'Breathe in for four, hold for four, out for six. Repeat until the phone stops feeling urgent.', '2024-10-10T07:45:00.000Z', 23),
+  post(lea, '3kfix0005', 'Low tide this evening. The rock pools were full of tiny fish.', '2024-10-09T18:20:00.000Z', 9),
+  post(jonas, '3kfix0006', 'Habits are easier to keep when they are boring. Same desk, same pen, same time.', '2024-10-08T09:05:00.000Z', 31),
+  post(aiko, '3kfix0007', 'Steering behaviours are underrated. Wander + arrive gets you 80% of the way to something that feels alive.', '2024-10-07T15:40:00.000Z', 56),
+  post(marina, '3kfix0008', 'Reminder that fish have individual personalities. Some are bold, some are shy, all of them are hungry.', '2024-10-06T12:00:00.000Z', 64),
+];
@@ -0,0 +1,185 @@
+import { ActorView, BlobRef, MAX_IMAGE_BYTES, MAX_POST_IMAGES, PostRecord, PostView, ThreadgateRecord } from './AtprotoClient';
+import { FakeAtprotoClient } from './FakeAtprotoClient';
+import { FIXTURE_ACTORS, FIXTURE_POSTS } from './fixtures';
+import { MAX_POST_GRAPHEMES, graphemeLength } from './richtext';
+
+export interface MockAccount {
+  did: string;
+  handle: string;
+  password: string;  // app password
+}
+
+export interface MockXrpcOptions {
+  accounts?: MockAccount[];
+  actors?: ActorView[];
+  posts?: PostView[];
+}
+
+export const MOCK_ACCOUNT: MockAccount = {
+  did: 'did:plc:fixtureyou000000',
+  handle: 'you.test',
+  password: 'mock-app-password',
+};
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const xrpcError = (status: number, error: string, message: string) => json(status, { error, message });
+
+// Record keys are timestamp-based and sortable, like real TIDs
+const nextRkey = (() => {
+  let last = 0;
+  return () => {
+    last = Math.max(Date.now() * 1000, last + 1);
+    return last.toString(32);
+  };
+})();
+
+/**
+ * A `fetch` that answers the XRPC calls this app makes from memory, so sign-in, posting and search
+ * can be exercised offline. Pass it as the `fetch` option of XrpcPublisher or XrpcAtprotoClient.
+ *
+ * Implements createSession, refreshSession, resolveHandle, uploadBlob (images only, size limit
+ * enforced), createRecord (posts and threadgates, with the grapheme and image limits enforced),
+ * searchActors and searchPosts. Created posts become searchable.
+ */
+export function createMockXrpcFetch({
+  accounts = [MOCK_ACCOUNT],
+  actors = FIXTURE_ACTORS,
+  posts = FIXTURE_POSTS,
+}: MockXrpcOptions = {}): typeof fetch {
+  const allActors = [...actors, ...accounts.map(({ did, handle }) => ({ did, handle }))];
+  const allPosts = [...posts];
+  const search = new FakeAtprotoClient({ actors: allActors, posts: allPosts, latency: 0 });
+  // token -> did
+  const accessTokens = new Map<string, string>();
+  const refreshTokens = new Map<string, string>();
+  let tokenCount = 0;
+  // CIDs of uploaded blobs, which posts may embed
+  const blobs = new Set<string>();
+  // URIs of created posts, which threadgates may refer to
+  const records = new Set<string>();
+
+  const issueSession = (account: MockAccount) => {
+    const accessJwt = `mock-access-${++tokenCount}`;
+    const refreshJwt = `mock-refresh-${tokenCount}`;
+    accessTokens.set(accessJwt, account.did);
+    refreshTokens.set(refreshJwt, account.did);
+    return json(200, { did: account.did, handle: account.handle, accessJwt, refreshJwt });
+  };
+
+  const bearer = (init?: RequestInit) => {
+    const header = new Headers(init?.headers).get('Authorization') ?? '';
+    return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  };
+
+  const handlers: Record<string, (params: URLSearchParams, init?: RequestInit) => Promise<Response>> = {
+    'com.atproto.server.createSession': async (_, init) => {
+      const { identifier, password } = JSON.parse(String(init?.body ?? '{}'));
+      const account = accounts.find((a) => (a.handle === identifier || a.did === identifier) && a.password === password);
+      if (!account) return xrpcError(401, 'AuthenticationRequired', 'Invalid identifier or password');
+      return issueSession(account);
+    },
+
+    'com.atproto.server.refreshSession': async (_, init) => {
+      const token = bearer(init);
+      const did = token && refreshTokens.get(token);
+      if (!did) return xrpcError(400, 'ExpiredToken', 'Token has expired');
+      refreshTokens.delete(token!);
+      return issueSession(accounts.find((a) => a.did === did)!);
+    },
+
+    'com.atproto.identity.resolveHandle': async (params) => {
+      const handle = params.get('handle')?.toLowerCase();
+      const actor = allActors.find((a) => a.handle === handle);
+      if (!actor) return xrpcError(400, 'InvalidRequest', 'Unable to resolve handle');
+      return json(200, { did: actor.did });
+    },
+
+    'com.atproto.repo.createRecord': async (_, init) => {
+      const token = bearer(init);
+      const did = token && accessTokens.get(token);
+      if (!did) return xrpcError(401, 'AuthenticationRequired', 'Authentication Required');
+
+      const { repo, collection, rkey = nextRkey(), record } = JSON.parse(String(init?.body ?? '{}')) as {
+        repo: string;
+        collection: string;
+        rkey?: string;
+        record: PostRecord | ThreadgateRecord;
+      };
+      if (repo !== did) return xrpcError(400, 'InvalidRequest', 'Can only write to your own repo');
+      const uri = `at://${did}/${collection}/${rkey}`;
+      const cid = `bafymock${rkey}`;
+      if (records.has(uri)) return xrpcError(400, 'InvalidRequest', `Record already exists: ${uri}`);
+
+      if (collection === 'app.bsky.feed.post') {
+        const post = record as PostRecord;
+        if (graphemeLength(post.text) > MAX_POST_GRAPHEMES) {
+          return xrpcError(400, 'InvalidRequest', `Record/text must not be longer than ${MAX_POST_GRAPHEMES} graphemes`);
+        }
+        const images = post.embed?.images ?? [];
+        if (images.length > MAX_POST_IMAGES) {
+          return xrpcError(400, 'InvalidRequest', `Record/embed/images must not have more than ${MAX_POST_IMAGES} elements`);
+        }
+        if (images.some(({ image }) => !blobs.has(image.ref.$link))) {
+          return xrpcError(400, 'InvalidRequest', 'Could not find blob referenced by record');
+        }
+        allPosts.unshift({ uri, cid, author: allActors.find((a) => a.did === did)!, text: post.text, createdAt: post.createdAt });
+      } else if (collection === 'app.bsky.feed.threadgate') {
+        const gate = record as ThreadgateRecord;
+        if (!records.has(gate.post) || gate.post.split('/').pop() !== rkey) {
+          return xrpcError(400, 'InvalidRequest', 'Threadgate must share the record key of one of your posts');
+        }
+      } else {
+        return xrpcError(400, 'InvalidRequest', `Unsupported collection ${collection}`);
+      }
+
+      records.add(uri);
+      return json(200, { uri, cid });
+    },
+
+    'com.atproto.repo.uploadBlob': async (_, init) => {
+      const token = bearer(init);
+      if (!token || !accessTokens.has(token)) return xrpcError(401, 'AuthenticationRequired', 'Authentication Required');
+
+      const mimeType = new Headers(init?.headers).get('Content-Type') ?? '';
+      const size = (await new Response(init?.body).arrayBuffer()).byteLength;
+      if (!mimeType.startsWith('image/')) return xrpcError(400, 'InvalidRequest', `Unsupported blob type ${mimeType}`);
+      if (size > MAX_IMAGE_BYTES) return xrpcError(400, 'BlobTooLarge', `Blob is larger than ${MAX_IMAGE_BYTES} bytes`);
+
+      const blob: BlobRef = { $type: 'blob', ref: { $link: `bafkmockblob${nextRkey()}` }, mimeType, size };
+      blobs.add(blob.ref.$link);
+      return json(200, { blob });
+    },
+
+    'app.bsky.actor.searchActors': async (params) => {
+      const page = await search.searchActors(params.get('q') ?? '', { limit: Number(params.get('limit') ?? 10), cursor: params.get('cursor') ?? undefined });
+      return json(200, { actors: page.items, cursor: page.cursor });
+    },
+
+    'app.bsky.feed.searchPosts': async (params) => {
+      const page = await search.searchPosts(params.get('q') ?? '', { limit: Number(params.get('limit') ?? 10), cursor: params.get('cursor') ?? undefined });
+      return json(200, {
+        posts: page.items.map((post) => ({
+          uri: post.uri,
+          cid: post.cid,
+          author: post.author,
+          record: { $type: 'app.bsky.feed.post', text: post.text, createdAt: post.createdAt },
+          indexedAt: post.createdAt,
+          likeCount: post.likeCount,
+          repostCount: post.repostCount,
+          replyCount: post.replyCount,
+        })),
+        cursor: page.cursor,
+      });
+    },
+  };
+
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const nsid = url.pathname.replace(/^\/xrpc\//, '');
+    const handler = handlers[nsid];
+    if (!handler) return xrpcError(501, 'MethodNotImplemented', `Method not implemented: ${nsid}`);
+    return handler(url.searchParams, init);
+  };
+}
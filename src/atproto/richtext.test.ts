@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { buildFacets, detectLinks, detectMentions, graphemeLength, segmentRichText } from './richtext';
+
+describe('detectLinks', () => {
+  it('gives UTF-8 byte offsets, not string indices', () => {
+    const [link] = detectLinks('café 🐟 https://example.com/a');
+    // "café " is 6 bytes and "🐟 " is 5
+    expect(link.index).toEqual({ byteStart: 11, byteEnd: 32 });
+    expect(link.uri).toBe('https://example.com/a');
+  });
+
+  it('links bare domains with https and leaves trailing punctuation out', () => {
+    const [link] = detectLinks('see bsky.app.');
+    expect(link.text).toBe('bsky.app');
+    expect(link.uri).toBe('https://bsky.app');
+    expect(link.index).toEqual({ byteStart: 4, byteEnd: 12 });
+  });
+
+  it("doesn't link file names", () => {
+    expect(detectLinks('Node.js and readme.md')).toEqual([]);
+  });
+});
+
+describe('detectMentions', () => {
+  it('includes the @ in the facet and lowercases the handle', () => {
+    const [mention] = detectMentions('hi ✨ @Alice.bsky.social!');
+    expect(mention.handle).toBe('alice.bsky.social');
+    // "hi ✨ " is 7 bytes, "@alice.bsky.social" 18
+    expect(mention.index).toEqual({ byteStart: 7, byteEnd: 25 });
+  });
+});
+
+describe('buildFacets', () => {
+  it('drops unresolved mentions and sorts facets by position', () => {
+    const text = '@bob.test @alice.test example.com';
+    const facets = buildFacets(text, new Map([['alice.test', 'did:plc:alice']]));
+    expect(facets.map((facet) => facet.features[0].$type)).toEqual([
+      'app.bsky.richtext.facet#mention',
+      'app.bsky.richtext.facet#link',
+    ]);
+    expect(facets[0].index.byteStart).toBe(10);
+  });
+
+  it('round-trips through segmentRichText', () => {
+    const text = 'ünïcode → https://example.com ok';
+    const segments = segmentRichText(text, buildFacets(text, new Map()));
+    expect(segments.map((segment) => segment.text)).toEqual(['ünïcode → ', 'https://example.com', ' ok']);
+    expect(segments.map((segment) => segment.text).join('')).toBe(text);
+  });
+});
+
+describe('graphemeLength', () => {
+  it('counts an emoji sequence as one character', () => {
+    expect(graphemeLength('hi 👩‍👩‍👧')).toBe(4);
+  });
+});
@@ -0,0 +1,121 @@
+// Posts are limited in graphemes (user-perceived characters), not UTF-16 code units
+export const MAX_POST_GRAPHEMES = 300;
+
+// Intl.Segmenter isn't in the ES2020 lib typings; fall back to code points where it's missing
+type GraphemeSegmenter = { segment(text: string): Iterable<unknown> };
+const Segmenter = (Intl as unknown as {
+  Segmenter?: new (locale?: string, options?: { granularity: 'grapheme' }) => GraphemeSegmenter;
+}).Segmenter;
+const segmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : null;
+
+export function graphemeLength(text: string): number {
+  return Array.from(segmenter ? segmenter.segment(text) : text).length;
+}
+
+const encoder = new TextEncoder();
+export const utf8Length = (text: string) => encoder.encode(text).length;
+
+// Facets index into the UTF-8 encoding of the text
+export interface ByteSlice {
+  byteStart: number;
+  byteEnd: number;
+}
+
+export type FacetFeature =
+  | { $type: 'app.bsky.richtext.facet#link'; uri: string }
+  | { $type: 'app.bsky.richtext.facet#mention'; did: string };
+
+export interface Facet {
+  index: ByteSlice;
+  features: FacetFeature[];
+}
+
+export interface DetectedLink {
+  index: ByteSlice;
+  text: string;  // as typed
+  uri: string;   // with a scheme added to bare domains
+}
+
+export interface DetectedMention {
+  index: ByteSlice;
+  handle: string;  // without the @
+}
+
+const toByteSlice = (text: string, start: number, end: number): ByteSlice => ({
+  byteStart: utf8Length(text.slice(0, start)),
+  byteEnd: utf8Length(text.slice(0, end)),
+});
+
+// http(s) URLs, or bare domains optionally followed by a path
+const LINK = /(^|[\s(])((?:https?:\/\/\S+)|(?:[a-z0-9][a-z0-9-]*(?:\.[a-z0-9-]+)*\.([a-z]{2,})(?:\/\S*)?))/gim;
+// Bare domains only link with www. or one of these TLDs, so file names like "Node.js" or
+// "readme.md" stay text
+const BARE_DOMAIN_TLDS = new Set([
+  'com', 'net', 'org', 'edu', 'gov', 'io', 'app', 'dev', 'social', 'blog', 'xyz', 'info', 'me',
+  'co', 'uk', 'de', 'fr', 'nl', 'ca', 'au', 'eu', 'jp', 'us', 'news', 'site', 'online', 'tech',
+]);
+const MENTION = /(^|[\s(])@([a-z0-9][a-z0-9-]*(?:\.[a-z0-9][a-z0-9-]*)+)/gim;
+// Closing punctuation that belongs to the sentence rather than the link
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+export function detectLinks(text: string): DetectedLink[] {
+  const links: DetectedLink[] = [];
+  for (const match of text.matchAll(LINK)) {
+    const raw = match[2].replace(TRAILING_PUNCTUATION, '');
+    const hasScheme = /^https?:\/\//i.test(raw);
+    if (!hasScheme && !/^www\./i.test(raw) && !BARE_DOMAIN_TLDS.has(match[3].toLowerCase())) continue;
+    const start = match.index! + match[1].length;
+    const uri = hasScheme ? raw : `https://${raw}`;
+    links.push({ index: toByteSlice(text, start, start + raw.length), text: raw, uri });
+  }
+  return links;
+}
+
+export function detectMentions(text: string): DetectedMention[] {
+  const mentions: DetectedMention[] = [];
+  for (const match of text.matchAll(MENTION)) {
+    const handle = match[2].replace(TRAILING_PUNCTUATION, '');
+    const start = match.index! + match[1].length;
+    // +1 for the @, which is part of the facet
+    mentions.push({ index: toByteSlice(text, start, start + handle.length + 1), handle: handle.toLowerCase() });
+  }
+  return mentions;
+}
+
+/**
+ * Link and mention facets for `text`. Mentions whose handle isn't in `dids` (unresolved) are left
+ * out, so they post as plain text.
+ */
+export function buildFacets(text: string, dids: Map<string, string>): Facet[] {
+  const links: Facet[] = detectLinks(text)
+    .map((link) => ({ index: link.index, features: [{ $type: 'app.bsky.richtext.facet#link', uri: link.uri }] }));
+  const mentions: Facet[] = detectMentions(text)
+    .filter((mention) => dids.has(mention.handle))
+    .map((mention) => ({ index: mention.index, features: [{ $type: 'app.bsky.richtext.facet#mention', did: dids.get(mention.handle)! }] }));
+  return [...links, ...mentions].sort((a, b) => a.index.byteStart - b.index.byteStart);
+}
+
+export interface RichTextSegment {
+  text: string;
+  feature?: FacetFeature;
+}
+
+/**
+ * Splits `text` at its facets, for rendering a preview. Facet offsets are in bytes, so the text is
+ * sliced in its UTF-8 encoding.
+ */
+export function segmentRichText(text: string, facets: Facet[]): RichTextSegment[] {
+  const bytes = encoder.encode(text);
+  const decoder = new TextDecoder();
+  const segments: RichTextSegment[] = [];
+  let cursor = 0;
+  for (const facet of facets) {
+    const { byteStart, byteEnd } = facet.index;
+    if (byteStart < cursor || byteEnd > bytes.length) continue;
+    if (byteStart > cursor) segments.push({ text: decoder.decode(bytes.slice(cursor, byteStart)) });
+    segments.push({ text: decoder.decode(bytes.slice(byteStart, byteEnd)), feature: facet.features[0] });
+    cursor = byteEnd;
+  }
+  if (cursor < bytes.length) segments.push({ text: decoder.decode(bytes.slice(cursor)) });
+  return segments;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { INPUT_TYPES, classifyLocally, parseModePrefix } from './InputClassifier';
+
+describe('parseModePrefix', () => {
+  it('splits a /j, /s or /p prefix off the text', () => {
+    expect(parseModePrefix('/s avocado')).toEqual({ type: 'SEARCH', body: 'avocado' });
+    expect(parseModePrefix('/P hello world')).toEqual({ type: 'POST', body: 'hello world' });
+    expect(parseModePrefix('/j')).toEqual({ type: 'ENTRY', body: '' });
+  });
+
+  it('leaves text without a prefix alone', () => {
+    expect(parseModePrefix('/search me')).toEqual({ type: null, body: '/search me' });
+    expect(parseModePrefix('and/s')).toEqual({ type: null, body: 'and/s' });
+  });
+});
+
+describe('classifyLocally', () => {
+  it('treats empty text as an entry', () => {
+    expect(classifyLocally('  ').type).toBe('ENTRY');
+  });
+
+  it('tells entries, searches and posts apart', () => {
+    expect(classifyLocally('I felt tired today but I am grateful for my friends.').type).toBe('ENTRY');
+    expect(classifyLocally('find avocado').type).toBe('SEARCH');
+    expect(classifyLocally('post: new release is out! https://example.com #fish').type).toBe('POST');
+  });
+
+  it('returns scores that sum to 1 with the confidence of the chosen type', () => {
+    const { type, confidence, scores } = classifyLocally('who is @alice.bsky.social');
+    const total = INPUT_TYPES.reduce((sum, t) => sum + scores[t], 0);
+    expect(total).toBeCloseTo(1);
+    expect(confidence).toBe(scores[type]);
+  });
+});
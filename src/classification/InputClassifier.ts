@@ -0,0 +1,140 @@
+export type InputType = 'ENTRY' | 'SEARCH' | 'POST';
+
+export const INPUT_TYPES: InputType[] = ['ENTRY', 'SEARCH', 'POST'];
+
+// "/j", "/s" or "/p" at the start picks the mode explicitly
+const MODE_PREFIX = /^\s*\/([jsp])(?:\s+|$)/i;
+const PREFIX_TYPES: Record<string, InputType> = { j: 'ENTRY', s: 'SEARCH', p: 'POST' };
+
+/**
+ * Splits an explicit mode prefix off `text`. `body` is the text without the prefix, or `text`
+ * itself when there is none.
+ */
+export function parseModePrefix(text: string): { type: InputType | null; body: string } {
+  const match = text.match(MODE_PREFIX);
+  if (!match) return { type: null, body: text };
+  return { type: PREFIX_TYPES[match[1].toLowerCase()], body: text.slice(match[0].length) };
+}
+
+export interface Classification {
+  type: InputType;
+  confidence: number;                  // probability of `type`
+  scores: Record<InputType, number>;   // probabilities, summing to 1
+}
+
+export type Features = Record<FeatureName, number>;
+
+type FeatureName =
+  | 'searchPrefix'     // starts with "/", "?", "find", "search", "look up", "who is"
+  | 'postPrefix'       // starts with "post", "publish", "tweet", "skeet", "announce"
+  | 'postWord'         // "post", "publish", "share" etc. anywhere after the start
+  | 'firstPerson'      // share of words that are I, me, my, ...
+  | 'feeling'          // words about feelings or the day
+  | 'leadingMention'   // starts with an @handle
+  | 'mentions'         // @handles anywhere
+  | 'hashtags'
+  | 'links'
+  | 'question'         // ends with "?" or starts with a question word
+  | 'exclamation'
+  | 'shortQuery'       // three words or fewer without sentence punctuation
+  | 'length'           // words, saturating at 40
+  | 'sentences';       // sentence count, saturating at 4
+
+const SEARCH_PREFIX = /^\s*(\/|\?|find\b|search\b|look\s*up\b|lookup\b|who\s+is\b)/i;
+const POST_PREFIX = /^\s*(post|publish|tweet|skeet|announce|share)\b\s*[:\-–]?/i;
+const POST_WORD = /\b(post|posting|publish|tweet|skeet|announce|announcing|share|sharing)\b/gi;
+const FIRST_PERSON = /^(i|i'm|im|i've|i'd|i'll|me|my|mine|myself)$/i;
+const FEELING = /\b(feel|feeling|felt|today|tonight|yesterday|grateful|anxious|tired|sad|happy|lonely|worried|dream|dreamt|remember|wish|hope|miss|love|hate|afraid|scared|excited|angry|calm)\b/gi;
+const MENTION = /(^|\s)@[a-z0-9][a-z0-9.-]*\.[a-z]{2,}/gi;
+const HASHTAG = /(^|\s)#\w+/g;
+const LINK = /\bhttps?:\/\/\S+|\b[a-z0-9-]+\.(com|org|net|io|app|social|dev)\b/gi;
+const QUESTION_WORD = /^\s*(who|what|where|when|why|how|which|is|are|does|do|can)\b/i;
+
+const count = (text: string, pattern: RegExp) => (text.match(pattern) ?? []).length;
+
+export function extractFeatures(text: string): Features {
+  const trimmed = text.trim();
+  const words = trimmed.split(/\s+/).filter(Boolean);
+  const postPrefix = POST_PREFIX.test(trimmed);
+  return {
+    searchPrefix: SEARCH_PREFIX.test(trimmed) ? 1 : 0,
+    postPrefix: postPrefix ? 1 : 0,
+    // The prefix itself is counted by postPrefix
+    postWord: Math.min(2, count(trimmed, POST_WORD) - (postPrefix ? 1 : 0)),
+    firstPerson: words.length ? words.filter((word) => FIRST_PERSON.test(word.replace(/[^\w']/g, ''))).length / words.length : 0,
+    feeling: Math.min(3, count(trimmed, FEELING)),
+    leadingMention: /^@\S/.test(trimmed) ? 1 : 0,
+    mentions: Math.min(3, count(trimmed, MENTION)),
+    hashtags: Math.min(3, count(trimmed, HASHTAG)),
+    links: Math.min(2, count(trimmed, LINK)),
+    question: trimmed.endsWith('?') || QUESTION_WORD.test(trimmed) ? 1 : 0,
+    exclamation: trimmed.includes('!') ? 1 : 0,
+    shortQuery: words.length > 0 && words.length <= 3 && !/[.!]$/.test(trimmed) ? 1 : 0,
+    length: Math.min(40, words.length) / 40,
+    sentences: Math.min(4, count(trimmed, /[.!?](\s|$)/g)) / 4,
+  };
+}
+
+// Hand-tuned weights per type; a type's logit is its bias plus the weighted feature sum
+const WEIGHTS: Record<InputType, { bias: number } & Partial<Features>> = {
+  ENTRY: {
+    bias: 1.0,
+    firstPerson: 4.0,
+    feeling: 1.2,
+    length: 1.5,
+    sentences: 1.0,
+    postWord: -0.3,
+    searchPrefix: -2.0,
+    postPrefix: -2.0,
+  },
+  SEARCH: {
+    bias: 0,
+    searchPrefix: 5.0,
+    leadingMention: 2.0,
+    shortQuery: 1.2,
+    question: 0.8,
+    firstPerson: -3.0,
+    feeling: -1.0,
+    length: -2.0,
+    sentences: -1.0,
+    postPrefix: -2.0,
+  },
+  POST: {
+    bias: -0.5,
+    postPrefix: 4.5,
+    postWord: 0.6,
+    mentions: 0.8,
+    hashtags: 1.5,
+    links: 1.2,
+    exclamation: 0.6,
+    leadingMention: -0.5,
+    firstPerson: -1.0,
+    searchPrefix: -2.0,
+  },
+};
+
+function softmax(logits: Record<InputType, number>): Record<InputType, number> {
+  const max = Math.max(...INPUT_TYPES.map((type) => logits[type]));
+  const exps = INPUT_TYPES.map((type) => Math.exp(logits[type] - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return Object.fromEntries(INPUT_TYPES.map((type, i) => [type, exps[i] / sum])) as Record<InputType, number>;
+}
+
+/**
+ * Classifies text as a journal ENTRY, a SEARCH or a public POST with a linear model over
+ * hand-picked features. Runs locally and deterministically; empty text is always an ENTRY.
+ */
+export function classifyLocally(text: string): Classification {
+  if (!text.trim()) {
+    return { type: 'ENTRY', confidence: 1, scores: { ENTRY: 1, SEARCH: 0, POST: 0 } };
+  }
+  const features = extractFeatures(text);
+  const logits = Object.fromEntries(INPUT_TYPES.map((type) => {
+    const { bias, ...weights } = WEIGHTS[type];
+    const sum = Object.entries(weights).reduce((total, [name, weight]) => total + weight * features[name as FeatureName], bias);
+    return [type, sum];
+  })) as Record<InputType, number>;
+  const scores = softmax(logits);
+  const type = INPUT_TYPES.reduce((best, candidate) => (scores[candidate] > scores[best] ? candidate : best));
+  return { type, confidence: scores[type], scores };
+}
@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { OverrideEntry, clearOverrideLog, logOverride, readOverrideLog, summarizeOverrides } from './overrideLog';
+import { InputType } from './InputClassifier';
+
+const entry = (predicted: InputType, chosen: InputType, text = 'text'): OverrideEntry => ({
+  at: '2024-05-01T12:00:00.000Z',
+  text,
+  predicted,
+  confidence: 0.5,
+  chosen,
+  via: 'prefix',
+});
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('override log', () => {
+  it('keeps entries in order and trims long texts', () => {
+    logOverride(entry('ENTRY', 'POST', 'a'.repeat(300)));
+    logOverride(entry('POST', 'ENTRY', 'second'));
+
+    const entries = readOverrideLog();
+    expect(entries.map((e) => e.text.length)).toEqual([200, 6]);
+    expect(entries[1]).toEqual(entry('POST', 'ENTRY', 'second'));
+  });
+
+  it('drops the oldest entries once full', () => {
+    for (let i = 0; i < 501; i++) logOverride(entry('ENTRY', 'POST', String(i)));
+
+    const entries = readOverrideLog();
+    expect(entries).toHaveLength(500);
+    expect(entries[0].text).toBe('1');
+  });
+
+  it('reads as empty when cleared or unreadable', () => {
+    logOverride(entry('ENTRY', 'POST'));
+    clearOverrideLog();
+    expect(readOverrideLog()).toEqual([]);
+
+    localStorage.setItem('input-classification-overrides', '{not json');
+    expect(readOverrideLog()).toEqual([]);
+  });
+});
+
+describe('summarizeOverrides', () => {
+  it('counts agreement and tallies predicted against chosen', () => {
+    const summary = summarizeOverrides([
+      entry('ENTRY', 'ENTRY'),
+      entry('ENTRY', 'SEARCH'),
+      entry('ENTRY', 'SEARCH'),
+      entry('POST', 'ENTRY'),
+      entry('SEARCH', 'SEARCH'),
+    ]);
+
+    expect(summary.total).toBe(5);
+    expect(summary.agreed).toBe(2);
+    expect(summary.confusion).toEqual({
+      ENTRY: { ENTRY: 1, SEARCH: 2, POST: 0 },
+      SEARCH: { ENTRY: 0, SEARCH: 1, POST: 0 },
+      POST: { ENTRY: 1, SEARCH: 0, POST: 0 },
+    });
+  });
+
+  it('reads the stored log by default', () => {
+    logOverride(entry('POST', 'ENTRY'));
+    expect(summarizeOverrides().confusion.POST.ENTRY).toBe(1);
+  });
+
+  it('has a zeroed matrix for an empty log', () => {
+    const summary = summarizeOverrides([]);
+    expect(summary).toMatchObject({ total: 0, agreed: 0 });
+    expect(Object.values(summary.confusion).flatMap((row) => Object.values(row))).toEqual(Array(9).fill(0));
+  });
+});
@@ -0,0 +1,61 @@
+import { INPUT_TYPES, InputType } from './InputClassifier';
+
+export type OverrideSource = 'prefix' | 'shortcut' | 'lock';
+
+/**
+ * An input submitted in a mode the user picked rather than the classifier. `predicted` is what
+ * the local classifier made of the same text, so agreement can be measured.
+ */
+export interface OverrideEntry {
+  at: string;  // ISO 8601
+  text: string;
+  predicted: InputType;
+  confidence: number;
+  chosen: InputType;
+  via: OverrideSource;
+}
+
+const STORAGE_KEY = 'input-classification-overrides';
+const MAX_ENTRIES = 500;
+const MAX_TEXT_LENGTH = 200;
+
+export function readOverrideLog(): OverrideEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function logOverride(entry: OverrideEntry): void {
+  const entries = [...readOverrideLog(), { ...entry, text: entry.text.slice(0, MAX_TEXT_LENGTH) }];
+  try {
+    // Oldest entries go first once the log is full
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(-MAX_ENTRIES)));
+  } catch (error) {
+    console.error('Error saving classification override:', error);
+  }
+}
+
+export function clearOverrideLog(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export interface OverrideSummary {
+  total: number;
+  agreed: number;                                              // classifier guessed the chosen mode
+  confusion: Record<InputType, Record<InputType, number>>;     // predicted -> chosen -> count
+}
+
+// How often the classifier agreed with the modes users chose, and where it went wrong
+export function summarizeOverrides(entries: OverrideEntry[] = readOverrideLog()): OverrideSummary {
+  const confusion = Object.fromEntries(
+    INPUT_TYPES.map((predicted) => [predicted, Object.fromEntries(INPUT_TYPES.map((chosen) => [chosen, 0]))])
+  ) as OverrideSummary['confusion'];
+  entries.forEach((entry) => confusion[entry.predicted][entry.chosen]++);
+  return {
+    total: entries.length,
+    agreed: entries.filter((entry) => entry.predicted === entry.chosen).length,
+    confusion,
+  };
+}
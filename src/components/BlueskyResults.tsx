@@ -0,0 +1,87 @@
+import { ActorView, PostView, postUrl, profileUrl } from '../atproto/AtprotoClient'
+import { formatAbsoluteTime } from '../utils/time'
+import RelativeTime from './RelativeTime'
+
+interface BlueskyResultsProps {
+  actors: ActorView[]
+  posts: PostView[]
+}
+
+const Avatar = ({ actor, size = 'w-8 h-8' }: { actor: ActorView; size?: string }) => (
+  actor.avatar
+    ? <img src={actor.avatar} alt="" className={`${size} rounded-full object-cover shrink-0`} />
+    : (
+      <div className={`${size} rounded-full bg-blue-300/20 flex items-center justify-center shrink-0 text-xs text-blue-100/80 uppercase`}>
+        {(actor.displayName ?? actor.handle).charAt(0)}
+      </div>
+    )
+)
+
+const ActorCard = ({ actor }: { actor: ActorView }) => (
+  <a
+    href={profileUrl(actor)}
+    target="_blank"
+    rel="noreferrer"
+    className="flex items-start gap-2 p-2 rounded-md bg-white/5 hover:bg-white/10 transition-colors"
+  >
+    <Avatar actor={actor} />
+    <div className="min-w-0">
+      <div className="text-sm text-white/90 truncate">{actor.displayName ?? actor.handle}</div>
+      <div className="text-xs text-blue-200/60 truncate">@{actor.handle}</div>
+      {actor.description && (
+        <p className="mt-1 text-xs text-white/50 line-clamp-2">{actor.description}</p>
+      )}
+    </div>
+  </a>
+)
+
+const PostCard = ({ post }: { post: PostView }) => {
+  const createdAt = new Date(post.createdAt)
+  return (
+    <a
+      href={postUrl(post)}
+      target="_blank"
+      rel="noreferrer"
+      className="block p-2 rounded-md bg-white/5 hover:bg-white/10 transition-colors"
+    >
+      <div className="flex items-center gap-2 text-xs">
+        <Avatar actor={post.author} size="w-5 h-5" />
+        <span className="text-white/80 truncate">{post.author.displayName ?? post.author.handle}</span>
+        <span className="text-blue-200/50 truncate">@{post.author.handle}</span>
+        <span className="ml-auto text-white/40 shrink-0" title={formatAbsoluteTime(createdAt)}>
+          <RelativeTime date={createdAt} />
+        </span>
+      </div>
+      <p className="mt-1 text-sm text-white/80 whitespace-pre-wrap break-words">{post.text}</p>
+      {!!post.likeCount && (
+        <div className="mt-1 text-[10px] text-white/40">
+          {post.likeCount} likes · {post.repostCount ?? 0} reposts · {post.replyCount ?? 0} replies
+        </div>
+      )}
+    </a>
+  )
+}
+
+// People and posts found on BlueSky, shown in the search panel
+const BlueskyResults = ({ actors, posts }: BlueskyResultsProps) => (
+  <div className="space-y-4 text-left">
+    {actors.length > 0 && (
+      <section>
+        <h4 className="mb-2 text-[10px] uppercase tracking-wider text-blue-200/50">People</h4>
+        <div className="space-y-2">
+          {actors.map(actor => <ActorCard key={actor.did} actor={actor} />)}
+        </div>
+      </section>
+    )}
+    {posts.length > 0 && (
+      <section>
+        <h4 className="mb-2 text-[10px] uppercase tracking-wider text-blue-200/50">Posts</h4>
+        <div className="space-y-2">
+          {posts.map(post => <PostCard key={post.uri} post={post} />)}
+        </div>
+      </section>
+    )}
+  </div>
+)
+
+export default BlueskyResults
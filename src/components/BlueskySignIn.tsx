@@ -0,0 +1,58 @@
+import { useState } from 'react'
+
+interface BlueskySignInProps {
+  isLoggingIn: boolean
+  error: Error | null
+  onLogin: (identifier: string, password: string) => void
+  onCancel: () => void
+}
+
+// Sign-in with an app password (Settings → App Passwords on bsky.app), never the account password
+const BlueskySignIn = ({ isLoggingIn, error, onLogin, onCancel }: BlueskySignInProps) => {
+  const [identifier, setIdentifier] = useState('')
+  const [password, setPassword] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (identifier.trim() && password) {
+      onLogin(identifier, password)
+    }
+  }
+
+  return (
+    <form
+      className="sign-in flex flex-wrap items-center gap-2 mb-4 ml-1 text-xs animate-fadeIn"
+      onSubmit={handleSubmit}
+    >
+      <input
+        className="bg-white/10 rounded-md px-2 py-1 outline-none text-white placeholder:text-white/40"
+        placeholder="handle.bsky.social"
+        autoComplete="username"
+        spellCheck="false"
+        value={identifier}
+        onChange={(e) => setIdentifier(e.target.value)}
+      />
+      <input
+        className="bg-white/10 rounded-md px-2 py-1 outline-none text-white placeholder:text-white/40"
+        type="password"
+        placeholder="App password"
+        autoComplete="current-password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+      <button
+        type="submit"
+        className="px-3 py-1 rounded-md bg-green-400/20 text-green-100 hover:bg-green-400/30 transition-colors disabled:opacity-40"
+        disabled={isLoggingIn}
+      >
+        {isLoggingIn ? 'Signing in…' : 'Sign in'}
+      </button>
+      <button type="button" className="text-white/50 hover:text-white/80 transition-colors" onClick={onCancel}>
+        Cancel
+      </button>
+      {error && <p className="w-full text-red-300/80">{error.message}</p>}
+    </form>
+  )
+}
+
+export default BlueskySignIn
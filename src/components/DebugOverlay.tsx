@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react'
+import * as THREE from 'three'
+import { FishBehavior } from '../steering/FishBehavior'
+import { DebugCommand } from '../hooks/useDebugCommands'
+
+interface DebugOverlayProps {
+  behavior: FishBehavior
+  velocity: THREE.Vector3
+  maxSpeed: number
+  commands: DebugCommand[]
+  paused: boolean
+  timeScale: number
+  // How often speed and targets are sampled (in milliseconds)
+  refreshInterval?: number
+}
+
+const keyLabel = (key: string) => (key === ' ' ? 'Space' : key)
+
+// Current fish state plus the list of debug key bindings
+const DebugOverlay: React.FC<DebugOverlayProps> = ({
+  behavior,
+  velocity,
+  maxSpeed,
+  commands,
+  paused,
+  timeScale,
+  refreshInterval = 250,
+}) => {
+  const [sample, setSample] = useState({ state: behavior.state, speed: velocity.length(), target: behavior.target?.clone() ?? null })
+
+  useEffect(() => {
+    const id = window.setInterval(() => {
+      setSample({ state: behavior.state, speed: velocity.length(), target: behavior.target?.clone() ?? null })
+    }, refreshInterval)
+    return () => window.clearInterval(id)
+  }, [behavior, velocity, refreshInterval])
+
+  return (
+    <div className="absolute top-5 left-5 font-mono text-[11px] text-white bg-black/50 border border-white/10 rounded-md px-3 py-2 pointer-events-none">
+      <div>
+        State: {sample.state} | Speed: {sample.speed.toFixed(2)} / {maxSpeed.toFixed(2)}
+        {sample.target && ` | Food Target: (${sample.target.x.toFixed(2)}, ${sample.target.z.toFixed(2)})`}
+      </div>
+      <div className="text-white/60">
+        {paused ? 'Paused' : 'Running'} | Time scale: {timeScale.toFixed(2)}×
+      </div>
+      <ul className="mt-2 space-y-0.5">
+        {commands.map((command) => (
+          <li key={command.key} className="flex gap-2">
+            <kbd className="min-w-[3.5rem] text-white/90">{keyLabel(command.key)}</kbd>
+            <span className="text-white/60">{command.label}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default DebugOverlay
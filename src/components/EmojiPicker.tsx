@@ -0,0 +1,82 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { EMOJI_CATEGORIES, searchEmoji } from '../utils/emoji'
+
+interface EmojiPickerProps {
+  onPick: (emoji: string) => void
+  onClose: () => void
+}
+
+// Searchable emoji grid; Enter picks the first match, Escape or a click outside closes it
+const EmojiPicker = ({ onPick, onClose }: EmojiPickerProps) => {
+  const [query, setQuery] = useState('')
+  const rootRef = useRef<HTMLDivElement>(null)
+  const matches = useMemo(() => (query.trim() ? searchEmoji(query) : null), [query])
+
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+    window.addEventListener('pointerdown', handlePointerDown)
+    return () => window.removeEventListener('pointerdown', handlePointerDown)
+  }, [onClose])
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    } else if (e.key === 'Enter' && matches?.length) {
+      e.preventDefault()
+      onPick(matches[0].char)
+    }
+  }
+
+  const renderButton = (char: string, name: string) => (
+    <button
+      key={char}
+      className="w-7 h-7 rounded-md text-lg leading-none hover:bg-white/10 transition-colors"
+      title={name}
+      aria-label={name}
+      onClick={() => onPick(char)}
+    >
+      {char}
+    </button>
+  )
+
+  return (
+    <div
+      ref={rootRef}
+      className="emoji-picker w-72 mb-4 ml-1 p-2 rounded-md bg-black/60 backdrop-blur-lg border border-white/10 animate-fadeIn"
+    >
+      <input
+        autoFocus
+        className="w-full mb-2 bg-white/10 rounded-md px-2 py-1 text-xs outline-none text-white placeholder:text-white/40"
+        placeholder="Search emoji"
+        spellCheck="false"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+      />
+      <div className="max-h-48 overflow-y-auto">
+        {matches ? (
+          <div className="flex flex-wrap">
+            {matches.map(emoji => renderButton(emoji.char, emoji.name))}
+            {matches.length === 0 && <p className="text-xs text-white/40 p-1">No emoji match “{query}”</p>}
+          </div>
+        ) : (
+          EMOJI_CATEGORIES.map(category => (
+            <div key={category.name} className="mb-1">
+              <div className="px-1 text-[10px] uppercase tracking-wider text-white/40">{category.name}</div>
+              <div className="flex flex-wrap">
+                {category.emoji.map(emoji => renderButton(emoji.char, emoji.name))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default EmojiPicker
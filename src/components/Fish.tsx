@@ -1,38 +1,100 @@
-import React, { useRef, useMemo, useState, useEffect } from 'react'
+import React, { useRef, useMemo, useState, useEffect, useCallback } from 'react'
 import { useFrame, RootState, useThree } from '@react-three/fiber'
 import { Html, Line, OrbitControls } from '@react-three/drei'
 import * as THREE from 'three'
-import { useControls, Leva } from 'leva'
+import { useControls, button, Leva } from 'leva'
 import { EffectComposer, Bloom, Pixelation, DepthOfField } from '@react-three/postprocessing'
 import { FishBehavior, FishState } from '../steering/FishBehavior'
-import { useSpeechInteraction } from '../hooks/useSpeechInteraction'
-
-
+import { FixedTimestep, dampFactor } from '../steering/FixedTimestep'
+import {
+  FlockParams,
+  Neighbor,
+  WanderState,
+  applySteering,
+  clampToBounds,
+  createWanderState,
+  desiredArrive,
+  evade,
+  flock as flockForce,
+  orbit,
+  steerTowards,
+  visionPoint,
+  wander,
+} from '../steering/behaviors'
+import { SpatialHash } from '../steering/SpatialHash'
+import { FoodSupply } from '../steering/FoodSupply'
+import { CAPTURE_ERROR_LABELS, useSpeechInteraction } from '../hooks/useSpeechInteraction'
+import { useConversation } from '../hooks/useConversation'
+import { DEFAULT_VOICE_ACTIVITY } from '../conversation/VoiceActivityDetector'
+import { useToonGradientMap } from '../hooks/useToonGradientMap'
+import { DebugCommand, useDebugCommands } from '../hooks/useDebugCommands'
+import { clearOverrideLog, readOverrideLog, summarizeOverrides } from '../classification/overrideLog'
+import FoodMarkers from './FoodMarkers'
+import FishHud from './FishHud'
+import DebugOverlay from './DebugOverlay'
+import SteeringDebug, { SteeringDebugData, SteeringDebugLayers } from './SteeringDebug'
+
+
+
+// Membership in a school: the shared neighbor index and the boids weights
+export interface FlockContext {
+  index: SpatialHash<Neighbor>
+  perceptionRadius: number
+  params: Pick<FlockParams, 'separationRadius' | 'separationWeight' | 'alignmentWeight' | 'cohesionWeight'>
+}
 
 interface FishProps {
   onPositionUpdate?: (position: THREE.Vector3) => void
+  // Where the head starts (defaults to the origin)
+  spawnPosition?: THREE.Vector3
+  // Shared food; when given, food placed there is contested with the other fish using it
+  food?: FoodSupply
+  flock?: FlockContext
+  // Pointer on the ground plane (null when away); a School shares one between its fish
+  pointerRef?: React.MutableRefObject<THREE.Vector3 | null>
+  // Whether the fish renders its own ground plane, food markers, post-processing and camera controls.
+  // A School turns this off and renders them once for all of its fish.
+  standalone?: boolean
 }
 
-const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
+// Simulation tick length; behavior, movement and tail integration all run at this fixed rate
+const SIM_STEP = 1 / 60
+
+// Exponential smoothing rates (per second)
+const STATIONARY_DAMPING = 6  // head easing into its REST/TALK pose
+const TAIL_DAMPING = 6        // tail segments easing towards their base positions
+const HEADING_DAMPING = 40    // smoothing of the intended heading
+const CAMERA_DAMPING = 6      // camera follow
+const SPEECH_LEVEL_DAMPING = 25  // loudness driving the talking pulse: follows syllables without flicker
+
+// Fraction of the gliding velocity kept per second while eating
+const EAT_GLIDE_RETAIN = 0.3
+
+// Speed multipliers relative to maxSpeed
+const ORBIT_SPEED_FACTOR = 0.5  // circling the pointer while CURIOUS
+const FLEE_SPEED_FACTOR = 2     // darting away from a fast pointer
+
+// Debug time scale range, stepped through by the - and = keys
+const MIN_TIME_SCALE = 0.1
+const MAX_TIME_SCALE = 4
+
+// How long the finished reply stays up: a base pause plus time per word, or just the pause when
+// it was read out loud
+const READING_PAUSE_MS = 1500
+const READING_MS_PER_WORD = 300
+
+const readingTime = (text: string) => READING_PAUSE_MS + splitWords(text).length * READING_MS_PER_WORD
+
+const splitWords = (text: string) => text.split(/\s+/).filter(Boolean)
+
+const Fish: React.FC<FishProps> = ({ onPositionUpdate, spawnPosition, food, flock, pointerRef, standalone = true }) => {
   // --- Basic configuration --
   const [tailCount, setTailCount] = useState(4)
   const { camera } = useThree()
   const headRef = useRef<THREE.Mesh>(null)
-  const arrowRef = useRef<THREE.ArrowHelper>(null)
 
   // Create gradient texture for toon material
-  const gradientMap = useMemo(() => {
-    // Create a gradient with 4 distinct steps for visible toon shading
-    const colors = new Uint8Array([0, 80, 160, 255])  // dark, dark-mid, light-mid, light
-    const texture = new THREE.DataTexture(
-      colors,
-      colors.length,
-      1,
-      THREE.RedFormat
-    )
-    texture.needsUpdate = true
-    return texture
-  }, [])
+  const gradientMap = useToonGradientMap()
 
   // Cache head geometry and material to avoid recreating every render
   const headGeometry = useMemo(() => new THREE.SphereGeometry(0.08, 32, 32), [])
@@ -44,28 +106,47 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
     gradientMap: gradientMap
   }), [gradientMap])
 
-  // --- Single velocity vector instance (we removed the unused maxSpeed ref and velocityRef) ---
+  // --- Simulated head state (units per second), advanced in fixed ticks ---
   const currentVelocity = useRef(new THREE.Vector3())
-  const prevHeadPos = useRef(new THREE.Vector3())
+  const simHeadPos = useRef(spawnPosition ? spawnPosition.clone() : new THREE.Vector3())
+  // Head position at the previous tick, interpolated towards simHeadPos when rendering
+  const prevHeadPos = useRef(simHeadPos.current.clone())
+  const timestep = useMemo(() => new FixedTimestep({ step: SIM_STEP }), [])
 
   // --- For a smooth, consistent heading ---
   const lastHeadDir = useRef(new THREE.Vector3(0, 0, 1))
 
-  // --- Time reference used for animations ---
+  // --- Pointer on the ground plane, shared by a School or tracked by this fish's own ground plane ---
+  const ownPointerRef = useRef<THREE.Vector3 | null>(null)
+  const pointer = pointerRef ?? ownPointerRef
+
+  // --- Simulation time (advanced per tick), used for animations ---
   const timeRef = useRef(0)
 
-  // --- State for wander target (also used to display marker) ---
-  const wanderTargetRef = useRef(new THREE.Vector3())
-  const lastWanderUpdateRef = useRef(0)
-  const [wanderTargetState, setWanderTargetState] = useState(new THREE.Vector3(0, 0, 0))
+  // --- Smoothed loudness of the fish's voice (0 to 1), for the head pulse and tail wave ---
+  const speechLevelRef = useRef(0)
+
+  // --- Wander circle state ---
+  const wanderStateRef = useRef<WanderState>(createWanderState())
 
-  // --- Debug state for current behavior (used in overlay) ---
-  const [currentBehavior, setCurrentBehavior] = useState<FishState>(FishState.WAMDER)
+  // --- Steering values recorded each tick for the debug layer ---
+  const steeringDebug = useMemo<SteeringDebugData>(() => ({
+    position: new THREE.Vector3(),
+    velocity: new THREE.Vector3(),
+    desired: new THREE.Vector3(),
+    steering: new THREE.Vector3(),
+    wanderTarget: new THREE.Vector3(),
+    visionPoint: new THREE.Vector3(),
+    targets: [],
+  }), [])
+
+  // --- Current behavior, updated from FishBehavior transition events (used for rendering) ---
+  const [currentBehavior, setCurrentBehavior] = useState<FishState>(FishState.WANDER)
 
   // --- GUI controls for steering and tail behavior ---
   const movementControls = useControls('Movement', {
-    maxSpeed: { value: 0.02, min: 0.01, max: 0.1, step: 0.01 },
-    steeringForce: { value: 0.001, min: 0.0001, max: 0.01, step: 0.0001 },
+    maxSpeed: { value: 1.2, min: 0.6, max: 6, step: 0.1, label: 'maxSpeed (u/s)' },
+    steeringForce: { value: 3.6, min: 0.36, max: 36, step: 0.01, label: 'steeringForce (u/s²)' },
     slowingRadius: { value: 2.0, min: 0.5, max: 5, step: 0.1 },
   }, { collapsed: true })
 
@@ -88,6 +169,59 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
     swayAmount: { value: 0.1, min: 0, max: 0.5, step: 0.01 },
     waveSpeed: { value: 3, min: 0.1, max: 10, step: 0.1 },
     waveBase: { value: 0.2, min: 0, max: 1, step: 0.01 },
+    talkPulse: { value: 0.35, min: 0, max: 1, step: 0.01, label: 'talkPulse (head)' },
+    talkWaveBoost: { value: 1.5, min: 0, max: 5, step: 0.1, label: 'talkWaveBoost (tail)' },
+  }, { collapsed: true })
+
+  const [debugControls, setDebugControls] = useControls('Debug', () => ({
+    showOverlay: { value: false, label: 'Show Overlay' },
+    paused: false,
+    timeScale: { value: 1, min: MIN_TIME_SCALE, max: MAX_TIME_SCALE, step: 0.05 },
+  }), { collapsed: true })
+
+  const debugLayers: SteeringDebugLayers = useControls('Debug Layers', {
+    velocity: false,
+    desired: false,
+    steering: false,
+    wanderCircle: false,
+    visionPoint: false,
+    boundaryBuffer: false,
+    slowingRadius: false,
+    targetQueue: false,
+  }, { collapsed: true })
+  const showSteeringDebug = Object.values(debugLayers).some(Boolean)
+
+  const metabolismControls = useControls('Metabolism', {
+    showHud: { value: false, label: 'Show HUD' },
+  }, { collapsed: true })
+
+  // Who the fish is when it talks; changes are saved with the conversation
+  const conversation = useConversation()
+  useControls('Persona', {
+    name: { value: conversation.persona.name, onChange: (name: string) => conversation.setPersona({ name }), transient: false },
+    tone: { value: conversation.persona.tone, onChange: (tone: string) => conversation.setPersona({ tone }), transient: false },
+    journalEntries: {
+      value: conversation.persona.journalEntries,
+      min: 0,
+      max: 20,
+      step: 1,
+      label: 'Share journal entries',
+      onChange: (journalEntries: number) => conversation.setPersona({ journalEntries }),
+      transient: false,
+    },
+    'Reset conversation': button(() => conversation.reset()),
+  }, { collapsed: true })
+
+  // How the journal's mode classifier fares against the modes users picked, printed to the console
+  useControls('Classifier', {
+    'Print overrides': button(() => {
+      const entries = readOverrideLog()
+      const { total, agreed, confusion } = summarizeOverrides(entries)
+      console.log(`Classifier agreed with ${agreed} of ${total} picked modes (rows: predicted, columns: chosen)`)
+      console.table(confusion)
+      console.table(entries)
+    }),
+    'Clear overrides': button(() => clearOverrideLog()),
   }, { collapsed: true })
 
   // --- Consolidate wander parameters (used for movement and steering) ---
@@ -139,18 +273,54 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
     restDuration: 0.5,
     eatDuration: 0.3,
     bounds: { min: boundaryControls.min, max: boundaryControls.max },
-    onEat: () => {
-      console.log('Food eaten – triggering onEat callback')
+    onEat: (eaten) => {
+      food?.remove(eaten)
       setFoodTarget(null)
       setTailCount((prev) => prev + 1)
     },
-  }), [wanderControls.arrivalDistance, boundaryControls.min, boundaryControls.max])
+    isFoodAvailable: food ? (target) => food.isAvailable(target) : undefined,
+    claimFood: food ? (target) => food.claim(target) : undefined,
+  }), [wanderControls.arrivalDistance, boundaryControls.min, boundaryControls.max, food])
+
+  // --- Re-render only when the state machine transitions, not every frame ---
+  useEffect(() => {
+    setCurrentBehavior(fishBehavior.state)
+    return fishBehavior.on((event) => setCurrentBehavior(event.to))
+  }, [fishBehavior])
+
+  // --- Shared food: every pellet added to the supply becomes a (contested) target ---
+  useEffect(() => {
+    if (!food) return
+    food.getPellets()
+      .filter((pellet) => !pellet.claimed)
+      .forEach((pellet) => fishBehavior.setFoodTarget(pellet.position))
+    return food.subscribe((event) => {
+      if (event.type === 'added') {
+        fishBehavior.setFoodTarget(event.pellet.position)
+      }
+    })
+  }, [food, fishBehavior])
+
+  // --- School membership: this fish's entry in the shared neighbor index ---
+  const flockMember = useMemo<Neighbor>(() => ({
+    position: simHeadPos.current,
+    velocity: currentVelocity.current,
+  }), [])
+  const neighborsRef = useRef<Neighbor[]>([])
+
+  useEffect(() => {
+    if (!flock) return
+    const index = flock.index
+    index.update(flockMember)
+    return () => index.remove(flockMember)
+  }, [flock, flockMember])
 
   // --- Food target state (for placing food and marker rendering) ---
   const [foodTarget, setFoodTarget] = useState<THREE.Vector3 | null>(null)
 
   // --- Tail segments positions and refs ---
   const tailPositions = useRef<THREE.Vector3[]>([])
+  const prevTailPositions = useRef<THREE.Vector3[]>([])
   const tailRefs = useRef<(THREE.Mesh | null)[]>([])
   
 
@@ -158,9 +328,10 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
     if (tailPositions.current.length === 0) {
       const initialPositions: THREE.Vector3[] = []
       for (let i = 0; i < tailCount; i++) {
-        initialPositions.push(new THREE.Vector3(0, -(i + 1) * 0.5, 0))
+        initialPositions.push(simHeadPos.current.clone().add(new THREE.Vector3(0, -(i + 1) * 0.5, 0)))
       }
       tailPositions.current = initialPositions
+      prevTailPositions.current = initialPositions.map((p) => p.clone())
     }
   }, [])
 
@@ -169,183 +340,107 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
       // Use the last segment's position (or a default value if none exist)
       const lastPos = tailPositions.current.length > 0 
         ? tailPositions.current[tailPositions.current.length - 1].clone()
-        : new THREE.Vector3(0, -0.5, 0)
+        : simHeadPos.current.clone().add(new THREE.Vector3(0, -0.5, 0))
       const numToAdd = tailCount - tailPositions.current.length
       for (let i = 0; i < numToAdd; i++) {
         tailPositions.current.push(lastPos.clone())
+        prevTailPositions.current.push(lastPos.clone())
       }
     }
   }, [tailCount])
 
 
-  // --- Set up arrow helper for debugging the head's intended direction ---
-  useEffect(() => {
-    if (!headRef.current && !arrowRef.current) {
-      const arrow = new THREE.ArrowHelper(new THREE.Vector3(0, 0, 1), headRef.current.position, 1.5, 0x00ffff)
-      arrowRef.current = arrow
-      headRef.current.parent?.add(arrow)
-    }
-    return () => {
-      if (arrowRef.current && headRef.current?.parent) {
-        headRef.current.parent.remove(arrowRef.current)
-        if (arrowRef.current.line) arrowRef.current.line.geometry.dispose()
-        if (arrowRef.current.cone) arrowRef.current.cone.geometry.dispose()
-        arrowRef.current.dispose()
-        arrowRef.current = null
-      }
-    }
-  }, [])
-
-  // --- Keyboard controls for state transitions ---
-  useEffect(() => {
-    const onKeyDown = (event: KeyboardEvent) => {
-      const key = event.key.toLowerCase()
-
-      return 
-      if (key === 'r') {
-        fishBehavior.resetTarget()
-        if (headRef.current) {
-          fishBehavior.restPosition = headRef.current.position.clone()
-          fishBehavior.restDirection = (currentVelocity.current.length() > 0.001)
-            ? currentVelocity.current.clone().normalize()
-            : new THREE.Vector3(0, 0, 1)
-        }
-        setCurrentBehavior(FishState.REST)
-      } else if (key === 'a') {
-        fishBehavior.state = FishState.APPROACH
-        setCurrentBehavior(FishState.APPROACH)
-      } else if (key === 'w') {
-        fishBehavior.state = FishState.WANDER
-        if (headRef.current) {
-          wanderTargetRef.current.copy(headRef.current.position)
-          lastWanderUpdateRef.current = 0
-          setWanderTargetState(headRef.current.position.clone())
-        }
-        setCurrentBehavior(FishState.WANDER)
-      } else if (key === 't') {
-        // Toggle TALK state
-        if (fishBehavior.state === FishState.TALK) {
-          fishBehavior.stopTalking()
-        } else if (headRef.current) {
-          fishBehavior.startTalking(
-            headRef.current.position.clone(),
-            currentVelocity.current.clone()
-          )
-        }
-        setCurrentBehavior(fishBehavior.state)
-      }
-    }
-    window.addEventListener('keydown', onKeyDown)
-    return () => window.removeEventListener('keydown', onKeyDown)
-  }, [fishBehavior])
-
-  // --- Helper: Clamp a position to the allowed bounds ---
-  const applyBounds = (position: THREE.Vector3) => {
-    position.x = THREE.MathUtils.clamp(position.x, wanderParams.current.bounds.min, wanderParams.current.bounds.max)
-    position.z = THREE.MathUtils.clamp(position.z, wanderParams.current.bounds.min, wanderParams.current.bounds.max)
+  // --- Helper: Add separation, alignment and cohesion with the school on top of a steering force ---
+  const addFlocking = (steer: THREE.Vector3) => {
+    if (!flock) return
+    const params = wanderParams.current
+    const neighbors = flock.index.query(simHeadPos.current, flock.perceptionRadius, neighborsRef.current, flockMember)
+    if (neighbors.length === 0) return
+    steer.add(flockForce(simHeadPos.current, currentVelocity.current, neighbors, {
+      ...flock.params,
+      maxSpeed: params.maxSpeed,
+      maxSteerForce: params.maxSteerForce,
+    })).clampLength(0, params.maxSteerForce)
   }
 
-  // --- Helper: Update head movement based on state and update velocity ---
-  const updateMovement = (delta: number) => {
+  // --- Helper: Advance head movement by one tick based on state and update velocity ---
+  const updateMovement = (dt: number) => {
     const params = wanderParams.current
-    const priorPos = headRef.current!.position.clone()
+    const head = simHeadPos.current
+    const priorPos = head.clone()
+    steeringDebug.desired.set(0, 0, 0)
+    steeringDebug.steering.set(0, 0, 0)
 
     if ((fishBehavior.state === FishState.REST || fishBehavior.state === FishState.TALK) 
         && fishBehavior.stationaryPosition && fishBehavior.stationaryDirection) {
       const sway = Math.sin(timeRef.current * animationControls.swayFrequency) * animationControls.swayAmount
       const perp = new THREE.Vector3(-fishBehavior.stationaryDirection.z, 0, fishBehavior.stationaryDirection.x)
       const targetPos = fishBehavior.stationaryPosition.clone().add(perp.multiplyScalar(sway))
-      headRef.current!.position.lerp(targetPos, 0.1)
+      head.lerp(targetPos, dampFactor(STATIONARY_DAMPING, dt))
     } else if (fishBehavior.state === FishState.WANDER) {
-      applyBounds(headRef.current!.position)
-      const forward = new THREE.Vector3()
-      if (currentVelocity.current.length() > 0.001) {
-        forward.copy(currentVelocity.current).setY(0).normalize()
-      } else {
-        forward.set(0, 0, 1)
-      }
-      const visionPoint = headRef.current!.position.clone().add(forward.clone().multiplyScalar(params.visionDistance))
-      const isVisionOut = visionPoint.x < params.bounds.min + params.boundaryBuffer ||
-                          visionPoint.x > params.bounds.max - params.boundaryBuffer ||
-                          visionPoint.z < params.bounds.min + params.boundaryBuffer ||
-                          visionPoint.z > params.bounds.max - params.boundaryBuffer
-      const isTargetOut = wanderTargetRef.current.x < params.bounds.min ||
-                          wanderTargetRef.current.x > params.bounds.max ||
-                          wanderTargetRef.current.z < params.bounds.min ||
-                          wanderTargetRef.current.z > params.bounds.max
-      const distToTarget = headRef.current!.position.distanceTo(wanderTargetRef.current)
-      const shouldUpdate = (timeRef.current - lastWanderUpdateRef.current > params.updateInterval) ||
-                           (distToTarget < params.arrivalThreshold) ||
-                           isTargetOut ||
-                           isVisionOut
-      if (shouldUpdate) {
-        let base = new THREE.Vector3()
-        if (isVisionOut) {
-          const toCenter = new THREE.Vector3().subVectors(new THREE.Vector3(0, 0, 0), headRef.current!.position).normalize()
-          base.copy(headRef.current!.position).add(toCenter.multiplyScalar(params.forwardDistance))
-        } else {
-          base.copy(headRef.current!.position).add(forward.multiplyScalar(params.forwardDistance))
-        }
-        const angle = Math.random() * Math.PI * 2
-        const offsetLen = Math.random() * params.radius
-        const offset = new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle)).multiplyScalar(offsetLen)
-        const newTarget = base.clone().add(offset)
-        newTarget.x = THREE.MathUtils.clamp(newTarget.x, params.bounds.min, params.bounds.max)
-        newTarget.z = THREE.MathUtils.clamp(newTarget.z, params.bounds.min, params.bounds.max)
-        newTarget.y = 0
-        wanderTargetRef.current.copy(newTarget)
-        lastWanderUpdateRef.current = timeRef.current
-        setWanderTargetState(newTarget.clone())
+      clampToBounds(head, params.bounds)
+      const steer = wander(head, currentVelocity.current, wanderStateRef.current, params, timeRef.current)
+      if (showSteeringDebug) {
+        desiredArrive(head, wanderStateRef.current.target, params, steeringDebug.desired)
       }
-      const desired = new THREE.Vector3().subVectors(wanderTargetRef.current, headRef.current!.position)
-      const dist = desired.length()
-      desired.normalize()
-      if (dist < params.slowingRadius) {
-        desired.multiplyScalar(params.maxSpeed * (dist / params.slowingRadius))
-      } else {
-        desired.multiplyScalar(params.maxSpeed)
-      }
-      const steer = desired.sub(currentVelocity.current)
-      steer.clampLength(0, params.maxSteerForce)
-      currentVelocity.current.add(steer)
-      currentVelocity.current.clampLength(0, params.maxSpeed)
-      headRef.current!.position.add(currentVelocity.current)
-      applyBounds(headRef.current!.position)
+      addFlocking(steer)
+      steeringDebug.steering.copy(steer)
+      applySteering(currentVelocity.current, steer, params.maxSpeed, dt)
+      head.addScaledVector(currentVelocity.current, dt)
+      clampToBounds(head, params.bounds)
     } else if (fishBehavior.state === FishState.APPROACH) {
       if (!fishBehavior.target) return
-      const params = wanderParams.current
-      const desired = new THREE.Vector3().subVectors(fishBehavior.target, headRef.current!.position)
-      const dist = desired.length()
-      desired.normalize()
-      if (dist < params.slowingRadius) {
-        desired.multiplyScalar(params.maxSpeed * (dist / params.slowingRadius))
-      } else {
-        desired.multiplyScalar(params.maxSpeed)
-      }
+      const desired = desiredArrive(head, fishBehavior.target, params)
       const wiggle = Math.sin(timeRef.current * 2) * 0.2
       desired.applyAxisAngle(new THREE.Vector3(0, 1, 0), wiggle)
-      const steer = desired.sub(currentVelocity.current)
-      steer.clampLength(0, params.maxSteerForce)
-      currentVelocity.current.add(steer)
-      currentVelocity.current.clampLength(0, params.maxSpeed)
-      headRef.current!.position.add(currentVelocity.current)
-      applyBounds(headRef.current!.position)
+      const steer = steerTowards(desired, currentVelocity.current, params.maxSteerForce)
+      addFlocking(steer)
+      steeringDebug.desired.copy(desired)
+      steeringDebug.steering.copy(steer)
+      applySteering(currentVelocity.current, steer, params.maxSpeed, dt)
+      head.addScaledVector(currentVelocity.current, dt)
+      clampToBounds(head, params.bounds)
+    } else if (fishBehavior.state === FishState.CURIOUS) {
+      if (!fishBehavior.pointer) return
+      const steer = orbit(head, currentVelocity.current, fishBehavior.pointer, {
+        ...params,
+        radius: fishBehavior.getComfortDistance(),
+        orbitSpeed: params.maxSpeed * ORBIT_SPEED_FACTOR,
+      })
+      addFlocking(steer)
+      steeringDebug.steering.copy(steer)
+      applySteering(currentVelocity.current, steer, params.maxSpeed, dt)
+      head.addScaledVector(currentVelocity.current, dt)
+      clampToBounds(head, params.bounds)
+    } else if (fishBehavior.state === FishState.FLEE) {
+      const fleeParams = {
+        maxSpeed: params.maxSpeed * FLEE_SPEED_FACTOR,
+        maxSteerForce: params.maxSteerForce * FLEE_SPEED_FACTOR,
+      }
+      if (fishBehavior.pointer) {
+        const steer = evade(head, currentVelocity.current, fishBehavior.pointer, fishBehavior.pointerVelocity, fleeParams)
+        steeringDebug.steering.copy(steer)
+        applySteering(currentVelocity.current, steer, fleeParams.maxSpeed, dt)
+      }
+      head.addScaledVector(currentVelocity.current, dt)
+      clampToBounds(head, params.bounds)
     } else if (fishBehavior.state === FishState.EAT) {
-      headRef.current!.position.add(currentVelocity.current.clone().multiplyScalar(0.98))
+      currentVelocity.current.multiplyScalar(Math.pow(EAT_GLIDE_RETAIN, dt))
+      head.addScaledVector(currentVelocity.current, dt)
     }
-    // Update velocity based on how far the head has moved in this frame
-    const displacement = headRef.current!.position.clone().sub(priorPos)
-    currentVelocity.current.copy(displacement).clampLength(0, params.maxSpeed)
-    prevHeadPos.current.copy(headRef.current!.position)
+    // Update velocity based on how far the head has moved in this tick
+    const speedLimit = fishBehavior.state === FishState.FLEE ? params.maxSpeed * FLEE_SPEED_FACTOR : params.maxSpeed
+    const displacement = head.clone().sub(priorPos)
+    currentVelocity.current.copy(displacement).divideScalar(dt).clampLength(0, speedLimit)
   }
 
   // --- Helper: Compute a smooth intended heading for the head (used by tail update) ---
   const computeTargetDirection = (): THREE.Vector3 => {
     const candidate = new THREE.Vector3()
-    if (fishBehavior.state === FishState.REST && fishBehavior.restDirection) {
-      candidate.copy(fishBehavior.restDirection)
+    if (fishBehavior.isStationary() && fishBehavior.stationaryDirection) {
+      candidate.copy(fishBehavior.stationaryDirection)
     } else if (fishBehavior.state === FishState.APPROACH && fishBehavior.target) {
-      candidate.copy(fishBehavior.target).sub(headRef.current!.position)
+      candidate.copy(fishBehavior.target).sub(simHeadPos.current)
       candidate.y = 0
       if (candidate.length() > 0.001) {
         candidate.normalize()
@@ -360,9 +455,10 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
     return candidate
   }
 
-  // --- Helper: Update tail segments to follow the head using the smoothed heading ---
-  const updateTailSegments = (headDirection: THREE.Vector3) => {
-    let prevPos = headRef.current!.position.clone()
+  // --- Helper: Advance tail segments by one tick to follow the head using the smoothed heading ---
+  const updateTailSegments = (headDirection: THREE.Vector3, dt: number) => {
+    const follow = dampFactor(TAIL_DAMPING, dt)
+    let prevPos = simHeadPos.current.clone()
     for (let i = 0; i < tailCount; i++) {
       const segProgress = i / tailCount;
       const taperFactor = Math.pow(1 - segProgress, 1.2)
@@ -375,32 +471,168 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
         const perp = new THREE.Vector3(-headDirection.z, 0, headDirection.x)
         basePos.add(perp.multiplyScalar(sway))
       } else {
-        const speedFactor = THREE.MathUtils.clamp(currentVelocity.current.length() * 10, 0.2, 1)
+        const speedFactor = THREE.MathUtils.clamp(currentVelocity.current.length() / 6, 0.2, 1)
+        // Speaking louder makes the tail wave harder
+        const talkBoost = fishBehavior.state === FishState.TALK ? speechLevelRef.current * animationControls.talkWaveBoost : 0
         const baseAmp = animationControls.waveBase * (1 - i / tailCount)
-        const waveAmp = baseAmp * speedFactor
+        const waveAmp = baseAmp * (speedFactor + talkBoost)
         const waveOffset = Math.sin(timeRef.current * animationControls.waveSpeed + i * 0.5) * waveAmp
         const perp = new THREE.Vector3(-headDirection.z, 0, headDirection.x)
         basePos.add(perp.multiplyScalar(waveOffset))
       }
-      tailPositions.current[i].lerp(basePos, 0.1)
+      prevTailPositions.current[i].copy(tailPositions.current[i])
+      tailPositions.current[i].lerp(basePos, follow)
       const curDist = tailPositions.current[i].distanceTo(prevPos)
       // NOTE: NEEDED for smooth turns. 1.05 does NOT work. Needed for constrained turns.
       if (curDist > spacing ) {
         tailPositions.current[i].sub(prevPos).setLength(spacing)
         tailPositions.current[i].add(prevPos)
       }
-      if (tailRefs.current[i]) {
-        tailRefs.current[i]!.position.copy(tailPositions.current[i])
-      }
       prevPos = tailPositions.current[i].clone()
     }
   }
 
+  // --- Helper: One fixed simulation tick (behavior, movement, heading and tail) ---
+  const simulate = (dt: number) => {
+    timeRef.current += dt
+    prevHeadPos.current.copy(simHeadPos.current)
+
+    // Update the fish behavior state machine
+    fishBehavior.update(simHeadPos.current, currentVelocity.current, dt)
+
+    // Update movement (head position, steering, and velocity)
+    updateMovement(dt)
+
+    // Smooth the intended direction (to drive the tail)
+    lastHeadDir.current.lerp(computeTargetDirection(), dampFactor(HEADING_DAMPING, dt))
+
+    // Update tail segments so they follow the head smoothly
+    updateTailSegments(lastHeadDir.current.clone(), dt)
+
+    flock?.index.update(flockMember)
+
+    if (showSteeringDebug) {
+      const params = wanderParams.current
+      steeringDebug.velocity.copy(currentVelocity.current)
+      steeringDebug.wanderTarget.copy(wanderStateRef.current.target)
+      visionPoint(simHeadPos.current, currentVelocity.current, params.visionDistance, steeringDebug.visionPoint)
+      steeringDebug.targets = [fishBehavior.target, ...fishBehavior.targetQueue].filter((t): t is THREE.Vector3 => !!t)
+    }
+  }
+
+  // --- Debug commands: force any state, pause, single-step and scale time ---
+  const stepRequestedRef = useRef(false)
+
+  // Point on the ground a little ahead of the head, for commands that need a target
+  const aheadOfHead = (distance: number) =>
+    simHeadPos.current.clone().addScaledVector(lastHeadDir.current, distance).setY(0)
+
+  const debugCommands: DebugCommand[] = [
+    { key: 'w', label: 'Wander', run: () => {
+      fishBehavior.forceState(FishState.WANDER)
+      wanderStateRef.current.target.copy(simHeadPos.current)
+      wanderStateRef.current.lastUpdate = timeRef.current
+    } },
+    { key: 'a', label: 'Approach (drops food ahead if there is none)', run: () => {
+      if (!fishBehavior.target && fishBehavior.targetQueue.length === 0) {
+        fishBehavior.setFoodTarget(aheadOfHead(3))
+      }
+      fishBehavior.forceState(FishState.APPROACH)
+    } },
+    { key: 'e', label: 'Eat', run: () => fishBehavior.forceState(FishState.EAT) },
+    { key: 'r', label: 'Rest', run: () => fishBehavior.forceState(FishState.REST, simHeadPos.current, currentVelocity.current) },
+    { key: 't', label: 'Talk (toggle)', run: () => {
+      if (fishBehavior.state === FishState.TALK) {
+        fishBehavior.stopTalking()
+      } else {
+        fishBehavior.startTalking(simHeadPos.current.clone(), currentVelocity.current.clone())
+      }
+    } },
+    { key: 'c', label: 'Curious (puts the pointer ahead if it is away)', run: () => {
+      if (!pointer.current) pointer.current = aheadOfHead(2)
+      fishBehavior.forceState(FishState.CURIOUS)
+    } },
+    { key: 'f', label: 'Flee', run: () => fishBehavior.forceState(FishState.FLEE) },
+    { key: 'x', label: 'Reset (drop all food)', run: () => fishBehavior.resetTarget() },
+    { key: 'n', label: 'New conversation (the fish forgets what was said)', run: () => conversation.reset() },
+    { key: 'v', label: 'Hands-free listening (toggle)', run: () => toggleHandsFreeRef.current() },
+    { key: ' ', label: 'Pause / resume', run: () => setDebugControls({ paused: !debugControls.paused }) },
+    { key: '.', label: 'Step one tick (pauses)', run: () => {
+      stepRequestedRef.current = true
+      if (!debugControls.paused) setDebugControls({ paused: true })
+    } },
+    { key: '-', label: 'Slower', run: () => setDebugControls({ timeScale: Math.max(MIN_TIME_SCALE, debugControls.timeScale / 2) }) },
+    { key: '=', label: 'Faster', run: () => setDebugControls({ timeScale: Math.min(MAX_TIME_SCALE, debugControls.timeScale * 2) }) },
+    { key: 'h', label: 'Show / hide this overlay', run: () => setDebugControls({ showOverlay: !debugControls.showOverlay }) },
+  ]
+
+  useDebugCommands(debugCommands, standalone)
+
   // --- Main animation loop ---
   const lineEndRef = useRef(new THREE.Vector3(0, 1.5, 0))
 
+  // --- Hands-free listening: when speech starts and stops counting ---
+  const toggleHandsFreeRef = useRef<() => void>(() => {})
+  const voiceControls = useControls('Voice', {
+    threshold: { value: DEFAULT_VOICE_ACTIVITY.threshold, min: 0.01, max: 0.5, step: 0.01, label: 'threshold (level)' },
+    minSpeech: { value: DEFAULT_VOICE_ACTIVITY.minSpeechMs, min: 50, max: 1000, step: 10, label: 'minSpeech (ms)' },
+    silence: { value: DEFAULT_VOICE_ACTIVITY.silenceMs, min: 200, max: 3000, step: 50, label: 'silence (ms)' },
+    idleTimeout: { value: DEFAULT_VOICE_ACTIVITY.idleTimeoutMs / 1000, min: 0, max: 300, step: 5, label: 'idleTimeout (s, 0 = never)' },
+    'Hands-free on/off': button(() => toggleHandsFreeRef.current()),
+  }, { collapsed: true })
+  const voiceActivity = useMemo(() => ({
+    threshold: voiceControls.threshold,
+    minSpeechMs: voiceControls.minSpeech,
+    silenceMs: voiceControls.silence,
+    idleTimeoutMs: voiceControls.idleTimeout * 1000,
+  }), [voiceControls.threshold, voiceControls.minSpeech, voiceControls.silence, voiceControls.idleTimeout])
+
   // Import our speech hook.
-  const { startRecording, stopRecording, userSpeech, fishResponse } = useSpeechInteraction()
+  const {
+    startRecording, stopRecording, startHandsFree, stopHandsFree, isHandsFree, error: captureError,
+    userSpeech, fishResponse, isResponding, isSpeechEnabled, speechLevel, cancelResponse,
+  } = useSpeechInteraction({ voiceActivity })
+  toggleHandsFreeRef.current = isHandsFree ? stopHandsFree : startHandsFree
+
+  // --- Talking: TALK lasts while the reply streams in, plus time to read it ---
+  const stopTalkingTimeoutRef = useRef<number | null>(null)
+  // Whether the current TALK is for a streamed reply (rather than the debug toggle)
+  const talkingForReplyRef = useRef(false)
+
+  const clearStopTalking = useCallback(() => {
+    if (stopTalkingTimeoutRef.current !== null) {
+      clearTimeout(stopTalkingTimeoutRef.current)
+      stopTalkingTimeoutRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isResponding) {
+      clearStopTalking()
+      if (!talkingForReplyRef.current) {
+        talkingForReplyRef.current = true
+        fishBehavior.startTalking(simHeadPos.current.clone(), currentVelocity.current.clone())
+      }
+      return
+    }
+    if (!talkingForReplyRef.current || stopTalkingTimeoutRef.current !== null) return
+    stopTalkingTimeoutRef.current = window.setTimeout(() => {
+      stopTalkingTimeoutRef.current = null
+      fishBehavior.stopTalking()
+    }, isSpeechEnabled ? READING_PAUSE_MS : readingTime(fishResponse))
+  }, [isResponding, fishResponse, isSpeechEnabled, fishBehavior, clearStopTalking])
+
+  // Leaving TALK any other way (startled, fed, debug keys, pressing the head) interrupts the reply
+  useEffect(() => fishBehavior.on((event) => {
+    if (event.from !== FishState.TALK) return
+    clearStopTalking()
+    talkingForReplyRef.current = false
+    cancelResponse()
+  }), [fishBehavior, clearStopTalking, cancelResponse])
+
+  useEffect(() => clearStopTalking, [clearStopTalking])
+
+  const bubbleWords = useMemo(() => splitWords(fishResponse), [fishResponse])
 
   // Add this with other controls
   const cameraControls = useControls('Camera', {
@@ -410,29 +642,33 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
   }, { collapsed: true })
 
   useFrame((state: RootState, delta: number) => {
-    timeRef.current = state.clock.elapsedTime
     if (!headRef.current) return
 
-    // Update the fish behavior state machine
-    fishBehavior.update(headRef.current.position, currentVelocity.current, delta)
-    setCurrentBehavior(fishBehavior.state)
-
-    // Update movement (head position, steering, and velocity)
-    updateMovement(delta)
-
-    // Compute a smoothed intended direction (to drive the tail)
-    const newDirCandidate = computeTargetDirection()
-    lastHeadDir.current.lerp(newDirCandidate, 0.5)
-    const intendedDir = lastHeadDir.current.clone()
+    // Loudness of the fish's voice, pulsing the head while it talks
+    const targetLevel = fishBehavior.state === FishState.TALK ? speechLevel() : 0
+    speechLevelRef.current = THREE.MathUtils.lerp(speechLevelRef.current, targetLevel, dampFactor(SPEECH_LEVEL_DAMPING, delta))
+    headRef.current.scale.setScalar(1 + speechLevelRef.current * animationControls.talkPulse)
+
+    // The pointer is sampled once per frame, over the simulated time the frame covers
+    let alpha = 1
+    if (!debugControls.paused) {
+      fishBehavior.setPointer(pointer.current, delta * debugControls.timeScale)
+      alpha = timestep.advance(delta * debugControls.timeScale, simulate)
+    } else if (stepRequestedRef.current) {
+      stepRequestedRef.current = false
+      fishBehavior.setPointer(pointer.current, timestep.step)
+      simulate(timestep.step)
+    } else {
+      fishBehavior.setPointer(pointer.current, 0)
+    }
 
-    // Update arrow helper (for debugging)
-    if (arrowRef.current) {
-      arrowRef.current.position.copy(headRef.current.position)
-      arrowRef.current.setDirection(intendedDir)
+    // Render interpolated between the last two ticks
+    headRef.current.position.lerpVectors(prevHeadPos.current, simHeadPos.current, alpha)
+    for (let i = 0; i < tailPositions.current.length; i++) {
+      tailRefs.current[i]?.position.lerpVectors(prevTailPositions.current[i], tailPositions.current[i], alpha)
     }
 
-    // Update tail segments so they follow the head smoothly
-    updateTailSegments(intendedDir)
+    steeringDebug.position.copy(headRef.current.position)
 
     // Calculate perspective line
     if (headRef.current) {
@@ -478,7 +714,7 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
     }
 
     // Camera follow logic
-    if (cameraControls.locked && headRef.current) {
+    if (standalone && cameraControls.locked && headRef.current) {
       const targetPosition = headRef.current.position.clone()
       
       // Calculate camera position behind the fish
@@ -495,7 +731,7 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
         .add(new THREE.Vector3(0, cameraControls.height, 0))
 
       // Smoothly move camera to new position
-      state.camera.position.lerp(targetPosition.add(cameraOffset), 0.1)
+      state.camera.position.lerp(targetPosition.add(cameraOffset), dampFactor(CAMERA_DAMPING, delta))
       
       // Look at fish
       state.camera.lookAt(headRef.current.position)
@@ -505,69 +741,51 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
   // Add this ref for the Line
   const lineRef = useRef<THREE.Line>(null)
 
-  // Add these near the top with other state declarations
-  const [displayWords, setDisplayWords] = useState<{ text: string; visible: boolean }[]>([]);
-  const fullText = "Where there is a will, there is a way.";
-  const wordDelay = 200; // milliseconds between words
-
-  // Update the text streaming logic
-  useEffect(() => {
-    if (fishBehavior.state === FishState.TALK) {
-      const words = fullText.split(' ');
-      // Initialize all words as invisible
-      setDisplayWords(words.map(word => ({ text: word, visible: false })));
-      
-      // Make each word visible one at a time
-      words.forEach((_, index) => {
-        setTimeout(() => {
-          setDisplayWords(prev => 
-            prev.map((word, i) => 
-              i === index ? { ...word, visible: true } : word
-            )
-          );
-        }, index * wordDelay + Math.random() * 200);
-      });
-    } else {
-      setDisplayWords([]);
-    }
-  }, [fishBehavior.state]);
-
   return (
     <>
       {/* Add OrbitControls with enabled state based on lock */}
-      <OrbitControls enabled={!cameraControls.locked} />
+      {standalone && <OrbitControls enabled={!cameraControls.locked} />}
 
       {/* Move Bloom inside a group with just the Fish elements */}
       <group>
-        <EffectComposer enabled={true}>
-          <Bloom 
-            intensity={50.0}
-            luminanceThreshold={0.5}
-            luminanceSmoothing={0.5}
-            mipmapBlur={true}
-            kernelSize={2}
-            resolutionScale={0.5}
-          />
-          
-        </EffectComposer>
+        {/* One composer per canvas: fish in a School share the parent's */}
+        {standalone && (
+          <EffectComposer>
+            <Bloom 
+              intensity={50.0}
+              luminanceThreshold={0.5}
+              luminanceSmoothing={0.5}
+              mipmapBlur={true}
+              kernelSize={2}
+              resolutionScale={0.5}
+            />
+          </EffectComposer>
+        )}
 
         {/* Ground plane for food-click detection */}
-        <mesh
-          onPointerDown={(e) => {
-            const pt = e.point.clone()
-            pt.y = 0
-            fishBehavior.setFoodTarget(pt)
-            setFoodTarget(pt)
-            console.log('Food placed, new state:', fishBehavior.state)
-            setCurrentBehavior(fishBehavior.state)
-          }}
-          position={[0, -1, 0]}
-          rotation={[-Math.PI / 2, 0, 0]}
-          visible={false}
-        >
-          <planeGeometry args={[100, 100]} />
-          <meshBasicMaterial transparent opacity={0} />
-        </mesh>
+        {standalone && (
+          <mesh
+            onPointerDown={(e) => {
+              const pt = e.point.clone()
+              pt.y = 0
+              fishBehavior.setFoodTarget(pt)
+              setFoodTarget(pt)
+              console.log('Food placed, new state:', fishBehavior.state)
+            }}
+            onPointerMove={(e) => {
+              ownPointerRef.current = (ownPointerRef.current ?? new THREE.Vector3()).set(e.point.x, 0, e.point.z)
+            }}
+            onPointerOut={() => {
+              ownPointerRef.current = null
+            }}
+            position={[0, -1, 0]}
+            rotation={[-Math.PI / 2, 0, 0]}
+            visible={false}
+          >
+            <planeGeometry args={[100, 100]} />
+            <meshBasicMaterial transparent opacity={0} />
+          </mesh>
+        )}
 
         <group>
           {/* Fish Head with added pointer events for speech interaction */}
@@ -575,7 +793,8 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
             ref={headRef}
             castShadow
             onPointerDown={(e) => {
-              // Start recording when pressed on the fish head.
+              // Pressing the head while the fish talks cuts it off, then starts recording.
+              if (talkingForReplyRef.current) fishBehavior.stopTalking()
               startRecording()
             }}
             onPointerUp={(e) => {
@@ -592,10 +811,9 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
               gradientMap={gradientMap}
             />
             <primitive object={new THREE.Object3D()} scale={[1.2, 0.85, 1]} />
-            {/* If the fish is already in TALK state from previous behavior... */}
-            {(fishBehavior.state === FishState.TALK) && (
+            {(currentBehavior === FishState.TALK) && (
               <group>
-                {/* Existing talk bubble (if any) */}
+                {/* The fish's reply, streamed in word by word */}
                 <Html
                   position={[2.5, 4.5, -0.5]}
                   transform
@@ -604,17 +822,13 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
                 >
                   <div className="min-w-[120px] max-w-[200px] flex justify-start bg-black/30 text-white px-3 py-2 rounded-md border border-white/20 font-mono text-sm">
                     <div className="flex flex-wrap gap-1">
-                      {displayWords.map((word, index) => (
-                        <span
-                          key={index}
-                          className={`transition-opacity duration-300 ${
-                            word.visible ? 'opacity-100' : 'opacity-0'
-                          }`}
-                        >
-                          {word.text}
+                      {/* Keyed by position, so only newly streamed words fade in */}
+                      {bubbleWords.map((word, index) => (
+                        <span key={index} className="animate-fadeIn">
+                          {word}
                         </span>
                       ))}
-                      {displayWords.length === 0 && '\u00A0'}
+                      {bubbleWords.length === 0 && '\u00A0'}
                     </div>
                   </div>
                 </Html>
@@ -640,8 +854,8 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
             </Html>
           )}
 
-          {/* Display the fish's response below the user speech */}
-          {fishResponse && headRef.current && (
+          {/* Why the fish couldn't hear */}
+          {captureError && headRef.current && (
             <Html
               position={[
                 headRef.current.position.x,
@@ -652,8 +866,8 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
               occlude
               distanceFactor={7}
             >
-              <div className="bg-blue-500 text-white px-3 py-1 rounded-md shadow-lg">
-                Fish: {fishResponse}
+              <div className="bg-red-500/80 text-white px-3 py-1 rounded-md shadow-lg" title={captureError.message}>
+                {CAPTURE_ERROR_LABELS[captureError.kind]}
               </div>
             </Html>
           )}
@@ -689,61 +903,43 @@ const Fish: React.FC<FishProps> = ({ onPositionUpdate }) => {
         </group>
 
         {/* Food Marker */}
-        { [fishBehavior.target, ...fishBehavior.targetQueue].filter(Boolean).map((ft, idx) => (
-          <mesh
-            key={idx}
-            position={[
-              ft!.x,
-              ft!.y + Math.sin(timeRef.current * 3) * 0.05 + 0.02,
-              ft!.z,
-            ]}
-            castShadow
-          >
-            <sphereGeometry args={[0.025, 12, 12]} />
-            <meshToonMaterial 
-              color="#FFFFFF"
-              emissive="#FFFFFF"
-              emissiveIntensity={0.2}
-              toneMapped={false}
-              gradientMap={gradientMap}
-            />
-          </mesh>
-        ))}
+        {standalone && (
+          <FoodMarkers positions={[fishBehavior.target, ...fishBehavior.targetQueue].filter(Boolean)} />
+        )}
+
+        {/* Hunger and energy meters */}
+        {standalone && metabolismControls.showHud && (
+          <Html fullscreen style={{ pointerEvents: 'none' }}>
+            <FishHud behavior={fishBehavior} />
+          </Html>
+        )}
 
         {/* Debug Overlay */}
-        {/* <Html fullscreen style={{ pointerEvents: 'none' }}>
-          <div style={{
-            position: 'absolute',
-            top: 20,
-            left: 20,
-            color: 'white',
-            fontFamily: 'monospace',
-            background: 'rgba(0,0,0,0.5)',
-            padding: '5px'
-          }}>
-            Current State: {currentBehavior} | 
-            Speed: {currentVelocity.current?.length().toFixed(4)} / {movementControls.maxSpeed.toFixed(4)}
-            {foodTarget && ` | Food Target: (${foodTarget.x.toFixed(2)}, ${foodTarget.z.toFixed(2)})`}
-          </div>
-        </Html> */}
-
-        {/* (Optional) Wander Target Marker */}
-        {fishBehavior.state === FishState.WANDER && (
-          <Html
-            position={[wanderTargetState.x, wanderTargetState.y, wanderTargetState.z]}
-            style={{ pointerEvents: 'none' }}
-            key={`${wanderTargetState.x.toFixed(2)}-${wanderTargetState.y.toFixed(2)}-${wanderTargetState.z.toFixed(2)}`}
-          >
-            <div style={{
-              display: 'none',
-              color: '#4169E1',
-              fontSize: '16px',
-              fontWeight: 'bold',
-              opacity: 0.8,
-              transform: 'translate(-50%, -50%)'
-            }}>×</div>
+        {standalone && debugControls.showOverlay && (
+          <Html fullscreen style={{ pointerEvents: 'none' }}>
+            <DebugOverlay
+              behavior={fishBehavior}
+              velocity={currentVelocity.current}
+              maxSpeed={movementControls.maxSpeed}
+              commands={debugCommands}
+              paused={debugControls.paused}
+              timeScale={debugControls.timeScale}
+            />
           </Html>
         )}
+
+        {/* Steering debug layers */}
+        {showSteeringDebug && (
+          <SteeringDebug
+            data={steeringDebug}
+            layers={debugLayers}
+            bounds={{ min: boundaryControls.min, max: boundaryControls.max }}
+            boundaryBuffer={boundaryControls.buffer}
+            slowingRadius={movementControls.slowingRadius}
+            forwardDistance={wanderControls.forwardDistance}
+            wanderRadius={wanderControls.radius}
+          />
+        )}
       </group>
     </>
   )
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react'
+import { FishBehavior } from '../steering/FishBehavior'
+
+interface FishHudProps {
+  behavior: FishBehavior
+  // How often the meters are sampled (in milliseconds); they change slowly, no need to re-render per frame
+  refreshInterval?: number
+}
+
+const Meter = ({ label, value, color }: { label: string; value: number; color: string }) => (
+  <div className="flex items-center gap-2">
+    <span className="w-14 text-white/60">{label}</span>
+    <div className="w-24 h-1.5 rounded-full bg-white/10 overflow-hidden">
+      <div
+        className="h-full rounded-full transition-all duration-300"
+        style={{ width: `${Math.round(value * 100)}%`, background: color }}
+      />
+    </div>
+    <span className="w-8 text-right text-white/60">{Math.round(value * 100)}</span>
+  </div>
+)
+
+// Hunger and energy meters for a single fish
+const FishHud: React.FC<FishHudProps> = ({ behavior, refreshInterval = 250 }) => {
+  const [meters, setMeters] = useState({ hunger: behavior.hunger, energy: behavior.energy, state: behavior.state })
+
+  useEffect(() => {
+    const id = window.setInterval(() => {
+      setMeters({ hunger: behavior.hunger, energy: behavior.energy, state: behavior.state })
+    }, refreshInterval)
+    return () => window.clearInterval(id)
+  }, [behavior, refreshInterval])
+
+  return (
+    <div className="absolute bottom-5 left-5 font-mono text-[10px] text-white bg-black/40 border border-white/10 rounded-md px-3 py-2 space-y-1 pointer-events-none">
+      <div className="text-white/80 uppercase tracking-wider">{meters.state}</div>
+      <Meter label="hunger" value={meters.hunger} color="rgba(251, 146, 60, 0.8)" />
+      <Meter label="energy" value={meters.energy} color="rgba(16, 185, 129, 0.8)" />
+    </div>
+  )
+}
+
+export default FishHud
@@ -0,0 +1,44 @@
+import React, { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { useToonGradientMap } from '../hooks/useToonGradientMap'
+
+interface FoodMarkersProps {
+  positions: THREE.Vector3[]
+}
+
+// Small bobbing pellets marking where food was placed
+const FoodMarkers: React.FC<FoodMarkersProps> = ({ positions }) => {
+  const gradientMap = useToonGradientMap()
+  const groupRef = useRef<THREE.Group>(null)
+
+  useFrame((state) => {
+    const bob = Math.sin(state.clock.elapsedTime * 3) * 0.05 + 0.02
+    groupRef.current?.children.forEach((child, idx) => {
+      if (positions[idx]) child.position.y = positions[idx].y + bob
+    })
+  })
+
+  return (
+    <group ref={groupRef}>
+      {positions.map((ft, idx) => (
+        <mesh
+          key={idx}
+          position={[ft.x, ft.y + 0.02, ft.z]}
+          castShadow
+        >
+          <sphereGeometry args={[0.025, 12, 12]} />
+          <meshToonMaterial 
+            color="#FFFFFF"
+            emissive="#FFFFFF"
+            emissiveIntensity={0.2}
+            toneMapped={false}
+            gradientMap={gradientMap}
+          />
+        </mesh>
+      ))}
+    </group>
+  )
+}
+
+export default FoodMarkers
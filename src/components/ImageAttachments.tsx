@@ -0,0 +1,41 @@
+import { PostImage } from '../hooks/usePostImages'
+
+interface ImageAttachmentsProps {
+  images: PostImage[]
+  onAltChange: (id: string, alt: string) => void
+  onRemove: (id: string) => void
+}
+
+// Thumbnails of the attached images, each with its alt text field
+const ImageAttachments = ({ images, onAltChange, onRemove }: ImageAttachmentsProps) => (
+  <ul className="image-attachments flex flex-wrap gap-3 mb-4 ml-1 animate-fadeIn">
+    {images.map((image, index) => (
+      <li key={image.id} className="w-28">
+        <div className="relative">
+          <img
+            src={image.previewUrl}
+            alt={image.alt}
+            className="w-28 h-20 object-cover rounded-md border border-white/10"
+          />
+          <button
+            className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/60 text-white/80 hover:text-white text-xs leading-none"
+            aria-label="Remove image"
+            onClick={() => onRemove(image.id)}
+          >
+            ×
+          </button>
+        </div>
+        <input
+          // Ask for alt text straight away on a freshly attached image
+          autoFocus={index === images.length - 1 && !image.alt}
+          className={`w-full mt-1 bg-white/10 rounded-md px-1.5 py-0.5 text-[10px] outline-none text-white placeholder:text-white/40 ${image.alt.trim() ? '' : 'ring-1 ring-amber-300/40'}`}
+          placeholder="Describe this image"
+          value={image.alt}
+          onChange={(e) => onAltChange(image.id, e.target.value)}
+        />
+      </li>
+    ))}
+  </ul>
+)
+
+export default ImageAttachments
@@ -1,51 +1,135 @@
-import { useState, useRef, useEffect, useMemo } from 'react'
-import { useInputClassification, InputType } from '../hooks/useInputClassification'
-import { useSpeechInteraction } from '../hooks/useSpeechInteraction'
-
-interface Thought {
-  id: string
-  content: string
-  timestamp: string
-}
+import { Fragment, useState, useRef, useEffect, useMemo } from 'react'
+import { useInputClassification, InputType, MODE_LABELS, REMOTE_CONFIDENCE_THRESHOLD } from '../hooks/useInputClassification'
+import { parseModePrefix } from '../classification/InputClassifier'
+import { Providers } from '../providers/Provider'
+import { CAPTURE_ERROR_LABELS, useSpeechInteraction } from '../hooks/useSpeechInteraction'
+import { useThoughts } from '../hooks/useThoughts'
+import { useThoughtSearch } from '../hooks/useThoughtSearch'
+import { useBlueskySearch } from '../hooks/useBlueskySearch'
+import { AUDIENCE_LABELS, PostDraft, nextAudience, useBlueskyPost } from '../hooks/useBlueskyPost'
+import { usePostImages } from '../hooks/usePostImages'
+import { ThoughtStore } from '../storage/ThoughtStore'
+import { AtprotoClient, AtprotoPublisher, MAX_POST_IMAGES, ReplyAudience, postUrlFromUri } from '../atproto/AtprotoClient'
+import { MAX_POST_GRAPHEMES, graphemeLength } from '../atproto/richtext'
+import BlueskyResults from './BlueskyResults'
+import BlueskySignIn from './BlueskySignIn'
+import EmojiPicker from './EmojiPicker'
+import ImageAttachments from './ImageAttachments'
+import MicLevelMeter from './MicLevelMeter'
+import PostPreview from './PostPreview'
+import RelativeTime from './RelativeTime'
+import { highlight } from '../search/ThoughtIndex'
+import { formatAbsoluteTime, formatDayHeader, groupByDay } from '../utils/time'
 
 interface LogInterfaceProps {
   className?: string
+  // Where thoughts are persisted (defaults to IndexedDB)
+  store?: ThoughtStore
+  // BlueSky access for search (defaults to the public AppView)
+  atproto?: AtprotoClient
+  // BlueSky session and posting (defaults to bsky.social)
+  publisher?: AtprotoPublisher
+  // LLM and speech backends (defaults from the environment, see getDefaultProviders)
+  providers?: Providers
 }
 
-const LogInterface = ({ className = '' }: LogInterfaceProps) => {
-  const [thoughts, setThoughts] = useState<Thought[]>([
-    { id: 'wa7j', content: 'morning form, 3 avocado toasts. half a mate. there is, of course, another way of looking at this.', timestamp: '23m ago' },
-    { id: '82fk', content: 'This is where the UX *is*, where it begins, typing, calmly and present. The past and future faded away.', timestamp: '4h ago' },
-    { id: '9z3p', content: 'Woke up with some / more tingling. Made the mistake of going straight to the phone. Things settled after completing morning form. There is so much wisdom in it, doing the same thing daily.', timestamp: '4h ago' },
-    { id: 'am7h', content: 'das', timestamp: '18:33' },
-    { id: '6ud9', content: 'sa\n\n\n\nASDaa\n\n\n\nADS', timestamp: '18:33' },
-    { id: '3e1', content: 'sad', timestamp: '18:33' },
-    { id: 'xaq', content: 'sd', timestamp: '18:33' },
-    { id: 'utgq', content: 'da', timestamp: '18:33' },
-    { id: '7qype', content: 'asdas', timestamp: '18:33' },
-    { id: '96h8', content: 'adasd', timestamp: '18:33' },
-    { id: 'zlxi', content: 'saying I think the main takeaway here', timestamp: '18:32' },
-    { id: 'zlc', content: 'I\'m so glad this exists', timestamp: '16:48' },
-  ])
+// The classifier's search prefixes ("/", "?", "find", "search") aren't part of the query
+const toSearchQuery = (text: string) => text.replace(/^\s*(\/|\?|find\b|search\b)\s*/i, '').trim()
+
+const LogInterface = ({ className = '', store, atproto, publisher, providers }: LogInterfaceProps) => {
+  const {
+    store: thoughtStore,
+    thoughts,
+    hasMore,
+    isLoading,
+    loadMore,
+    addThought: saveThought,
+    updateThought,
+    deleteThought,
+    canUndoDelete,
+    undoDelete,
+    trash,
+    loadTrash,
+    restoreThought,
+    purgeThought,
+  } = useThoughts(store)
+
+  // Thoughts under day headers; `index` is the position in the whole list (drives the blur cascade)
+  const dayGroups = useMemo(() => {
+    let index = 0
+    return groupByDay(thoughts, thought => thought.createdAt).map(group => ({
+      day: group.day,
+      items: group.items.map(thought => ({ thought, index: index++ })),
+    }))
+  }, [thoughts])
   
   const [newThought, setNewThought] = useState('')
   const [hoveredThoughtId, setHoveredThoughtId] = useState<string | null>(null)
   const [focusedThoughtId, setFocusedThoughtId] = useState<string | null>(null)
+  // Unsaved content of the focused thought, saved as a new revision when it loses focus
+  const [draft, setDraft] = useState<string | null>(null)
+  // Set by Escape so the blur that follows drops the draft instead of saving it
+  const discardEditRef = useRef(false)
+  const [showUndo, setShowUndo] = useState(false)
+  const [isTrashOpen, setIsTrashOpen] = useState(false)
+  const [activeResultIndex, setActiveResultIndex] = useState(0)
+  // Thought to focus once the list is back after picking a search result
+  const [pendingFocusId, setPendingFocusId] = useState<string | null>(null)
   const [isDragging, setIsDragging] = useState(false)
   const [dragStartY, setDragStartY] = useState(0)
   const [journalPosition, setJournalPosition] = useState(400)
   const [isInputFocused, setIsInputFocused] = useState(false)
-  const [typingTimeout, setTypingTimeout] = useState<number | null>(null)
+  // Post awaiting confirmation in the preview
+  const [postDraft, setPostDraft] = useState<PostDraft | null>(null)
+  const [isSignInOpen, setIsSignInOpen] = useState(false)
+  const [isEmojiOpen, setIsEmojiOpen] = useState(false)
+  const [audience, setAudience] = useState<ReplyAudience>('everyone')
   
-  const { inputType, isClassifying, classifyInput } = useInputClassification()
-  const { isRecording, userSpeech, fishResponse, startRecording, stopRecording } = useSpeechInteraction()
+  const {
+    inputType,
+    scores,
+    confidence,
+    isClassifying,
+    error: classificationError,
+    classifyInput,
+    isOverridden,
+    isLocked,
+    cycleMode,
+    toggleLock,
+    commitInput,
+  } = useInputClassification({ classifier: providers?.classifier })
+  // The input without a "/j", "/s" or "/p" mode prefix
+  const inputBody = parseModePrefix(newThought).body
+  const searchQuery = inputType === 'SEARCH' ? toSearchQuery(inputBody) : null
+  const { results: searchResults, isIndexing } = useThoughtSearch(thoughtStore, thoughts, searchQuery)
+  const bluesky = useBlueskySearch(atproto)
+  const posting = useBlueskyPost(publisher)
+  const postImages = usePostImages()
+  const postLength = useMemo(() => graphemeLength(inputBody), [inputBody])
+  // Dictation: what's said becomes the input, without talking to the fish
+  const {
+    isRecording,
+    isHandsFree,
+    error: captureError,
+    userSpeech,
+    inputLevel,
+    startRecording,
+    stopRecording,
+    startHandsFree,
+    stopHandsFree,
+  } = useSpeechInteraction({ transcriber: providers?.transcriber, speech: null, reply: false })
   
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
+  const sentinelRef = useRef<HTMLLIElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const typingTimeoutRef = useRef<number | null>(null)
 
   const handleTextareaChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value
     setNewThought(value)
+    // The preview is of the text as it was; editing dismisses it
+    setPostDraft(null)
     
     // Auto-resize textarea
     if (textareaRef.current) {
@@ -54,31 +138,123 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
     }
     
     // Debounced classification
-    if (typingTimeout) {
-      clearTimeout(typingTimeout)
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current)
     }
-    
-    setTypingTimeout(setTimeout(() => {
+    typingTimeoutRef.current = window.setTimeout(() => {
+      typingTimeoutRef.current = null
       classifyInput(value)
-    }, 500))
+    }, 500)
   }
 
+  // Classifies right away, dropping a pending debounced classification of older text
+  const classifyNow = (text: string) => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current)
+      typingTimeoutRef.current = null
+    }
+    classifyInput(text)
+  }
+
+  useEffect(() => () => {
+    if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
+  }, [])
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Alt+M picks the next mode by hand
+    if (e.altKey && e.code === 'KeyM') {
+      e.preventDefault()
+      cycleMode()
+      return
+    }
+
+    // Arrow keys move through the search results, Enter opens the selected one
+    if (inputType === 'SEARCH' && searchResults.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setActiveResultIndex(prev => (prev + step + searchResults.length) % searchResults.length)
+        return
+      }
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault()
+        openSearchResult(searchResults[Math.min(activeResultIndex, searchResults.length - 1)].thought.id)
+        return
+      }
+    }
+
+    if (e.key === 'Escape' && postDraft) {
+      setPostDraft(null)
+      return
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
-      if (newThought.trim()) {
-        addThought(newThought)
+      if (!inputBody.trim()) return
+      if (inputType === 'POST') {
+        // Posting goes through the preview; Enter again confirms
+        if (postDraft) {
+          confirmPost()
+        } else {
+          openPostPreview()
+        }
+      } else {
+        addThought(inputBody)
       }
     }
   }
 
-  const addThought = (content: string) => {
-    const id = Math.random().toString(36).substring(2, 6)
-    const now = new Date()
-    const timestamp = `${now.getHours()}:${now.getMinutes().toString().padStart(2, '0')}`
-    
-    setThoughts(prev => [{ id, content, timestamp: 'just now' }, ...prev])
+  // Leaves search and focuses the picked thought in the journal
+  const openSearchResult = (id: string) => {
+    commitInput(newThought)
+    setNewThought('')
+    classifyNow('')
+    setPendingFocusId(id)
+    if (textareaRef.current) {
+      textareaRef.current.style.height = '24px'
+    }
+  }
+
+  useEffect(() => {
+    setActiveResultIndex(0)
+  }, [searchQuery])
+
+  // Search BlueSky once typing pauses; leaving search clears the results
+  const { search: searchBluesky } = bluesky
+  useEffect(() => {
+    if (searchQuery === null) {
+      searchBluesky('')
+      return
+    }
+    const timeout = setTimeout(() => searchBluesky(searchQuery), 600)
+    return () => clearTimeout(timeout)
+  }, [searchQuery, searchBluesky])
+
+  // Search covers the whole journal, so the picked thought may be on a page not loaded yet:
+  // keep loading until it's in the list, then focus it
+  useEffect(() => {
+    if (!pendingFocusId || inputType === 'SEARCH') return
+    if (!thoughts.some(thought => thought.id === pendingFocusId)) {
+      if (hasMore) {
+        if (!isLoading) loadMore()
+      } else {
+        setPendingFocusId(null)
+      }
+      return
+    }
+    const textarea = containerRef.current?.querySelector<HTMLTextAreaElement>(`[data-thought-id="${pendingFocusId}"] textarea`)
+    if (textarea) {
+      textarea.focus()
+      textarea.scrollIntoView({ block: 'center', behavior: 'smooth' })
+    }
+    setPendingFocusId(null)
+  }, [pendingFocusId, inputType, thoughts, hasMore, isLoading, loadMore])
+
+  const addThought = (content: string, postUri: string | null = null) => {
+    saveThought(content, postUri)
+    commitInput(newThought)
     setNewThought('')
+    classifyNow('')
 
     // Reset textarea height
     if (textareaRef.current) {
@@ -86,6 +262,62 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
     }
   }
 
+  const openPostPreview = async () => {
+    if (!posting.session) setIsSignInOpen(true)
+    setPostDraft(await posting.prepare(inputBody, { images: postImages.images, audience }))
+  }
+
+  // Sends the previewed post; the thought is saved with the post's URI only once it's on BlueSky
+  const confirmPost = async () => {
+    if (!postDraft || !posting.session || posting.isPosting) return
+    const created = await posting.publish(postDraft)
+    if (created) {
+      addThought(postDraft.text, created.uri)
+      setPostDraft(null)
+      postImages.clearImages()
+    }
+  }
+
+  const handleLogin = async (identifier: string, password: string) => {
+    if (await posting.login(identifier, password)) {
+      setIsSignInOpen(false)
+    }
+  }
+
+  // Leaving POST mode drops the preview and the sign-in form
+  useEffect(() => {
+    if (inputType !== 'POST') {
+      setPostDraft(null)
+      setIsSignInOpen(false)
+      setIsEmojiOpen(false)
+    }
+  }, [inputType])
+
+  // Changing attachments or the audience makes the preview stale
+  useEffect(() => {
+    setPostDraft(null)
+  }, [postImages.images, audience])
+
+  const handleFilesPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    postImages.addImages(Array.from(e.target.files ?? []))
+    // Allow picking the same file again
+    e.target.value = ''
+  }
+
+  // Inserts at the caret (or over the selection) of the input, which keeps its selection while the picker has focus
+  const insertEmoji = (emoji: string) => {
+    const textarea = textareaRef.current
+    const start = textarea?.selectionStart ?? newThought.length
+    const end = textarea?.selectionEnd ?? newThought.length
+    setNewThought(newThought.slice(0, start) + emoji + newThought.slice(end))
+    setPostDraft(null)
+    setIsEmojiOpen(false)
+    requestAnimationFrame(() => {
+      textarea?.focus()
+      textarea?.setSelectionRange(start + emoji.length, start + emoji.length)
+    })
+  }
+
   const handleDragStart = (e: React.MouseEvent) => {
     e.preventDefault()
     setIsDragging(true)
@@ -131,6 +363,19 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
     }
   }, [isDragging, dragStartY])
 
+  // Load the next page of thoughts when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMore()
+      }
+    }, { rootMargin: '200px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore, thoughts.length])
+
   useEffect(() => {
     if (userSpeech) {
       setNewThought(userSpeech)
@@ -150,7 +395,7 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
       case 'POST':
         return 'What\'s on your mind?'
       default:
-        return 'do, reflect, repeat, become'
+        return isHandsFree ? 'Listening, just talk...' : 'do, reflect, repeat, become'
     }
   }
   
@@ -165,19 +410,90 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
     }
   }
   
+  // --- Editing thoughts in place ---
+  const handleThoughtFocus = (id: string, content: string) => {
+    setFocusedThoughtId(id)
+    setDraft(content)
+  }
+
+  const handleThoughtBlur = (id: string, content: string) => {
+    const discard = discardEditRef.current
+    discardEditRef.current = false
+    if (!discard && draft !== null && draft !== content) {
+      updateThought(id, draft)
+    }
+    setFocusedThoughtId(null)
+    setDraft(null)
+  }
+
+  const handleThoughtKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>, id: string) => {
+    if (e.key === 'Backspace' && draft === '') {
+      // Erasing an empty thought moves it to the trash
+      e.preventDefault()
+      setFocusedThoughtId(null)
+      setDraft(null)
+      deleteThought(id)
+      setShowUndo(true)
+    } else if (e.key === 'Escape') {
+      // Discard the edit: blur runs straight away, before a reset draft would reach its closure
+      discardEditRef.current = true
+      e.currentTarget.blur()
+    }
+  }
+
+  // Hide the undo prompt a while after the last deletion
+  useEffect(() => {
+    if (!showUndo) return
+    const timeout = setTimeout(() => setShowUndo(false), 6000)
+    return () => clearTimeout(timeout)
+  }, [showUndo, trash])
+
+  // Post warnings outlive the preview they'd have been shown in; hide them after a while too
+  const { warning: postWarning, dismissWarning: dismissPostWarning } = posting
+  useEffect(() => {
+    if (!postWarning) return
+    const timeout = setTimeout(dismissPostWarning, 6000)
+    return () => clearTimeout(timeout)
+  }, [postWarning, dismissPostWarning])
+
+  // Ctrl/Cmd+Z outside a text field restores the last deleted thought
+  useEffect(() => {
+    if (!canUndoDelete) return
+    const handleUndoKey = (e: KeyboardEvent) => {
+      const isTextField = e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement
+      if ((e.metaKey || e.ctrlKey) && !e.shiftKey && e.key.toLowerCase() === 'z' && !isTextField) {
+        e.preventDefault()
+        undoDelete()
+        setShowUndo(false)
+      }
+    }
+    window.addEventListener('keydown', handleUndoKey)
+    return () => window.removeEventListener('keydown', handleUndoKey)
+  }, [canUndoDelete, undoDelete])
+
+  const toggleTrash = () => {
+    if (!isTrashOpen) loadTrash()
+    setIsTrashOpen(prev => !prev)
+  }
+
   const handleActionClick = () => {
     switch (inputType) {
       case 'SEARCH':
-        console.log('Searching BlueSky for:', newThought)
-        // Implement search functionality
+        searchBluesky(searchQuery ?? '')
         break
       case 'POST':
-        console.log('Posting to BlueSky:', newThought)
-        addThought(newThought)
+        if (!inputBody.trim()) break
+        if (postDraft) {
+          confirmPost()
+        } else {
+          openPostPreview()
+        }
         break
       default:
-        // Start/stop recording with mic
-        if (isRecording) {
+        // Start/stop recording with mic; while hands-free, it turns hands-free off
+        if (isHandsFree) {
+          stopHandsFree()
+        } else if (isRecording) {
           stopRecording()
         } else {
           startRecording()
@@ -212,7 +528,24 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
                   <path d="M12 12C14.21 12 16 10.21 16 8C16 5.79 14.21 4 12 4C9.79 4 8 5.79 8 8C8 10.21 9.79 12 12 12ZM12 14C9.33 14 4 15.34 4 18V20H20V18C20 15.34 14.67 14 12 14Z" fill="currentColor"/>
                 </svg>
               </div>
-              <span className="text-[10px] text-neutral-100/70 font-semibold whitespace-nowrap">@andrepology.bsky.social</span>
+              {posting.session ? (
+                <>
+                  <span className="text-[10px] text-neutral-100/70 font-semibold whitespace-nowrap">@{posting.session.handle}</span>
+                  <button
+                    className="ml-2 text-[10px] text-neutral-100/40 hover:text-neutral-100/80 transition-colors"
+                    onClick={posting.logout}
+                  >
+                    Sign out
+                  </button>
+                </>
+              ) : (
+                <button
+                  className="text-[10px] text-neutral-100/70 font-semibold whitespace-nowrap hover:text-neutral-100 transition-colors"
+                  onClick={() => setIsSignInOpen(true)}
+                >
+                  Sign in to BlueSky
+                </button>
+              )}
             </div>
           )}
           
@@ -264,6 +597,21 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
                   : 'rgba(255, 255, 255, 0.05)'
             }}
           >
+            {/* Current mode; click to keep it regardless of what's typed */}
+            <button
+              className={`mode-chip absolute -top-6 right-1 flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] transition-colors ${isLocked ? 'bg-white/20 text-white' : isOverridden ? 'bg-white/10 text-white/80' : 'bg-white/5 text-white/50 hover:text-white/80'}`}
+              title={`${isLocked ? 'Unlock' : 'Lock'} mode (Alt+M cycles, or start with /j, /s or /p)`}
+              aria-pressed={isLocked}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={toggleLock}
+            >
+              {isLocked && (
+                <svg className="w-2.5 h-2.5" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
+                </svg>
+              )}
+              {MODE_LABELS[inputType]}
+            </button>
             {isClassifying && (
               <div className="absolute left-0 top-0 h-0.5 bg-white/20 animate-pulse rounded-full" style={{
                 width: '100%',
@@ -273,7 +621,7 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
             <textarea 
               ref={textareaRef}
               rows={1} 
-              className="w-full bg-transparent border-none text-white resize-none outline-none py-0.5 pr-8 placeholder:text-neutral-100/80"
+              className={`w-full bg-transparent border-none text-white resize-none outline-none py-0.5 ${inputType === 'ENTRY' ? 'pr-14' : 'pr-8'} placeholder:text-neutral-100/80`}
               placeholder={getPlaceholderText()}
               spellCheck="false"
               value={newThought}
@@ -287,6 +635,20 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
               }}
             />
             
+            {inputType === 'ENTRY' && (
+              <button
+                className={`hands-free-toggle absolute right-10 top-3 transition-colors duration-300 ${isHandsFree ? 'text-red-400/80 hover:text-red-400' : 'text-white/30 hover:text-white/70'}`}
+                tabIndex={-1}
+                aria-label={isHandsFree ? 'Stop hands-free' : 'Hands-free: talk without holding the mic'}
+                aria-pressed={isHandsFree}
+                title={isHandsFree ? 'Stop hands-free' : 'Hands-free: talk without holding the mic'}
+                onClick={() => (isHandsFree ? stopHandsFree() : startHandsFree())}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={1.75} strokeLinecap="round" viewBox="0 0 20 20">
+                  <path d="M3 8v4M6.5 5.5v9M10 3v14M13.5 5.5v9M17 8v4" />
+                </svg>
+              </button>
+            )}
             <button 
               className="action-button absolute right-3 top-2.5 text-white/50 hover:text-white/80 transition-all duration-300"
               tabIndex={-1}
@@ -299,9 +661,10 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
                   ? 'rgba(59, 130, 246, 0.8)' 
                   : inputType === 'POST' 
                     ? 'rgba(16, 185, 129, 0.8)' 
-                    : isRecording ? 'rgba(239, 68, 68, 0.8)' : 'rgba(255, 255, 255, 0.5)'
+                    : isRecording || isHandsFree ? 'rgba(239, 68, 68, 0.8)' : 'rgba(255, 255, 255, 0.5)'
               }}
             >
+              {inputType === 'ENTRY' && (isRecording || isHandsFree) && <MicLevelMeter level={inputLevel} />}
               {inputType === 'SEARCH' && (
                 <svg fill="currentColor" viewBox="0 0 20 20" className="w-5 h-5 transform scale-100 transition-all duration-300">
                   <path fillRule="evenodd" d="M8 4a4 4 0 100 8 4 4 0 000-8zM2 8a6 6 0 1110.89 3.476l4.817 4.817a1 1 0 01-1.414 1.414l-4.816-4.816A6 6 0 012 8z" clipRule="evenodd"></path>
@@ -319,67 +682,237 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
               )}
             </button>
           </div>
+
+          {/* Why the mic didn't work */}
+          {inputType === 'ENTRY' && captureError && (
+            <div className="absolute -bottom-5 left-2 text-[10px] text-red-300/70 animate-fadeIn" role="alert" title={captureError.message}>
+              {CAPTURE_ERROR_LABELS[captureError.kind]}
+            </div>
+          )}
+
+          {/* The classifier's runner-up when it isn't sure of the mode */}
+          {inputBody.trim() && !isOverridden && classificationError && (
+            <div className="absolute -bottom-5 right-2 text-[10px] text-red-300/60 animate-fadeIn" title={classificationError.message}>
+              Guessing the mode offline: {classificationError.message.toLowerCase()}
+            </div>
+          )}
+          {inputBody.trim() && !isOverridden && !classificationError && confidence !== null && confidence < REMOTE_CONFIDENCE_THRESHOLD && (
+            <div
+              className="absolute -bottom-5 right-2 text-[10px] text-white/40 animate-fadeIn"
+              title={(Object.keys(scores) as InputType[]).map(type => `${type} ${Math.round(scores[type] * 100)}%`).join(' · ')}
+            >
+              Not sure: {(Object.keys(scores) as InputType[])
+                .sort((a, b) => scores[b] - scores[a])
+                .slice(0, 2)
+                .map(type => `${type.toLowerCase()} ${Math.round(scores[type] * 100)}%`)
+                .join(' · ')}
+            </div>
+          )}
         </div>
 
         {/* BlueSky post options - moved outside the input bar */}
         {inputType === 'POST' && (
           <div className="flex items-center space-x-2 mb-4 ml-1 animate-fadeIn">
-            <button className="text-green-300/60 hover:text-green-300/90 transition-colors">
-              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={handleFilesPicked}
+            />
+            <button
+              className="text-green-300/60 hover:text-green-300/90 transition-colors disabled:opacity-40"
+              title={`Attach images (up to ${MAX_POST_IMAGES})`}
+              aria-label="Attach images"
+              disabled={postImages.images.length >= MAX_POST_IMAGES || postImages.isProcessing}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <svg className={`w-4 h-4 ${postImages.isProcessing ? 'animate-pulse' : ''}`} fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
               </svg>
             </button>
-            <button className="text-green-300/60 hover:text-green-300/90 transition-colors">
+            <button
+              className="text-green-300/60 hover:text-green-300/90 transition-colors"
+              title="Emoji"
+              aria-label="Emoji"
+              aria-expanded={isEmojiOpen}
+              // Keeps the picker's click-outside handler from closing it just before this toggles it
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => setIsEmojiOpen(prev => !prev)}
+            >
               <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 9a1 1 0 100-2 1 1 0 000 2zm7-1a1 1 0 11-2 0 1 1 0 012 0zm-7.536 5.879a1 1 0 001.415 0 3 3 0 014.242 0 1 1 0 001.415-1.415 5 5 0 00-7.072 0 1 1 0 000 1.415z" clipRule="evenodd" />
               </svg>
             </button>
-            <button className="text-green-300/60 hover:text-green-300/90 transition-colors">
+            <button
+              className={`transition-colors ${audience === 'everyone' ? 'text-green-300/60 hover:text-green-300/90' : 'text-amber-300/70 hover:text-amber-300/90'}`}
+              title="Who can reply"
+              aria-label={`Who can reply: ${AUDIENCE_LABELS[audience]}`}
+              onClick={() => setAudience(nextAudience)}
+            >
               <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
                 <path d="M9 6a3 3 0 11-6 0 3 3 0 016 0zM17 6a3 3 0 11-6 0 3 3 0 016 0zM12.93 17c.046-.327.07-.66.07-1a6.97 6.97 0 00-1.5-4.33A5 5 0 0119 16v1h-6.07zM6 11a5 5 0 015 5v1H1v-1a5 5 0 015-5z" />
               </svg>
             </button>
-            <span className="text-xs text-green-300/60 ml-auto">Public</span>
+            <span className={`text-xs ml-auto ${postLength > MAX_POST_GRAPHEMES ? 'text-red-300/90' : 'text-green-300/60'}`}>
+              {postLength}/{MAX_POST_GRAPHEMES}
+            </span>
+            <button
+              className="text-xs text-green-300/60 hover:text-green-300/90 transition-colors"
+              onClick={() => setAudience(nextAudience)}
+            >
+              {AUDIENCE_LABELS[audience]}
+            </button>
+          </div>
+        )}
+
+        {inputType === 'POST' && isEmojiOpen && (
+          <EmojiPicker onPick={insertEmoji} onClose={() => setIsEmojiOpen(false)} />
+        )}
+
+        {inputType === 'POST' && postImages.images.length > 0 && (
+          <ImageAttachments
+            images={postImages.images}
+            onAltChange={postImages.setAlt}
+            onRemove={postImages.removeImage}
+          />
+        )}
+        {inputType === 'POST' && postImages.error && (
+          <p className="mb-4 ml-1 text-xs text-red-300/80">{postImages.error.message}</p>
+        )}
+
+        {inputType === 'POST' && isSignInOpen && !posting.session && (
+          <BlueskySignIn
+            isLoggingIn={posting.isLoggingIn}
+            error={posting.error}
+            onLogin={handleLogin}
+            onCancel={() => setIsSignInOpen(false)}
+          />
+        )}
+
+        {inputType === 'POST' && postDraft && (
+          <PostPreview
+            draft={postDraft}
+            handle={posting.session?.handle ?? null}
+            isPosting={posting.isPosting}
+            error={posting.session ? posting.error : null}
+            onEdit={() => {
+              setPostDraft(null)
+              textareaRef.current?.focus()
+            }}
+            onConfirm={confirmPost}
+          />
+        )}
+
+        {postWarning && (
+          <p className="mb-4 ml-1 text-xs text-amber-200/80 animate-fadeIn">{postWarning}</p>
+        )}
+
+        {/* Undo the last deletion */}
+        {showUndo && canUndoDelete && (
+          <div className="flex items-center w-fit mb-4 ml-1 gap-3 px-3 py-1.5 rounded-md bg-black/60 border border-white/10 text-xs text-white/80 animate-fadeIn">
+            <span>Moved to trash</span>
+            <button
+              className="text-white hover:text-white/70 transition-colors"
+              onClick={() => {
+                undoDelete()
+                setShowUndo(false)
+              }}
+            >
+              Undo
+            </button>
           </div>
         )}
 
         <hr className="border-white/20 my-4" />
 
         {inputType === 'SEARCH' && (
-          <div className="search-info text-center py-8 animate-fadeIn">
-            <div className="text-blue-300/70 mb-2">
-              <svg className="w-8 h-8 mx-auto mb-2" fill="currentColor" viewBox="0 0 20 20">
+          <div className="search-info py-4 animate-fadeIn">
+            <div className="text-blue-300/70 mb-3 flex items-center gap-2">
+              <svg className={`w-4 h-4 ${bluesky.isSearching ? 'animate-pulse' : ''}`} fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M8 4a4 4 0 100 8 4 4 0 000-8zM2 8a6 6 0 1110.89 3.476l4.817 4.817a1 1 0 01-1.414 1.414l-4.816-4.816A6 6 0 012 8z" clipRule="evenodd"></path>
               </svg>
-              <h3 className="text-lg font-medium">Searching BlueSky</h3>
+              <h3 className="text-sm font-medium">{bluesky.isSearching ? 'Searching BlueSky…' : 'BlueSky'}</h3>
             </div>
-            <p className="text-white/50 text-sm max-w-sm mx-auto">
-            </p>
+            <BlueskyResults actors={bluesky.actors} posts={bluesky.posts} />
+            {bluesky.error && (
+              <p className="text-red-300/70 text-xs mt-2">Couldn't reach BlueSky: {bluesky.error.message}</p>
+            )}
+            {!bluesky.isSearching && !bluesky.error && bluesky.query && bluesky.actors.length === 0 && bluesky.posts.length === 0 && (
+              <p className="text-white/40 text-xs">Nothing on BlueSky matches “{bluesky.query}”</p>
+            )}
           </div>
         )}
 
+        {/* Matching thoughts from the journal, in place of the list while searching */}
+        {inputType === 'SEARCH' && (
+          <ul className="search-results space-y-2 animate-fadeIn">
+            <li className="px-2 text-[10px] uppercase tracking-wider text-white/40">Your thoughts</li>
+            {searchResults.map((result, index) => (
+              <li
+                key={result.thought.id}
+                className={`relative p-2 pr-16 rounded-md cursor-pointer transition-colors duration-200 ${index === activeResultIndex ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                onMouseEnter={() => setActiveResultIndex(index)}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => openSearchResult(result.thought.id)}
+              >
+                <p className="whitespace-pre-wrap break-words text-white/80 line-clamp-4">
+                  {highlight(result.thought.content, result.terms).map((segment, i) => (
+                    segment.match
+                      ? <mark key={i} className="bg-blue-400/30 text-white rounded-sm">{segment.text}</mark>
+                      : <Fragment key={i}>{segment.text}</Fragment>
+                  ))}
+                </p>
+                <span
+                  className="absolute right-2 top-2 text-xs text-white/40"
+                  title={formatAbsoluteTime(result.thought.createdAt)}
+                >
+                  <RelativeTime date={result.thought.createdAt} />
+                </span>
+              </li>
+            ))}
+            {searchQuery && searchResults.length === 0 && (
+              <li className="text-center text-xs text-white/40 py-2">
+                {isIndexing ? 'Indexing journal…' : 'No matching thoughts'}
+              </li>
+            )}
+          </ul>
+        )}
+
         <ul className="thoughts space-y-4" style={{
-          opacity: inputType === 'SEARCH' ? '0' : '1',
-          transition: 'opacity 0.5s ease',
-          pointerEvents: inputType === 'SEARCH' ? 'none' : 'auto'
+          display: inputType === 'SEARCH' ? 'none' : undefined,
         }}>
-          {thoughts.map((thought, index) => (
+          {dayGroups.map(group => (
+            <Fragment key={group.day.getTime()}>
+            <li className="day-header px-2 pt-2 text-[10px] uppercase tracking-wider text-white/40">
+              <RelativeTime date={group.day} format={formatDayHeader} />
+            </li>
+            {group.items.map(({ thought, index }) => {
+            const isFocused = focusedThoughtId === thought.id
+            const content = isFocused && draft !== null ? draft : thought.content
+            return (
             <li 
               key={thought.id} 
+              data-thought-id={thought.id}
               className={`thought relative p-2 rounded-md transition-all duration-300 ${hoveredThoughtId === thought.id ? 'bg-white/10' : ''}`}
               onMouseEnter={() => setHoveredThoughtId(thought.id)}
               onMouseLeave={() => setHoveredThoughtId(null)}
-              onClick={() => setFocusedThoughtId(thought.id === focusedThoughtId ? null : thought.id)}
+              onClick={(e) => e.currentTarget.querySelector('textarea')?.focus()}
             >
               <textarea 
                 rows={1} 
                 className="w-full bg-transparent border-none text-white resize-none outline-none pr-16 transition-all"
                 placeholder="Erase with Backspace ⌫"
                 spellCheck="false"
-                value={thought.content}
-                readOnly
+                value={content}
+                readOnly={!isFocused}
+                onFocus={() => handleThoughtFocus(thought.id, thought.content)}
+                onBlur={() => handleThoughtBlur(thought.id, thought.content)}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => handleThoughtKeyDown(e, thought.id)}
                 style={{ 
-                  filter: focusedThoughtId === thought.id 
+                  filter: isFocused 
                     ? 'blur(0) opacity(1)' 
                     : hoveredThoughtId === thought.id 
                       ? 'blur(0px) opacity(0.6)' 
@@ -387,21 +920,72 @@ const LogInterface = ({ className = '' }: LogInterfaceProps) => {
                         ? `blur(${Math.max(4, index * 4)}px) opacity(${Math.max(0.2, 0.8 - index * 0.05)})`
                         : 'blur(3px) opacity(0.7)',
                   overflowY: 'hidden',
-                  height: `${Math.max(24, Math.min(24 * 9, (thought.content.split('\n').length * 24) || 48))}px`,
+                  height: `${Math.max(24, Math.min(24 * 9, (content.split('\n').length * 24) || 48))}px`,
                   transitionProperty: 'filter, opacity',
                   transitionDuration: '400ms',
                   transitionDelay: isInputFocused ? `${index * 20}ms` : '0ms',
                 }}
               />
               {hoveredThoughtId === thought.id && (
-                <span className="timestamp absolute right-2 top-2 text-xs text-white/50 transition-opacity duration-200">
-                  {thought.timestamp}
+                <span
+                  className="timestamp absolute right-2 top-2 text-xs text-white/50 transition-opacity duration-200"
+                  title={formatAbsoluteTime(thought.createdAt)}
+                >
+                  <RelativeTime date={thought.createdAt} />
                 </span>
               )}
+              {thought.postUri && (
+                <a
+                  href={postUrlFromUri(thought.postUri)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="absolute right-2 bottom-2 text-[10px] text-green-300/60 hover:text-green-300/90 transition-colors"
+                  title="Posted to BlueSky"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  posted
+                </a>
+              )}
             </li>
+            )
+          })}
+            </Fragment>
           ))}
+          {hasMore && (
+            <li ref={sentinelRef} className="h-6 text-center text-xs text-white/30">
+              {isLoading && 'Loading…'}
+            </li>
+          )}
         </ul>
+
+        {/* Trash: deleted thoughts can be restored or deleted for good */}
+        {inputType !== 'SEARCH' && (
+          <div className="trash mt-6 text-xs text-white/50">
+            <button className="hover:text-white/80 transition-colors" onClick={toggleTrash}>
+              {isTrashOpen ? 'Hide trash' : 'Trash'}
+            </button>
+            {isTrashOpen && (
+              <ul className="mt-2 space-y-2 animate-fadeIn">
+                {trash.length === 0 && <li className="text-white/30">Trash is empty</li>}
+                {trash.map(thought => (
+                  <li key={thought.id} className="flex items-start gap-3 p-2 rounded-md bg-white/5">
+                    <span className="flex-1 whitespace-pre-wrap break-words text-white/60 line-clamp-3">
+                      {thought.content || '\u00A0'}
+                    </span>
+                    <button className="hover:text-white/80 transition-colors" onClick={() => restoreThought(thought.id)}>
+                      Restore
+                    </button>
+                    <button className="text-red-300/60 hover:text-red-300/90 transition-colors" onClick={() => purgeThought(thought.id)}>
+                      Delete forever
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </main>
+
     </div>
   )
 }
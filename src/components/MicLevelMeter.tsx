@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react'
+
+interface MicLevelMeterProps {
+  level: () => number  // 0 to 1, read every frame
+}
+
+// A ring behind the mic button that swells with the input level. It's restyled every frame
+// directly rather than re-rendered, so the rest of the journal doesn't re-render with it.
+const MicLevelMeter = ({ level }: MicLevelMeterProps) => {
+  const ringRef = useRef<HTMLSpanElement>(null)
+
+  useEffect(() => {
+    let frame = 0
+    const update = () => {
+      const current = level()
+      if (ringRef.current) {
+        ringRef.current.style.transform = `scale(${1 + current * 0.9})`
+        ringRef.current.style.opacity = String(0.15 + current * 0.85)
+      }
+      frame = requestAnimationFrame(update)
+    }
+    frame = requestAnimationFrame(update)
+    return () => cancelAnimationFrame(frame)
+  }, [level])
+
+  return (
+    <span
+      ref={ringRef}
+      aria-hidden="true"
+      className="mic-level absolute -inset-1 rounded-full border-2 border-red-400/70 bg-red-500/10 pointer-events-none"
+    />
+  )
+}
+
+export default MicLevelMeter
@@ -0,0 +1,78 @@
+import { Fragment } from 'react'
+import { MAX_POST_GRAPHEMES, segmentRichText } from '../atproto/richtext'
+import { AUDIENCE_LABELS, PostDraft, isDraftTooLong } from '../hooks/useBlueskyPost'
+
+interface PostPreviewProps {
+  draft: PostDraft
+  handle: string | null  // null when signed out
+  isPosting: boolean
+  error: Error | null
+  onEdit: () => void
+  onConfirm: () => void
+}
+
+// The post as it will appear on BlueSky, with links and mentions highlighted, before it is sent
+const PostPreview = ({ draft, handle, isPosting, error, onEdit, onConfirm }: PostPreviewProps) => {
+  const unresolved = draft.mentions.filter(mention => !mention.did)
+  const tooLong = isDraftTooLong(draft)
+  const missingAlt = draft.images.filter(image => !image.alt.trim()).length
+
+  return (
+    <div className="post-preview mb-4 ml-1 p-3 rounded-md bg-black/40 border border-green-300/20 text-sm animate-fadeIn">
+      <div className="flex items-center text-[10px] uppercase tracking-wider text-green-300/60 mb-2">
+        <span>Preview{handle && ` · @${handle}`}</span>
+        <span className={`ml-auto normal-case tracking-normal ${tooLong ? 'text-red-300/90' : ''}`}>
+          {draft.graphemes}/{MAX_POST_GRAPHEMES}
+        </span>
+      </div>
+      <p className="whitespace-pre-wrap break-words text-white/90">
+        {segmentRichText(draft.text, draft.facets).map((segment, i) => (
+          segment.feature
+            ? <span key={i} className="text-blue-300">{segment.text}</span>
+            : <Fragment key={i}>{segment.text}</Fragment>
+        ))}
+      </p>
+      {draft.images.length > 0 && (
+        <div className="flex gap-2 mt-2">
+          {draft.images.map(image => (
+            <img key={image.id} src={image.previewUrl} alt={image.alt} className="w-16 h-16 object-cover rounded-md" />
+          ))}
+        </div>
+      )}
+      <p className="mt-2 text-[10px] text-green-300/60">{AUDIENCE_LABELS[draft.audience]}</p>
+      {missingAlt > 0 && (
+        <p className="mt-2 text-xs text-amber-300/80">
+          {missingAlt === 1 ? 'An image has' : `${missingAlt} images have`} no description, so screen reader users will miss {missingAlt === 1 ? 'it' : 'them'}.
+        </p>
+      )}
+      {unresolved.length > 0 && (
+        <p className="mt-2 text-xs text-amber-300/80">
+          Couldn't find {unresolved.map(mention => `@${mention.handle}`).join(', ')}; {unresolved.length === 1 ? 'it' : 'they'} will post as plain text.
+        </p>
+      )}
+      {tooLong && (
+        <p className="mt-2 text-xs text-red-300/80">Too long by {draft.graphemes - MAX_POST_GRAPHEMES} characters.</p>
+      )}
+      {!handle && (
+        <p className="mt-2 text-xs text-white/50">Sign in to BlueSky to post.</p>
+      )}
+      {error && (
+        <p className="mt-2 text-xs text-red-300/80">Couldn't post: {error.message}</p>
+      )}
+      <div className="flex justify-end gap-3 mt-3 text-xs">
+        <button className="text-white/60 hover:text-white/90 transition-colors" onClick={onEdit}>
+          Edit
+        </button>
+        <button
+          className="px-3 py-1 rounded-md bg-green-400/20 text-green-100 hover:bg-green-400/30 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          disabled={tooLong || !handle || isPosting}
+          onClick={onConfirm}
+        >
+          {isPosting ? 'Posting…' : 'Post'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default PostPreview
@@ -0,0 +1,15 @@
+import { useNow } from '../hooks/useNow'
+import { formatRelativeTime } from '../utils/time'
+
+interface RelativeTimeProps {
+  date: Date
+  format?: (date: Date, now: Date) => string  // formatRelativeTime unless given
+}
+
+// A time label like "23m ago" that keeps itself current; only the label re-renders as time passes
+const RelativeTime = ({ date, format = formatRelativeTime }: RelativeTimeProps) => {
+  const now = useNow()
+  return <>{format(date, now)}</>
+}
+
+export default RelativeTime
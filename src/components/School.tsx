@@ -0,0 +1,109 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { OrbitControls } from '@react-three/drei'
+import * as THREE from 'three'
+import { useControls } from 'leva'
+import { EffectComposer, Bloom } from '@react-three/postprocessing'
+import Fish, { FlockContext } from './Fish'
+import FoodMarkers from './FoodMarkers'
+import { FoodSupply } from '../steering/FoodSupply'
+import { SpatialHash } from '../steering/SpatialHash'
+import { Neighbor } from '../steering/behaviors'
+
+interface SchoolProps {
+  count?: number
+  // Radius of the circle the fish are spawned on
+  spawnRadius?: number
+  // Reports the position of the first fish, e.g. for the camera to follow
+  onPositionUpdate?: (position: THREE.Vector3) => void
+}
+
+const School: React.FC<SchoolProps> = ({ count = 5, spawnRadius = 2, onPositionUpdate }) => {
+  // --- Shared between all fish: food supply and neighbor index ---
+  const food = useMemo(() => new FoodSupply(), [])
+  const index = useMemo(() => new SpatialHash<Neighbor>(2), [])
+  const [pellets, setPellets] = useState<THREE.Vector3[]>([])
+  const pointerRef = useRef<THREE.Vector3 | null>(null)
+
+  useEffect(() => food.subscribe(() => {
+    setPellets(food.getPellets().map((pellet) => pellet.position))
+  }), [food])
+
+  const flockControls = useControls('Flocking', {
+    perceptionRadius: { value: 2, min: 0.5, max: 6, step: 0.1 },
+    separationRadius: { value: 0.8, min: 0.1, max: 3, step: 0.1 },
+    separation: { value: 1.5, min: 0, max: 5, step: 0.1 },
+    alignment: { value: 0.8, min: 0, max: 5, step: 0.1 },
+    cohesion: { value: 0.6, min: 0, max: 5, step: 0.1 },
+  }, { collapsed: true })
+
+  const flock = useMemo<FlockContext>(() => ({
+    index,
+    perceptionRadius: flockControls.perceptionRadius,
+    params: {
+      separationRadius: flockControls.separationRadius,
+      separationWeight: flockControls.separation,
+      alignmentWeight: flockControls.alignment,
+      cohesionWeight: flockControls.cohesion,
+    },
+  }), [index, flockControls])
+
+  // Spread the fish evenly on a circle so they don't start on top of each other
+  const spawnPositions = useMemo(() => Array.from({ length: count }, (_, i) => {
+    const angle = (i / count) * Math.PI * 2
+    return new THREE.Vector3(Math.cos(angle) * spawnRadius, 0, Math.sin(angle) * spawnRadius)
+  }), [count, spawnRadius])
+
+  return (
+    <>
+      <OrbitControls />
+
+      <EffectComposer>
+        <Bloom
+          intensity={50.0}
+          luminanceThreshold={0.5}
+          luminanceSmoothing={0.5}
+          mipmapBlur={true}
+          kernelSize={2}
+          resolutionScale={0.5}
+        />
+      </EffectComposer>
+
+      {/* Ground plane for food-click detection (every fish is told, the first to arrive eats) and pointer tracking */}
+      <mesh
+        onPointerDown={(e) => {
+          const pt = e.point.clone()
+          pt.y = 0
+          food.add(pt)
+        }}
+        onPointerMove={(e) => {
+          pointerRef.current = (pointerRef.current ?? new THREE.Vector3()).set(e.point.x, 0, e.point.z)
+        }}
+        onPointerOut={() => {
+          pointerRef.current = null
+        }}
+        position={[0, -1, 0]}
+        rotation={[-Math.PI / 2, 0, 0]}
+        visible={false}
+      >
+        <planeGeometry args={[100, 100]} />
+        <meshBasicMaterial transparent opacity={0} />
+      </mesh>
+
+      {spawnPositions.map((position, idx) => (
+        <Fish
+          key={idx}
+          spawnPosition={position}
+          food={food}
+          flock={flock}
+          pointerRef={pointerRef}
+          standalone={false}
+          onPositionUpdate={idx === 0 ? onPositionUpdate : undefined}
+        />
+      ))}
+
+      <FoodMarkers positions={pellets} />
+    </>
+  )
+}
+
+export default School
@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { Bounds } from '../steering/behaviors'
+
+// Per-tick steering values recorded by a Fish for the debug layer
+export interface SteeringDebugData {
+  position: THREE.Vector3      // rendered head position
+  velocity: THREE.Vector3
+  desired: THREE.Vector3       // desired velocity (zero when the current behavior doesn't have one)
+  steering: THREE.Vector3      // steering force applied this tick
+  wanderTarget: THREE.Vector3
+  visionPoint: THREE.Vector3
+  targets: THREE.Vector3[]     // current food target followed by the queue
+}
+
+export interface SteeringDebugLayers {
+  velocity: boolean
+  desired: boolean
+  steering: boolean
+  wanderCircle: boolean
+  visionPoint: boolean
+  boundaryBuffer: boolean
+  slowingRadius: boolean
+  targetQueue: boolean
+}
+
+interface SteeringDebugProps {
+  data: SteeringDebugData
+  layers: SteeringDebugLayers
+  bounds: Bounds
+  boundaryBuffer: number
+  slowingRadius: number
+  forwardDistance: number
+  wanderRadius: number
+}
+
+// Seconds of travel drawn for velocity-like arrows, and seconds² for the steering force
+const VELOCITY_ARROW_SCALE = 0.5
+const STEERING_ARROW_SCALE = 0.25
+// Most target-queue points drawn
+const MAX_QUEUE_POINTS = 32
+// Drawn just above the ground so the lines don't z-fight with it
+const GROUND_Y = 0.01
+
+const unitCircle = (segments = 48) => {
+  const points: THREE.Vector3[] = []
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * Math.PI * 2
+    points.push(new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle)))
+  }
+  return new THREE.BufferGeometry().setFromPoints(points)
+}
+
+const square = (min: number, max: number) => new THREE.BufferGeometry().setFromPoints([
+  new THREE.Vector3(min, GROUND_Y, min),
+  new THREE.Vector3(max, GROUND_Y, min),
+  new THREE.Vector3(max, GROUND_Y, max),
+  new THREE.Vector3(min, GROUND_Y, max),
+])
+
+const updateArrow = (arrow: THREE.ArrowHelper, origin: THREE.Vector3, vector: THREE.Vector3, scale: number) => {
+  const length = vector.length() * scale
+  arrow.visible = arrow.visible && length > 1e-4
+  if (!arrow.visible) return
+  arrow.position.copy(origin)
+  arrow.setDirection(vector.clone().normalize())
+  arrow.setLength(length, Math.min(0.2, length * 0.3), Math.min(0.1, length * 0.2))
+}
+
+// World-space visualization of a fish's steering: forces, wander circle, vision probe, bounds and targets
+const SteeringDebug: React.FC<SteeringDebugProps> = ({
+  data,
+  layers,
+  bounds,
+  boundaryBuffer,
+  slowingRadius,
+  forwardDistance,
+  wanderRadius,
+}) => {
+  const objects = useMemo(() => {
+    const circleGeometry = unitCircle()
+    return {
+      velocity: new THREE.ArrowHelper(new THREE.Vector3(0, 0, 1), new THREE.Vector3(), 1, 0x00ffff),
+      desired: new THREE.ArrowHelper(new THREE.Vector3(0, 0, 1), new THREE.Vector3(), 1, 0x22c55e),
+      steering: new THREE.ArrowHelper(new THREE.Vector3(0, 0, 1), new THREE.Vector3(), 1, 0xef4444),
+      wanderCircle: new THREE.LineLoop(circleGeometry, new THREE.LineBasicMaterial({ color: 0x4169e1 })),
+      wanderTarget: new THREE.Mesh(new THREE.SphereGeometry(0.04, 8, 8), new THREE.MeshBasicMaterial({ color: 0x4169e1 })),
+      visionPoint: new THREE.Mesh(new THREE.SphereGeometry(0.05, 8, 8), new THREE.MeshBasicMaterial({ color: 0xfacc15 })),
+      slowingRadius: new THREE.LineLoop(circleGeometry, new THREE.LineBasicMaterial({ color: 0xf97316 })),
+      targetQueue: new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints(Array.from({ length: MAX_QUEUE_POINTS + 1 }, () => new THREE.Vector3())),
+        new THREE.LineDashedMaterial({ color: 0xffffff, dashSize: 0.1, gapSize: 0.08 })
+      ),
+    }
+  }, [])
+
+  const boundsBox = useMemo(() => new THREE.Group().add(
+    new THREE.LineLoop(square(bounds.min, bounds.max), new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.3 })),
+    new THREE.LineLoop(
+      square(bounds.min + boundaryBuffer, bounds.max - boundaryBuffer),
+      new THREE.LineDashedMaterial({ color: 0xfacc15, dashSize: 0.3, gapSize: 0.2 })
+    ).computeLineDistances()
+  ), [bounds.min, bounds.max, boundaryBuffer])
+
+  // Dispose GPU resources on unmount
+  useEffect(() => () => {
+    Object.values(objects).forEach((object) => {
+      if (object instanceof THREE.ArrowHelper) {
+        object.dispose()
+      } else {
+        object.geometry.dispose()
+        ;(object.material as THREE.Material).dispose()
+      }
+    })
+  }, [objects])
+
+  useEffect(() => () => {
+    boundsBox.children.forEach((child) => {
+      const line = child as THREE.LineLoop
+      line.geometry.dispose()
+      ;(line.material as THREE.Material).dispose()
+    })
+  }, [boundsBox])
+
+  useFrame(() => {
+    const { position, velocity, desired, steering } = data
+
+    objects.velocity.visible = layers.velocity
+    objects.desired.visible = layers.desired
+    objects.steering.visible = layers.steering
+    updateArrow(objects.velocity, position, velocity, VELOCITY_ARROW_SCALE)
+    updateArrow(objects.desired, position, desired, VELOCITY_ARROW_SCALE)
+    updateArrow(objects.steering, position, steering, STEERING_ARROW_SCALE)
+
+    // Wander circle sits forwardDistance ahead along the heading
+    objects.wanderCircle.visible = layers.wanderCircle
+    objects.wanderTarget.visible = layers.wanderCircle
+    const heading = velocity.lengthSq() > 1e-6 ? velocity.clone().setY(0).normalize() : new THREE.Vector3(0, 0, 1)
+    objects.wanderCircle.position.copy(position).addScaledVector(heading, forwardDistance).setY(GROUND_Y)
+    objects.wanderCircle.scale.setScalar(wanderRadius)
+    objects.wanderTarget.position.copy(data.wanderTarget)
+
+    objects.visionPoint.visible = layers.visionPoint
+    objects.visionPoint.position.copy(data.visionPoint)
+
+    boundsBox.visible = layers.boundaryBuffer
+
+    const target = data.targets[0]
+    objects.slowingRadius.visible = layers.slowingRadius && !!target
+    if (target) {
+      objects.slowingRadius.position.set(target.x, GROUND_Y, target.z)
+      objects.slowingRadius.scale.setScalar(slowingRadius)
+    }
+
+    // Head -> current target -> queued targets
+    const queue = data.targets.slice(0, MAX_QUEUE_POINTS)
+    objects.targetQueue.visible = layers.targetQueue && queue.length > 0
+    if (objects.targetQueue.visible) {
+      const attribute = objects.targetQueue.geometry.getAttribute('position') as THREE.BufferAttribute
+      attribute.setXYZ(0, position.x, GROUND_Y, position.z)
+      queue.forEach((point, i) => attribute.setXYZ(i + 1, point.x, GROUND_Y, point.z))
+      attribute.needsUpdate = true
+      objects.targetQueue.geometry.setDrawRange(0, queue.length + 1)
+      objects.targetQueue.computeLineDistances()
+    }
+  })
+
+  return (
+    <>
+      {Object.values(objects).map((object) => (
+        <primitive key={object.uuid} object={object} />
+      ))}
+      <primitive object={boundsBox} />
+    </>
+  )
+}
+
+export default SteeringDebug
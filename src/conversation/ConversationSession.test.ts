@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { MemoryThoughtStore } from '../storage/MemoryThoughtStore';
+import { ConversationSession, DEFAULT_PERSONA, estimateTokens } from './ConversationSession';
+
+const session = (tokenBudget: number) => new ConversationSession({ tokenBudget, storageKey: null });
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+describe('ConversationSession.buildPrompt', () => {
+  it('keeps every message when they fit in the budget', async () => {
+    const conversation = session(10_000);
+    conversation.addUserMessage('hello');
+    conversation.addAssistantMessage('blub');
+    const prompt = await conversation.buildPrompt();
+    expect(prompt.map((message) => message.role)).toEqual(['system', 'user', 'assistant']);
+  });
+
+  it('drops the oldest turns first', async () => {
+    const system = (await session(10_000).buildPrompt())[0].content;
+    // Numbered turns of the same length, with room for the system message and three of them
+    const turn = (n: number) => `${n}`.padEnd(40, '.');
+    const conversation = session(estimateTokens(system) + estimateTokens(turn(0)) * 3);
+    conversation.addUserMessage(turn(1));
+    conversation.addAssistantMessage(turn(2));
+    conversation.addUserMessage(turn(3));
+    conversation.addAssistantMessage(turn(4));
+    conversation.addUserMessage(turn(5));
+    const prompt = await conversation.buildPrompt();
+    expect(prompt.slice(1).map((message) => message.content[0])).toEqual(['3', '4', '5']);
+  });
+
+  it("doesn't start the history on the fish's reply", async () => {
+    const system = (await session(10_000).buildPrompt())[0].content;
+    const turn = 'y'.repeat(40);
+    // Room for two turns, which would be the fish's reply and the user's latest message
+    const conversation = session(estimateTokens(system) + estimateTokens(turn) * 2);
+    conversation.addUserMessage(turn);
+    conversation.addAssistantMessage(turn);
+    conversation.addUserMessage(turn);
+    const prompt = await conversation.buildPrompt();
+    expect(prompt.slice(1).map((message) => message.role)).toEqual(['user']);
+  });
+
+  it('always includes the latest message, even over budget', async () => {
+    const conversation = session(1);
+    conversation.addUserMessage('z'.repeat(1000));
+    const prompt = await conversation.buildPrompt();
+    expect(prompt).toHaveLength(2);
+  });
+});
+
+describe('ConversationSession storage', () => {
+  it('picks up the history and persona where another instance left off', () => {
+    const first = new ConversationSession({ storageKey: 'test-conversation' });
+    first.setPersona({ name: 'Bubbles' });
+    first.addUserMessage('hello');
+    first.addAssistantMessage('blub');
+
+    const second = new ConversationSession({ storageKey: 'test-conversation' });
+    expect(second.messages).toEqual([{ role: 'user', content: 'hello' }, { role: 'assistant', content: 'blub' }]);
+    expect(second.persona.name).toBe('Bubbles');
+  });
+
+  it('forgets the history on reset but keeps the persona', () => {
+    const first = new ConversationSession({ storageKey: 'test-conversation' });
+    first.setPersona({ tone: 'grumpy' });
+    first.addUserMessage('hello');
+    first.reset();
+
+    const second = new ConversationSession({ storageKey: 'test-conversation' });
+    expect(second.messages).toEqual([]);
+    expect(second.persona.tone).toBe('grumpy');
+  });
+
+  it('keeps nothing when storageKey is null', () => {
+    new ConversationSession({ storageKey: null }).addUserMessage('hello');
+    expect(localStorage.length).toBe(0);
+  });
+});
+
+describe('ConversationSession journal', () => {
+  const journal = () => new MemoryThoughtStore([
+    { id: 'a', content: 'Fed the cat', createdAt: new Date(2024, 0, 1) },
+    { id: 'b', content: 'Went swimming', createdAt: new Date(2024, 0, 2) },
+    { id: 'c', content: 'Read a book', createdAt: new Date(2024, 0, 3) },
+  ]);
+
+  const systemPrompt = async (journalEntries?: number) => {
+    const persona = journalEntries === undefined ? {} : { journalEntries };
+    const conversation = new ConversationSession({ storageKey: null, journal: journal(), persona });
+    conversation.addUserMessage('hi');
+    return (await conversation.buildPrompt())[0].content;
+  };
+
+  it('keeps the journal private by default', async () => {
+    expect(DEFAULT_PERSONA.journalEntries).toBe(0);
+    const prompt = await systemPrompt();
+    expect(prompt).not.toContain('journal entries');
+    expect(prompt).not.toContain('Read a book');
+  });
+
+  it('includes the latest entries, newest first, once the user opts in', async () => {
+    const prompt = await systemPrompt(2);
+    expect(prompt).toContain('Read a book');
+    expect(prompt).toContain('Went swimming');
+    expect(prompt).not.toContain('Fed the cat');
+    expect(prompt.indexOf('Read a book')).toBeLessThan(prompt.indexOf('Went swimming'));
+  });
+});
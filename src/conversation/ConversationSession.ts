@@ -0,0 +1,182 @@
+import { ChatMessage } from '../providers/Provider';
+import { ThoughtStore } from '../storage/ThoughtStore';
+import { formatDayHeader } from '../utils/time';
+
+export interface Persona {
+  name: string;
+  tone: string;            // e.g. "playful and witty"
+  journalEntries: number;  // recent journal entries the fish knows about; 0 keeps the journal private
+}
+
+export const DEFAULT_PERSONA: Persona = {
+  name: 'Fish',
+  tone: 'playful and witty',
+  // Entries would go to whichever LLM the chat uses, so the user has to opt in
+  journalEntries: 0,
+};
+
+export interface ConversationOptions {
+  persona?: Partial<Persona>;
+  tokenBudget?: number;        // for the whole prompt, system message included
+  storageKey?: string | null;  // localStorage key; null keeps the conversation in memory only
+  journal?: ThoughtStore | null;
+}
+
+// Rough count for budgeting: about four characters per token in English
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4) + 4;
+
+const DEFAULT_TOKEN_BUDGET = 2000;
+// Stored history is capped too, well above what fits in a prompt
+const MAX_STORED_MESSAGES = 200;
+const MAX_JOURNAL_ENTRY_LENGTH = 280;
+
+interface StoredConversation {
+  persona: Persona;
+  history: ChatMessage[];
+}
+
+/**
+ * The ongoing conversation with the fish: who the fish is (its persona) and what has been said.
+ * Prompts include as much recent history as fits in the token budget, oldest turns dropped first,
+ * along with the user's latest journal entries if the persona allows. Persona and history are
+ * kept in localStorage, so the fish remembers across reloads until `reset`.
+ */
+export class ConversationSession {
+  private _persona: Persona;
+  private history: ChatMessage[];
+  private tokenBudget: number;
+  private storageKey: string | null;
+  private journal: ThoughtStore | null;
+  private listeners: Set<() => void>;
+  private _version: number;
+
+  constructor({ persona, tokenBudget = DEFAULT_TOKEN_BUDGET, storageKey = 'fish-conversation', journal = null }: ConversationOptions = {}) {
+    this.tokenBudget = tokenBudget;
+    this.storageKey = storageKey;
+    this.journal = journal;
+    this.listeners = new Set();
+    this._version = 0;
+
+    const stored = this.load();
+    this._persona = { ...DEFAULT_PERSONA, ...stored?.persona, ...persona };
+    this.history = stored?.history ?? [];
+  }
+
+  public get persona(): Persona {
+    return this._persona;
+  }
+
+  public get messages(): readonly ChatMessage[] {
+    return this.history;
+  }
+
+  // Bumped on every change, for useSyncExternalStore
+  public get version(): number {
+    return this._version;
+  }
+
+  public setPersona(persona: Partial<Persona>): void {
+    this._persona = { ...this._persona, ...persona };
+    this.changed();
+  }
+
+  public addUserMessage(content: string): void {
+    this.append({ role: 'user', content });
+  }
+
+  public addAssistantMessage(content: string): void {
+    this.append({ role: 'assistant', content });
+  }
+
+  // Forgets everything said; the persona stays
+  public reset(): void {
+    this.history = [];
+    this.changed();
+  }
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /**
+   * The messages to send for the fish's next reply: the persona's system message, then the most
+   * recent history that fits in the budget. The latest message is always included.
+   */
+  public async buildPrompt(): Promise<ChatMessage[]> {
+    const system: ChatMessage = { role: 'system', content: await this.systemPrompt() };
+    let remaining = this.tokenBudget - estimateTokens(system.content);
+    const kept: ChatMessage[] = [];
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      const message = this.history[i];
+      remaining -= estimateTokens(message.content);
+      if (remaining < 0 && kept.length > 0) break;
+      kept.unshift(message);
+    }
+    // A reply to nothing reads oddly, so start on the user's turn
+    while (kept.length > 1 && kept[0].role === 'assistant') kept.shift();
+    return [system, ...kept];
+  }
+
+  private async systemPrompt(): Promise<string> {
+    const { name, tone, journalEntries } = this._persona;
+    const lines = [
+      `You are ${name}, a fish who lives in the user's journal and talks with them by voice.`,
+      `Your tone is ${tone}. Keep replies short: a sentence or two, easy to read at a glance.`,
+    ];
+    const entries = await this.recentJournal(journalEntries);
+    if (entries.length > 0) {
+      lines.push(
+        "The user's most recent journal entries, newest first. They are private; refer to them gently and only when it helps:",
+        ...entries
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private async recentJournal(count: number): Promise<string[]> {
+    if (!this.journal || count <= 0) return [];
+    try {
+      const { items } = await this.journal.list({ limit: count });
+      const now = new Date();
+      return items
+        .filter((thought) => thought.content.trim())
+        .map((thought) => `- ${formatDayHeader(thought.createdAt, now)}: ${thought.content.trim().slice(0, MAX_JOURNAL_ENTRY_LENGTH)}`);
+    } catch (error) {
+      // The fish can talk without the journal
+      console.error('Error reading journal for the conversation:', error);
+      return [];
+    }
+  }
+
+  private append(message: ChatMessage): void {
+    this.history = [...this.history, message].slice(-MAX_STORED_MESSAGES);
+    this.changed();
+  }
+
+  private changed(): void {
+    this._version++;
+    this.save();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private load(): StoredConversation | null {
+    if (!this.storageKey) return null;
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      return saved ? JSON.parse(saved) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private save(): void {
+    if (!this.storageKey) return;
+    const stored: StoredConversation = { persona: this._persona, history: this.history };
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving the conversation:', error);
+    }
+  }
+}
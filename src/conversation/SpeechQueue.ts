@@ -0,0 +1,92 @@
+import { Speech, SpeechProvider } from '../providers/Provider';
+
+// A sentence ends at . ! ? or … (maybe followed by closing quotes or brackets) and then whitespace
+const SENTENCE_END = /[.!?…]+["')\]]*\s+/g;
+
+/**
+ * Says a streamed reply out loud a sentence at a time, so the fish starts speaking while the rest
+ * of the reply is still being written. Sentences are spoken in order, one after another.
+ */
+export class SpeechQueue {
+  private provider: SpeechProvider;
+  private buffered: string;
+  private sentences: string[];
+  private current: Speech | null;
+  private controller: AbortController;
+  private finishing: boolean;
+  private idle: Promise<void>;
+  private wake: (() => void) | null;
+
+  constructor(provider: SpeechProvider) {
+    this.provider = provider;
+    this.buffered = '';
+    this.sentences = [];
+    this.current = null;
+    this.controller = new AbortController();
+    this.finishing = false;
+    this.wake = null;
+    this.idle = this.run();
+  }
+
+  // How loud the fish is right now, 0 to 1
+  public level(): number {
+    return this.current?.level() ?? 0;
+  }
+
+  // Adds the next piece of the reply; every sentence it completes is queued to be said
+  public push(text: string): void {
+    this.buffered += text;
+    let end = 0;
+    for (const match of this.buffered.matchAll(SENTENCE_END)) {
+      this.enqueue(this.buffered.slice(end, match.index! + match[0].length));
+      end = match.index! + match[0].length;
+    }
+    this.buffered = this.buffered.slice(end);
+  }
+
+  // The reply is complete: says what's left and resolves once everything has been said
+  public finish(): Promise<void> {
+    this.enqueue(this.buffered);
+    this.buffered = '';
+    this.finishing = true;
+    this.wake?.();
+    return this.idle;
+  }
+
+  // Stops mid-sentence and drops the rest
+  public stop(): void {
+    this.sentences = [];
+    this.finishing = true;
+    this.controller.abort();
+    this.wake?.();
+  }
+
+  private enqueue(sentence: string): void {
+    if (!sentence.trim() || this.controller.signal.aborted) return;
+    this.sentences.push(sentence.trim());
+    this.wake?.();
+  }
+
+  private async run(): Promise<void> {
+    const { signal } = this.controller;
+    while (!signal.aborted) {
+      const sentence = this.sentences.shift();
+      if (sentence === undefined) {
+        if (this.finishing) return;
+        await new Promise<void>((resolve) => { this.wake = resolve; });
+        this.wake = null;
+        continue;
+      }
+      this.current = this.provider.speak(sentence, { signal });
+      try {
+        await this.current.finished;
+      } catch (error) {
+        if (signal.aborted) return;
+        // One sentence failing shouldn't silence the rest
+        console.error('Error speaking:', error);
+      } finally {
+        this.current = null;
+      }
+    }
+  }
+}
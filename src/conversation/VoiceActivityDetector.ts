@@ -0,0 +1,144 @@
+export interface VoiceActivityOptions {
+  threshold?: number;      // input level (0 to 1) that counts as speech in a quiet room
+  minSpeechMs?: number;    // shorter segments aren't speech, just clicks and bumps
+  silenceMs?: number;      // this much quiet ends a segment
+  maxSegmentMs?: number;   // a segment is cut off after this long even if the talking goes on
+  idleTimeoutMs?: number;  // no speech for this long ends hands-free listening; 0 listens forever
+}
+
+export interface VoiceActivityEvents {
+  onSpeechStart?: () => void;
+  // `isSpeech` is false when it was too short to be anything but noise
+  onSpeechEnd?: (isSpeech: boolean) => void;
+  onIdle?: () => void;
+}
+
+export const DEFAULT_VOICE_ACTIVITY: Required<VoiceActivityOptions> = {
+  threshold: 0.12,
+  minSpeechMs: 150,
+  silenceMs: 900,
+  maxSegmentMs: 30_000,
+  idleTimeoutMs: 60_000,
+};
+
+// Measured this often; short enough to catch the start of a word
+const FRAME_MS = 30;
+// Same scale as the fish's own voice level: normal talking lands near the top of 0 to 1
+const LEVEL_GAIN = 4;
+// Speech has to stand this far above the room's noise floor, however loud the room is
+const NOISE_MARGIN = 2.5;
+// How fast the noise floor follows the room: quickly down, slowly up so speech doesn't raise it
+const NOISE_FALL = 0.2;
+const NOISE_RISE = 0.01;
+// Deaf for this long after the fish stops talking, while its voice dies out of the room
+const ECHO_TAIL_MS = 400;
+
+/**
+ * Energy-based voice activity detection on a microphone stream: a segment starts as soon as the
+ * input is loud enough, so recording it doesn't clip the first word, and ends after `silenceMs` of
+ * quiet; segments with less than `minSpeechMs` of sound are reported as noise. "Loud enough" is the
+ * larger of `threshold` and a margin over the room's noise floor, which is tracked while nobody
+ * is talking. While suppressed (the fish is talking) nothing is detected, so the fish's own
+ * voice coming back through the microphone isn't taken for the user's.
+ */
+export class VoiceActivityDetector {
+  private options: Required<VoiceActivityOptions>;
+  private events: VoiceActivityEvents;
+  private context: AudioContext;
+  private source: MediaStreamAudioSourceNode;
+  private analyser: AnalyserNode;
+  private samples: Float32Array;
+  private interval: number;
+  private _level: number;
+  private noiseFloor: number;
+  private speaking: boolean;
+  private segmentStart: number;
+  private lastLoud: number;
+  private lastActivity: number;
+  private suppressed: boolean;
+  private deafUntil: number;
+
+  constructor(stream: MediaStream, options: VoiceActivityOptions = {}, events: VoiceActivityEvents = {}) {
+    this.options = { ...DEFAULT_VOICE_ACTIVITY, ...options };
+    this.events = events;
+    this.context = new AudioContext();
+    this.source = this.context.createMediaStreamSource(stream);
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    // Not connected to the speakers: the user shouldn't hear themselves
+    this.source.connect(this.analyser);
+
+    this._level = 0;
+    this.noiseFloor = 0;
+    this.speaking = false;
+    this.segmentStart = 0;
+    this.lastLoud = 0;
+    this.lastActivity = performance.now();
+    this.suppressed = false;
+    this.deafUntil = 0;
+    this.interval = window.setInterval(() => this.tick(performance.now()), FRAME_MS);
+  }
+
+  // The microphone's current input level, 0 to 1
+  public level(): number {
+    return this._level;
+  }
+
+  public configure(options: VoiceActivityOptions): void {
+    this.options = { ...DEFAULT_VOICE_ACTIVITY, ...options };
+  }
+
+  // Stops detecting while the fish talks; the idle timeout starts over when it's done
+  public setSuppressed(suppressed: boolean): void {
+    if (suppressed === this.suppressed) return;
+    this.suppressed = suppressed;
+    const now = performance.now();
+    if (!suppressed) {
+      this.deafUntil = now + ECHO_TAIL_MS;
+      this.lastActivity = now;
+    }
+  }
+
+  public stop(): void {
+    clearInterval(this.interval);
+    this.source.disconnect();
+    this.context.close().catch(() => {});
+    this._level = 0;
+  }
+
+  private tick(now: number): void {
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let sum = 0;
+    for (let i = 0; i < this.samples.length; i++) sum += this.samples[i] * this.samples[i];
+    this._level = Math.min(1, Math.sqrt(sum / this.samples.length) * LEVEL_GAIN);
+
+    const { threshold, minSpeechMs, silenceMs, maxSegmentMs, idleTimeoutMs } = this.options;
+    const deaf = this.suppressed || now < this.deafUntil;
+    const loud = this._level > Math.max(threshold, this.noiseFloor * NOISE_MARGIN);
+
+    if (!this.speaking) {
+      if (loud && !deaf) {
+        this.speaking = true;
+        this.segmentStart = now;
+        this.lastLoud = now;
+        this.events.onSpeechStart?.();
+      } else if (!deaf) {
+        const rate = this._level < this.noiseFloor ? NOISE_FALL : NOISE_RISE;
+        this.noiseFloor += (this._level - this.noiseFloor) * rate;
+        if (idleTimeoutMs > 0 && now - this.lastActivity >= idleTimeoutMs) {
+          this.lastActivity = now;
+          this.events.onIdle?.();
+        }
+      }
+      return;
+    }
+
+    if (loud) this.lastLoud = now;
+    if (now - this.lastLoud >= silenceMs || now - this.segmentStart >= maxSegmentMs) {
+      this.speaking = false;
+      this.lastActivity = now;
+      this.events.onSpeechEnd?.(this.lastLoud - this.segmentStart >= minSpeechMs);
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { useCallback, useRef, useState } from 'react'
+import { AtprotoPublisher, AtprotoSession, CreatedRecord, PostRecord, ReplyAudience, threadgateRules } from '../atproto/AtprotoClient'
+import { XrpcPublisher } from '../atproto/XrpcPublisher'
+import { Facet, MAX_POST_GRAPHEMES, buildFacets, detectLinks, detectMentions, graphemeLength } from '../atproto/richtext'
+import { PostImage } from './usePostImages'
+
+const SESSION_KEY = 'atproto-session'
+
+const loadSession = (): AtprotoSession | null => {
+  try {
+    const saved = localStorage.getItem(SESSION_KEY)
+    return saved ? JSON.parse(saved) : null
+  } catch {
+    return null
+  }
+}
+
+const saveSession = (session: AtprotoSession | null) => {
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+  } else {
+    localStorage.removeItem(SESSION_KEY)
+  }
+}
+
+let defaultPublisher: AtprotoPublisher | null = null
+
+// The mock server is only loaded when asked for, so it stays out of the main bundle
+const lazyMockFetch = (): typeof fetch => {
+  const loading = import('../atproto/mockXrpcServer').then(({ createMockXrpcFetch }) => createMockXrpcFetch())
+  return async (input, init) => (await loading)(input, init)
+}
+
+// With VITE_ATPROTO_FAKE=true, posts go to an in-memory mock server (sign in as you.test / mock-app-password)
+export const getDefaultPublisher = (): AtprotoPublisher => {
+  if (!defaultPublisher) {
+    defaultPublisher = import.meta.env.VITE_ATPROTO_FAKE === 'true'
+      ? new XrpcPublisher({ service: 'https://mock.pds.invalid', fetch: lazyMockFetch(), onSessionChange: saveSession })
+      : new XrpcPublisher({ onSessionChange: saveSession })
+    const saved = loadSession()
+    if (saved) defaultPublisher.resumeSession(saved)
+  }
+  return defaultPublisher
+}
+
+export interface PostDraft {
+  text: string
+  graphemes: number
+  facets: Facet[]
+  links: string[]
+  mentions: { handle: string; did: string | null }[]  // did is null when the handle didn't resolve
+  images: PostImage[]
+  audience: ReplyAudience
+}
+
+export interface PostAttachments {
+  images?: PostImage[]
+  audience?: ReplyAudience
+}
+
+export const isDraftTooLong = (draft: PostDraft) => draft.graphemes > MAX_POST_GRAPHEMES
+
+export const AUDIENCE_LABELS: Record<ReplyAudience, string> = {
+  everyone: 'Everyone can reply',
+  followers: 'Followers can reply',
+  mentioned: 'Mentioned can reply',
+}
+
+const AUDIENCES: ReplyAudience[] = ['everyone', 'followers', 'mentioned']
+export const nextAudience = (audience: ReplyAudience) => AUDIENCES[(AUDIENCES.indexOf(audience) + 1) % AUDIENCES.length]
+
+/**
+ * Signing in to BlueSky and posting. `prepare` turns text into a draft (facets, resolved mentions,
+ * length) for the user to preview; `publish` sends a draft.
+ */
+export function useBlueskyPost(publisher: AtprotoPublisher = getDefaultPublisher()) {
+  const [session, setSession] = useState<AtprotoSession | null>(publisher.session)
+  const [isLoggingIn, setIsLoggingIn] = useState(false)
+  const [isPreparing, setIsPreparing] = useState(false)
+  const [isPosting, setIsPosting] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  // Something that went wrong after the post was out, so there's no preview left to show it in
+  const [warning, setWarning] = useState<string | null>(null)
+  // Resolved handles are kept for the session; handles rarely move
+  const didCacheRef = useRef(new Map<string, string | null>())
+
+  const login = useCallback(async (identifier: string, password: string) => {
+    setIsLoggingIn(true)
+    setError(null)
+    try {
+      setSession(await publisher.login(identifier, password))
+      return true
+    } catch (err) {
+      console.error('Error signing in to BlueSky:', err)
+      setError(err as Error)
+      return false
+    } finally {
+      setIsLoggingIn(false)
+    }
+  }, [publisher])
+
+  const logout = useCallback(() => {
+    publisher.logout()
+    setSession(null)
+  }, [publisher])
+
+  const resolveMention = useCallback(async (handle: string) => {
+    const cache = didCacheRef.current
+    if (!cache.has(handle)) {
+      try {
+        cache.set(handle, await publisher.resolveHandle(handle))
+      } catch {
+        cache.set(handle, null)
+      }
+    }
+    return cache.get(handle) ?? null
+  }, [publisher])
+
+  const prepare = useCallback(async (text: string, { images = [], audience = 'everyone' }: PostAttachments = {}): Promise<PostDraft> => {
+    setIsPreparing(true)
+    setError(null)
+    try {
+      const handles = [...new Set(detectMentions(text).map(m => m.handle))]
+      const mentions = await Promise.all(handles.map(async handle => ({ handle, did: await resolveMention(handle) })))
+      const dids = new Map(mentions.filter(m => m.did).map(m => [m.handle, m.did!]))
+      return {
+        text,
+        graphemes: graphemeLength(text),
+        facets: buildFacets(text, dids),
+        links: detectLinks(text).map(link => link.uri),
+        mentions,
+        images,
+        audience,
+      }
+    } finally {
+      setIsPreparing(false)
+    }
+  }, [resolveMention])
+
+  const publish = useCallback(async (draft: PostDraft): Promise<CreatedRecord | null> => {
+    if (isDraftTooLong(draft)) {
+      setError(new Error(`Posts can be at most ${MAX_POST_GRAPHEMES} characters`))
+      return null
+    }
+    setIsPosting(true)
+    setError(null)
+    setWarning(null)
+    try {
+      // Images are uploaded one at a time, in order, before the post that embeds them
+      const embedded = []
+      for (const image of draft.images) {
+        embedded.push({
+          image: await publisher.uploadBlob(image.blob),
+          alt: image.alt.trim(),
+          aspectRatio: { width: image.width, height: image.height },
+        })
+      }
+      const record: PostRecord = {
+        $type: 'app.bsky.feed.post',
+        text: draft.text,
+        createdAt: new Date().toISOString(),
+        ...(draft.facets.length > 0 && { facets: draft.facets }),
+        ...(embedded.length > 0 && { embed: { $type: 'app.bsky.embed.images', images: embedded } }),
+      }
+      const created = await publisher.createPost(record)
+      const rules = threadgateRules(draft.audience)
+      if (rules) {
+        try {
+          await publisher.createThreadgate(created.uri, rules)
+        } catch (err) {
+          // The post is out already; report it rather than offering to post it twice
+          console.error('Error limiting replies:', err)
+          setWarning('Posted, but replies could not be limited')
+        }
+      }
+      return created
+    } catch (err) {
+      console.error('Error posting to BlueSky:', err)
+      setError(err as Error)
+      // The session may have been dropped by a failed refresh
+      setSession(publisher.session)
+      return null
+    } finally {
+      setIsPosting(false)
+    }
+  }, [publisher])
+
+  const dismissWarning = useCallback(() => setWarning(null), [])
+
+  return {
+    session,
+    login,
+    logout,
+    isLoggingIn,
+    prepare,
+    isPreparing,
+    publish,
+    isPosting,
+    error,
+    warning,
+    dismissWarning,
+  }
+}
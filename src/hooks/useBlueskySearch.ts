@@ -0,0 +1,82 @@
+import { useCallback, useRef, useState } from 'react'
+import { ActorView, AtprotoClient, PostView } from '../atproto/AtprotoClient'
+import { XrpcAtprotoClient } from '../atproto/XrpcAtprotoClient'
+
+let defaultClient: AtprotoClient | null = null
+
+// The fake client and its fixtures are only loaded when asked for, so they stay out of the main bundle
+const lazyFakeClient = (): AtprotoClient => {
+  const loading = import('../atproto/FakeAtprotoClient').then(({ FakeAtprotoClient }) => new FakeAtprotoClient())
+  return {
+    searchActors: async (query, options) => (await loading).searchActors(query, options),
+    searchPosts: async (query, options) => (await loading).searchPosts(query, options),
+  }
+}
+
+// Set VITE_ATPROTO_FAKE=true to search fixtures instead of the network
+export const getDefaultAtprotoClient = (): AtprotoClient => {
+  if (!defaultClient) {
+    defaultClient = import.meta.env.VITE_ATPROTO_FAKE === 'true' ? lazyFakeClient() : new XrpcAtprotoClient()
+  }
+  return defaultClient
+}
+
+const RESULT_LIMIT = 8
+
+/**
+ * Actor and post search on BlueSky. Only the latest `search` call updates the results, so
+ * responses arriving out of order can't overwrite newer ones.
+ */
+export function useBlueskySearch(client: AtprotoClient = getDefaultAtprotoClient()) {
+  const [query, setQuery] = useState('')
+  const [actors, setActors] = useState<ActorView[]>([])
+  const [posts, setPosts] = useState<PostView[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  const sequenceRef = useRef(0)
+
+  const search = useCallback(async (text: string) => {
+    const q = text.trim()
+    const sequence = ++sequenceRef.current
+    setQuery(q)
+    if (!q) {
+      setActors([])
+      setPosts([])
+      setIsSearching(false)
+      setError(null)
+      return
+    }
+
+    setIsSearching(true)
+    setError(null)
+    // Either search may fail on its own (e.g. post search needing auth); show whatever came back
+    const [actorResult, postResult] = await Promise.allSettled([
+      client.searchActors(q, { limit: RESULT_LIMIT }),
+      client.searchPosts(q, { limit: RESULT_LIMIT }),
+    ])
+    if (sequence !== sequenceRef.current) return
+
+    setActors(actorResult.status === 'fulfilled' ? actorResult.value.items : [])
+    setPosts(postResult.status === 'fulfilled' ? postResult.value.items : [])
+    const failure = [actorResult, postResult].find((r): r is PromiseRejectedResult => r.status === 'rejected')
+    if (failure) {
+      console.error('Error searching BlueSky:', failure.reason)
+      setError(failure.reason as Error)
+    }
+    setIsSearching(false)
+  }, [client])
+
+  const clear = useCallback(() => {
+    search('')
+  }, [search])
+
+  return {
+    query,
+    actors,
+    posts,
+    isSearching,
+    error,
+    search,
+    clear,
+  }
+}
@@ -0,0 +1,31 @@
+import { useCallback, useSyncExternalStore } from 'react'
+import { ConversationSession, Persona } from '../conversation/ConversationSession'
+import { getDefaultStore } from './useThoughts'
+
+let defaultConversation: ConversationSession | null = null
+
+// One conversation for the whole app, so the fish and the journal share what was said
+export const getDefaultConversation = (): ConversationSession => {
+  if (!defaultConversation) {
+    defaultConversation = new ConversationSession({ journal: getDefaultStore() })
+  }
+  return defaultConversation
+}
+
+/**
+ * The conversation's persona and history, re-rendering when either changes.
+ */
+export function useConversation(session: ConversationSession = getDefaultConversation()) {
+  useSyncExternalStore(session.subscribe, () => session.version)
+
+  const setPersona = useCallback((persona: Partial<Persona>) => session.setPersona(persona), [session])
+  const reset = useCallback(() => session.reset(), [session])
+
+  return {
+    session,
+    persona: session.persona,
+    messages: session.messages,
+    setPersona,
+    reset,
+  }
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react'
+
+export interface DebugCommand {
+  key: string    // KeyboardEvent.key; letters match case-insensitively
+  label: string  // what the command does, shown in the debug overlay
+  run: () => void
+}
+
+// Keys typed into the journal or any other field must not trigger commands
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+/**
+ * Binds debug commands to single keys while `enabled`. Commands are read on every key press,
+ * so they can close over fresh state without re-registering the listener.
+ */
+export function useDebugCommands(commands: DebugCommand[], enabled = true) {
+  const commandsRef = useRef(commands)
+
+  useEffect(() => {
+    commandsRef.current = commands
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || isTypingTarget(event.target)) return
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key
+      const command = commandsRef.current.find((c) => c.key === key)
+      if (!command) return
+      event.preventDefault()
+      command.run()
+    }
+
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [enabled])
+}
@@ -0,0 +1,149 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyLocally } from '../classification/InputClassifier';
+import { readOverrideLog } from '../classification/overrideLog';
+import { ProviderError } from '../providers/Provider';
+import { ScriptedProvider } from '../providers/ScriptedProvider';
+import { useInputClassification } from './useInputClassification';
+
+// Every text goes to the LLM
+const ALWAYS_ASK = 1.01;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+const render = (classifier: ScriptedProvider) =>
+  renderHook(() => useInputClassification({ threshold: ALWAYS_ASK, classifier }));
+
+type Hook = ReturnType<typeof render>['result'];
+
+// Classifies `text` and lets the scripted answer arrive
+const classify = (result: Hook, text: string) => act(async () => {
+  const done = result.current.classifyInput(text);
+  await vi.advanceTimersByTimeAsync(0);
+  await done;
+});
+
+describe('useInputClassification', () => {
+  it("applies only the latest call's answer", async () => {
+    const classifier = new ScriptedProvider({
+      classify: [(text) => (text === 'first' ? 'POST' : 'SEARCH')],
+      latency: 100,
+    });
+    const { result } = render(classifier);
+
+    await act(async () => {
+      result.current.classifyInput('first');
+      await vi.advanceTimersByTimeAsync(50);
+      result.current.classifyInput('second');
+      await vi.advanceTimersByTimeAsync(200);
+    });
+
+    expect(classifier.calls).toEqual([{ kind: 'classify', text: 'first' }, { kind: 'classify', text: 'second' }]);
+    expect(result.current.inputType).toBe('SEARCH');
+    expect(result.current.source).toBe('remote');
+    expect(result.current.error).toBeNull();
+  });
+
+  it('stays local after a 429 until the Retry-After has passed', async () => {
+    const classifier = new ScriptedProvider({
+      classify: [new ProviderError(429, 'Too many requests', 5000), 'POST'],
+      latency: 0,
+    });
+    const { result } = render(classifier);
+
+    await classify(result, 'one');
+    expect(result.current.error).toBeInstanceOf(ProviderError);
+    expect(result.current.source).toBe('local');
+
+    await classify(result, 'two');
+    expect(classifier.calls).toHaveLength(1);
+
+    await act(() => vi.advanceTimersByTimeAsync(5000));
+    await classify(result, 'three');
+    expect(classifier.calls).toHaveLength(2);
+    expect(result.current.inputType).toBe('POST');
+    expect(result.current.error).toBeNull();
+  });
+
+  it("doesn't ask the LLM about text with a mode prefix", async () => {
+    const classifier = new ScriptedProvider({ classify: ['ENTRY'], latency: 0 });
+    const { result } = render(classifier);
+    await classify(result, '/s alice');
+    expect(classifier.calls).toEqual([]);
+    expect(result.current.inputType).toBe('SEARCH');
+  });
+});
+
+describe('useInputClassification overrides', () => {
+  beforeEach(() => {
+    vi.setSystemTime(new Date('2024-05-01T12:00:00Z'));
+    localStorage.clear();
+  });
+
+  const scripted = () => new ScriptedProvider({ classify: ['ENTRY'], latency: 0 });
+
+  it('logs text sent with a mode prefix, without the prefix', async () => {
+    const { result } = render(scripted());
+    await classify(result, '/p I love my cat');
+    act(() => result.current.commitInput('/p I love my cat'));
+
+    const predicted = classifyLocally('I love my cat');
+    expect(readOverrideLog()).toEqual([{
+      at: '2024-05-01T12:00:00.000Z',
+      text: 'I love my cat',
+      predicted: predicted.type,
+      confidence: predicted.confidence,
+      chosen: 'POST',
+      via: 'prefix',
+    }]);
+  });
+
+  it('logs a mode picked with the shortcut until the input is cleared', async () => {
+    const { result } = render(scripted());
+    await classify(result, 'hello');
+    act(() => result.current.cycleMode());
+    expect(result.current.inputType).toBe('SEARCH');
+    act(() => result.current.commitInput('hello'));
+
+    await classify(result, '');
+    await classify(result, 'hello again');
+    act(() => result.current.commitInput('hello again'));
+
+    expect(readOverrideLog()).toEqual([expect.objectContaining({ text: 'hello', chosen: 'SEARCH', via: 'shortcut' })]);
+  });
+
+  it('keeps logging a locked mode across inputs', async () => {
+    const { result } = render(scripted());
+    await classify(result, '/s alice');
+    act(() => result.current.toggleLock());
+    act(() => result.current.commitInput('/s alice'));
+    await classify(result, '');
+    await classify(result, 'bob');
+    act(() => result.current.commitInput('bob'));
+
+    expect(readOverrideLog().map(({ text, chosen, via }) => ({ text, chosen, via }))).toEqual([
+      { text: 'alice', chosen: 'SEARCH', via: 'prefix' },
+      { text: 'bob', chosen: 'SEARCH', via: 'lock' },
+    ]);
+  });
+
+  it("doesn't log the classifier's own choices or empty inputs", async () => {
+    const { result } = render(scripted());
+    await classify(result, 'hello');
+    act(() => result.current.commitInput('hello'));
+    await classify(result, '/s ');
+    act(() => result.current.commitInput('/s '));
+
+    expect(readOverrideLog()).toEqual([]);
+  });
+});
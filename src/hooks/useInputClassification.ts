@@ -1,94 +1,209 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { Classification, INPUT_TYPES, InputType, classifyLocally, parseModePrefix } from '../classification/InputClassifier';
+import { ClassificationProvider, ProviderError } from '../providers/Provider';
+import { getDefaultProviders } from '../providers/defaultProviders';
+import { OverrideSource, logOverride } from '../classification/overrideLog';
 
-export type InputType = 'ENTRY' | 'SEARCH' | 'POST';
+export type { InputType } from '../classification/InputClassifier';
 
-export function useInputClassification() {
-  const [inputType, setInputType] = useState<InputType>('ENTRY');
+// Below this local confidence the LLM gets the final say
+export const REMOTE_CONFIDENCE_THRESHOLD = 0.6;
+
+export type ClassificationSource = 'local' | 'remote';
+
+// Remote answers kept per normalized text
+const CACHE_SIZE = 200;
+// Backoff after a 429 without Retry-After, doubling on each one in a row
+const BACKOFF_INITIAL_MS = 2000;
+const BACKOFF_MAX_MS = 60000;
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const LABELS: Record<InputType, string> = {
+  ENTRY: 'private journal entry',
+  SEARCH: 'keyword search for a person',
+  POST: 'public post to the internet',
+};
+
+export const MODE_LABELS: Record<InputType, string> = {
+  ENTRY: 'journal',
+  SEARCH: 'search',
+  POST: 'post',
+};
+
+// The confidence below which to ask the LLM, and which LLM to ask
+export interface InputClassificationOptions {
+  threshold?: number;
+  // The LLM to ask when unsure; null to stay local
+  classifier?: ClassificationProvider | null;
+}
+
+/**
+ * Classifies input locally (see InputClassifier), asking the LLM only when the local classifier
+ * is unsure. `scores` are the local probabilities, so the UI can show how certain a guess is.
+ *
+ * The user can overrule the classifier: a "/j", "/s" or "/p" prefix sets the mode for that text,
+ * `cycleMode` picks the next mode until the input is cleared, and `toggleLock` keeps the current
+ * mode across inputs. Inputs submitted in a picked mode are logged (see overrideLog) through
+ * `commitInput`.
+ *
+ * Only the latest call's result is applied: a new call aborts the request before it, so a slow
+ * answer for old text can't overwrite a newer one. After a 429 the hook sticks to local guesses
+ * until the backoff has passed.
+ */
+export function useInputClassification({
+  threshold = REMOTE_CONFIDENCE_THRESHOLD,
+  classifier = getDefaultProviders().classifier,
+}: InputClassificationOptions = {}) {
+  const [classifiedType, setClassifiedType] = useState<InputType>('ENTRY');
+  const [classification, setClassification] = useState<Classification>(() => classifyLocally(''));
+  const [source, setSource] = useState<ClassificationSource>('local');
   const [isClassifying, setIsClassifying] = useState(false);
+  const [prefixType, setPrefixType] = useState<InputType | null>(null);
+  const [manualType, setManualType] = useState<InputType | null>(null);
+  const [manualVia, setManualVia] = useState<OverrideSource>('shortcut');
+  const [isLocked, setIsLocked] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const sequenceRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const cacheRef = useRef(new Map<string, InputType>());
+  const backoffRef = useRef({ until: 0, delay: BACKOFF_INITIAL_MS });
+  // Mirrors of manualType and isLocked for classifyInput, which runs debounced after the render
+  // that scheduled it and must see a mode picked or locked in the meantime
+  const manualTypeRef = useRef<InputType | null>(null);
+  const isLockedRef = useRef(false);
+
+  const pickManualType = (type: InputType | null) => {
+    manualTypeRef.current = type;
+    setManualType(type);
+  };
+
+  const setLocked = (locked: boolean) => {
+    isLockedRef.current = locked;
+    setIsLocked(locked);
+  };
+
+  // Don't leave a request running after unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const inputType = prefixType ?? manualType ?? classifiedType;
 
   const classifyInput = async (text: string): Promise<void> => {
-    // Don't classify empty text
-    if (!text) {
-      console.log('Classification: Empty text → ENTRY');
-      setInputType('ENTRY');
+    const sequence = ++sequenceRef.current;
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsClassifying(false);
+
+    const { type: prefix, body } = parseModePrefix(text);
+    setPrefixType(prefix);
+    if (!text.trim() && !isLockedRef.current) {
+      // A picked mode lasts until the input is cleared, unless it's locked
+      pickManualType(null);
+    }
+
+    const local = classifyLocally(body);
+    setClassification(local);
+    setSource('local');
+    setClassifiedType(local.type);
+    // No need to ask the LLM when the user has picked the mode
+    if (local.confidence >= threshold || prefix || manualTypeRef.current) {
+      console.log(`Classification: ${local.type} (${local.confidence.toFixed(2)}, local)`);
       return;
     }
 
-    setIsClassifying(true);
-    console.log('Starting classification for:', text);
+    const key = normalize(body);
+    const cached = cacheRef.current.get(key);
+    if (cached) {
+      setClassifiedType(cached);
+      setSource('remote');
+      return;
+    }
+    if (!classifier || Date.now() < backoffRef.current.until) {
+      return;
+    }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsClassifying(true);
     try {
-      const GROQ_API_KEY = import.meta.env.VITE_GROQ_API_KEY;
-      
-      // Basic classification logic without API call for common patterns
-      if (text.startsWith('/') || text.startsWith('?') || text.toLowerCase().startsWith('find') || text.toLowerCase().startsWith('search')) {
-        console.log('Classification: Pattern match → SEARCH');
-        setInputType('SEARCH');
-        setIsClassifying(false);
-        return;
+      const remote = await classifier.classify(body, LABELS, { signal: controller.signal });
+      if (sequence !== sequenceRef.current) return;
+      backoffRef.current.delay = BACKOFF_INITIAL_MS;
+      setError(null);
+      if (remote) {
+        console.log(`Classification: ${remote} (remote; local guess ${local.type} at ${local.confidence.toFixed(2)})`);
+        const cache = cacheRef.current;
+        cache.set(key, remote);
+        // Maps iterate in insertion order, so the first key is the oldest
+        if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+        setClassifiedType(remote);
+        setSource('remote');
       }
-
-      if (text.toLowerCase().includes('post') || text.toLowerCase().includes('share') || text.toLowerCase().includes('publish')) {
-        console.log('Classification: Pattern match → POST');
-        setInputType('POST');
+    } catch (err) {
+      if (controller.signal.aborted || sequence !== sequenceRef.current) return;
+      // The local guess stands
+      console.error('Error classifying input:', err);
+      if (err instanceof ProviderError && err.status === 429) {
+        const backoff = backoffRef.current;
+        const delay = err.retryAfterMs ?? backoff.delay;
+        backoff.until = Date.now() + delay;
+        backoff.delay = Math.min(BACKOFF_MAX_MS, backoff.delay * 2);
+      }
+      setError(err as Error);
+    } finally {
+      if (sequence === sequenceRef.current) {
+        abortRef.current = null;
         setIsClassifying(false);
-        return;
       }
+    }
+  };
 
-      // Use the Groq API for more accurate classification, regardless of text length
-      console.log('Sending to Groq API for classification');
-      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${GROQ_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'llama-3.3-70b-versatile',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a text classifier. Classify the user input as one of: ENTRY (private journal entry), SEARCH (keyword search for a person), or POST (public post to the internet). Respond with ONLY the classification word.'
-            },
-            {
-              role: 'user',
-              content: text
-            }
-          ],
-          max_tokens: 10
-        })
-      });
-
-      const data = await response.json();
-      const classification = data.choices?.[0]?.message?.content?.trim().toUpperCase() || 'ENTRY';
-      console.log('API classification result:', classification);
-      
-      let finalType: InputType = 'ENTRY'; // Store the classification in a local variable
-      
-      if (['ENTRY', 'SEARCH', 'POST'].includes(classification)) {
-        finalType = classification as InputType;
-      } else {
-        // Default to ENTRY if classification is unclear
-        console.log('Invalid classification, defaulting to ENTRY');
-      }
-      
-      setInputType(finalType);
-      
-      // Log the final determined type, not the state variable
-      console.log('Classification complete. Type:', finalType);
-    } catch (error) {
-      console.error('Error classifying input:', error);
-      // Fall back to ENTRY on error
-      setInputType('ENTRY');
-      console.log('Classification complete. Type: ENTRY (after error)');
-    } finally {
-      setIsClassifying(false);
+  const cycleMode = () => {
+    pickManualType(INPUT_TYPES[(INPUT_TYPES.indexOf(inputType) + 1) % INPUT_TYPES.length]);
+    setManualVia(isLocked ? 'lock' : 'shortcut');
+    setPrefixType(null);
+  };
+
+  const toggleLock = () => {
+    if (isLocked) {
+      setLocked(false);
+      pickManualType(null);
+    } else {
+      setLocked(true);
+      pickManualType(inputType);
+      setManualVia('lock');
     }
   };
 
+  // Call when the input is submitted; logs it if the mode was picked by the user
+  const commitInput = (text: string) => {
+    const via: OverrideSource | null = prefixType ? 'prefix' : manualType ? manualVia : null;
+    const { body } = parseModePrefix(text);
+    if (!via || !body.trim()) return;
+    const predicted = classifyLocally(body);
+    logOverride({
+      at: new Date().toISOString(),
+      text: body.trim(),
+      predicted: predicted.type,
+      confidence: predicted.confidence,
+      chosen: inputType,
+      via,
+    });
+  };
+
   return {
     inputType,
+    scores: classification.scores,
+    confidence: source === 'local' ? classification.confidence : null,  // null when the LLM decided
+    source,
     isClassifying,
-    classifyInput
+    error,
+    classifyInput,
+    // Whether the mode is the user's choice rather than the classifier's
+    isOverridden: prefixType !== null || manualType !== null,
+    isLocked,
+    cycleMode,
+    toggleLock,
+    commitInput
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * The current time, refreshed every `interval` milliseconds. Every tick re-renders the calling
+ * component, so call it from small components like RelativeTime rather than from whole lists.
+ */
+export function useNow(interval = 30 * 1000) {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(new Date()), interval)
+    return () => window.clearInterval(id)
+  }, [interval])
+
+  return now
+}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { MAX_IMAGE_BYTES, MAX_POST_IMAGES } from '../atproto/AtprotoClient'
+import { resizeImage } from '../utils/image'
+
+export interface PostImage {
+  id: string
+  blob: Blob
+  width: number
+  height: number
+  previewUrl: string  // object URL for the thumbnail
+  alt: string
+}
+
+const createId = () => `img_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+
+/**
+ * Images attached to the post being written: resized to fit BlueSky's limits as they're added,
+ * with alt text and thumbnails. Thumbnail object URLs are released when images are removed.
+ */
+export function usePostImages() {
+  const [images, setImages] = useState<PostImage[]>([])
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  const imagesRef = useRef(images)
+  imagesRef.current = images
+
+  const addImages = useCallback(async (files: File[]) => {
+    const room = MAX_POST_IMAGES - imagesRef.current.length
+    const accepted = files.filter(file => file.type.startsWith('image/')).slice(0, Math.max(0, room))
+    setError(accepted.length < files.length ? new Error(`Up to ${MAX_POST_IMAGES} images can be attached`) : null)
+    if (accepted.length === 0) return
+
+    setIsProcessing(true)
+    try {
+      const added = await Promise.all(accepted.map(async (file) => {
+        const { blob, width, height } = await resizeImage(file, { maxBytes: MAX_IMAGE_BYTES })
+        return { id: createId(), blob, width, height, previewUrl: URL.createObjectURL(blob), alt: '' }
+      }))
+      setImages(prev => {
+        // Images added elsewhere meanwhile may have used up the room
+        const next = [...prev, ...added]
+        next.slice(MAX_POST_IMAGES).forEach(image => URL.revokeObjectURL(image.previewUrl))
+        return next.slice(0, MAX_POST_IMAGES)
+      })
+    } catch (err) {
+      console.error('Error attaching image:', err)
+      setError(err as Error)
+    } finally {
+      setIsProcessing(false)
+    }
+  }, [])
+
+  const setAlt = useCallback((id: string, alt: string) => {
+    setImages(prev => prev.map(image => image.id === id ? { ...image, alt } : image))
+  }, [])
+
+  const removeImage = useCallback((id: string) => {
+    setImages(prev => {
+      const image = prev.find(image => image.id === id)
+      if (image) URL.revokeObjectURL(image.previewUrl)
+      return prev.filter(image => image.id !== id)
+    })
+  }, [])
+
+  const clearImages = useCallback(() => {
+    imagesRef.current.forEach(image => URL.revokeObjectURL(image.previewUrl))
+    setImages([])
+    setError(null)
+  }, [])
+
+  // Release the thumbnails on unmount
+  useEffect(() => () => {
+    imagesRef.current.forEach(image => URL.revokeObjectURL(image.previewUrl))
+  }, [])
+
+  return {
+    images,
+    isProcessing,
+    error,
+    addImages,
+    setAlt,
+    removeImage,
+    clearImages,
+  }
+}
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConversationSession } from '../conversation/ConversationSession';
+import { ScriptedProvider } from '../providers/ScriptedProvider';
+import { useSpeechInteraction } from './useSpeechInteraction';
+
+// A microphone that opens when the test says so
+function stubMicrophone() {
+  const track = { stop: vi.fn() };
+  let open: () => void = () => {};
+  const getUserMedia = vi.fn(() => new Promise<MediaStream>((resolve) => {
+    open = () => resolve({ getTracks: () => [track] } as unknown as MediaStream);
+  }));
+  vi.stubGlobal('navigator', { mediaDevices: { getUserMedia } });
+  return { track, open: () => act(async () => open()) };
+}
+
+const render = () => {
+  const provider = new ScriptedProvider({ latency: 0 });
+  return renderHook(() => useSpeechInteraction({
+    chat: provider,
+    transcriber: provider,
+    speech: null,
+    conversation: new ConversationSession({ storageKey: null }),
+  }));
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('useSpeechInteraction microphone', () => {
+  it('releases a microphone that opens after unmount', async () => {
+    const microphone = stubMicrophone();
+    const { result, unmount } = render();
+
+    act(() => {
+      result.current.startHandsFree();
+    });
+    unmount();
+    await microphone.open();
+
+    expect(microphone.track.stop).toHaveBeenCalled();
+  });
+
+  it('releases a microphone that opens after hands-free was switched off', async () => {
+    const microphone = stubMicrophone();
+    const { result } = render();
+
+    act(() => {
+      result.current.startHandsFree();
+    });
+    act(() => result.current.stopHandsFree());
+    await microphone.open();
+
+    expect(microphone.track.stop).toHaveBeenCalled();
+    expect(result.current.isHandsFree).toBe(false);
+  });
+
+  it('releases a microphone that opens after push to talk was let go', async () => {
+    const microphone = stubMicrophone();
+    const { result } = render();
+
+    act(() => {
+      result.current.startRecording();
+    });
+    await act(() => result.current.stopRecording());
+    await microphone.open();
+
+    expect(microphone.track.stop).toHaveBeenCalled();
+    expect(result.current.isRecording).toBe(false);
+  });
+
+  it('reports a browser that cannot record', async () => {
+    vi.stubGlobal('navigator', {});
+    const { result } = render();
+    await act(() => result.current.startRecording());
+    expect(result.current.error?.kind).toBe('capture-failed');
+  });
+});
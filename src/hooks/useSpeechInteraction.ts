@@ -1,128 +1,313 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
+import { ChatProvider, SpeechProvider, TranscriptionProvider } from "../providers/Provider";
+import { getDefaultProviders } from "../providers/defaultProviders";
+import { ConversationSession } from "../conversation/ConversationSession";
+import { SpeechQueue } from "../conversation/SpeechQueue";
+import {
+  DEFAULT_VOICE_ACTIVITY,
+  VoiceActivityDetector,
+  VoiceActivityOptions,
+} from "../conversation/VoiceActivityDetector";
+import { CaptureError, CaptureErrorKind, microphoneError, pickRecordingType } from "../utils/audio";
+import { getDefaultConversation } from "./useConversation";
 
-export function useSpeechInteraction() {
+export interface SpeechInteractionOptions {
+  chat?: ChatProvider;
+  transcriber?: TranscriptionProvider;
+  speech?: SpeechProvider | null;  // null keeps replies silent
+  // False only transcribes (e.g. dictation): the text lands in `userSpeech` and the fish isn't asked
+  reply?: boolean;
+  conversation?: ConversationSession;
+  voiceActivity?: VoiceActivityOptions;  // hands-free thresholds and timeouts
+}
+
+// What to tell the user for each way capture can fail
+export const CAPTURE_ERROR_LABELS: Record<CaptureErrorKind, string> = {
+  "permission-denied": "Microphone blocked: allow it in the browser's site settings",
+  "no-device": "No microphone available",
+  "capture-failed": "Couldn't record from the microphone",
+  "upload-failed": "Couldn't send the recording, try again",
+};
+
+export function useSpeechInteraction({
+  chat = getDefaultProviders().chat,
+  transcriber = getDefaultProviders().transcriber,
+  speech = getDefaultProviders().speech,
+  reply = true,
+  conversation = getDefaultConversation(),
+  voiceActivity = DEFAULT_VOICE_ACTIVITY,
+}: SpeechInteractionOptions = {}) {
   const [isRecording, setIsRecording] = useState(false);
   const [userSpeech, setUserSpeech] = useState("");
   const [fishResponse, setFishResponse] = useState("");
+  // True from the first piece of the fish's reply until it has all streamed in and been said
+  const [isResponding, setIsResponding] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const responseRef = useRef<AbortController | null>(null);
+  const speechQueueRef = useRef<SpeechQueue | null>(null);
+  const [isHandsFree, setIsHandsFree] = useState(false);
+  // Read by the detector's callbacks, which outlive the render that made them
+  const handsFreeRef = useRef(false);
+  // The open microphone, push-to-talk or hands-free; its tracks are stopped as soon as it's done
+  const streamRef = useRef<MediaStream | null>(null);
+  // Bumped whenever the microphone is closed, so an open still waiting on the browser knows it's no longer wanted
+  const micRequestRef = useRef(0);
+  const [error, setError] = useState<CaptureError | null>(null);
+  // Measures the open microphone, and detects speech in it when hands-free
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
 
-  const startRecording = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      // Create a MediaRecorder for the provided audio stream.
-      const mediaRecorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
-
-      // When data is available, save it for later.
-      mediaRecorder.addEventListener("dataavailable", (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-        }
-      });
+  // How loud the fish is speaking right now, 0 to 1; read it every frame rather than as state.
+  const speechLevel = useCallback(() => speechQueueRef.current?.level() ?? 0, []);
 
-      mediaRecorder.start();
-      setIsRecording(true);
-    } catch (error) {
-      console.error("Error accessing microphone:", error);
+  // Stops the reply, written and spoken, mid-sentence; what was already said stays in the conversation.
+  const cancelResponse = useCallback(() => {
+    responseRef.current?.abort();
+  }, []);
+
+  // How loud the microphone is right now, 0 to 1 (0 when it's closed); for a level meter.
+  const inputLevel = useCallback(() => detectorRef.current?.level() ?? 0, []);
+
+  useEffect(() => cancelResponse, [cancelResponse]);
+
+  useEffect(() => {
+    detectorRef.current?.configure(voiceActivity);
+  }, [voiceActivity]);
+
+  // The fish's own voice comes back in through the microphone; don't take it for the user.
+  useEffect(() => {
+    detectorRef.current?.setSuppressed(isResponding && speech !== null);
+  }, [isResponding, speech, isHandsFree]);
+
+  // Opens the microphone, closing whatever was open before. Null when the microphone was closed
+  // (released, switched off or unmounted) while the browser was still opening it.
+  const openMicrophone = async (audio: MediaTrackConstraints | true): Promise<MediaStream | null> => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new CaptureError("capture-failed", "This browser can't record audio here");
     }
+    const request = ++micRequestRef.current;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio });
+    } catch (e) {
+      throw microphoneError(e);
+    }
+    if (request !== micRequestRef.current) {
+      stream.getTracks().forEach((track) => track.stop());
+      return null;
+    }
+    closeMicrophone();
+    streamRef.current = stream;
+    return stream;
   };
 
-  const stopRecording = async () => {
-    if (!mediaRecorderRef.current) return;
+  // Releases the microphone, so the browser's recording indicator goes off.
+  const closeMicrophone = () => {
+    micRequestRef.current++;
+    detectorRef.current?.stop();
+    detectorRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
+
+  const failCapture = (e: unknown) => {
+    const captureError = e instanceof CaptureError ? e : microphoneError(e);
+    console.error("Error accessing microphone:", captureError.cause ?? captureError);
+    setError(captureError);
+  };
+
+  useEffect(() => () => {
+    // Unmounting mid-recording drops the recording.
+    const mediaRecorder = mediaRecorderRef.current;
+    mediaRecorderRef.current = null;
+    if (mediaRecorder?.state === "recording") mediaRecorder.stop();
+    handsFreeRef.current = false;
+    closeMicrophone();
+  }, []);
+
+  // Records one segment from the open microphone, in a format this browser can record.
+  const beginSegment = (stream: MediaStream) => {
+    const type = pickRecordingType();
+    const mediaRecorder = new MediaRecorder(stream, type ? { mimeType: type } : undefined);
+    mediaRecorderRef.current = mediaRecorder;
+    audioChunksRef.current = [];
+
+    // When data is available, save it for later.
+    mediaRecorder.addEventListener("dataavailable", (event) => {
+      if (event.data.size > 0) {
+        audioChunksRef.current.push(event.data);
+      }
+    });
+
+    mediaRecorder.start();
+    setIsRecording(true);
+  };
+
+  // Ends the segment being recorded; unless it's dropped, it's transcribed and the fish answers.
+  const endSegment = (send: boolean) => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder) return;
+    mediaRecorderRef.current = null;
     // Attach a one‑time "stop" event listener.
-    mediaRecorderRef.current.addEventListener(
+    mediaRecorder.addEventListener(
       "stop",
       async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: "audio/wav" });
-        // Send the audio blob to the Groq whisper API for transcription.
+        if (!send || audioChunksRef.current.length === 0) return;
+        // Labelled with what was actually recorded (webm, ogg or mp4), which transcription relies on
+        const audioBlob = new Blob(audioChunksRef.current, {
+          type: mediaRecorder.mimeType || audioChunksRef.current[0].type || "audio/webm",
+        });
+        // Transcribe the recording.
         const transcription = await fetchTranscription(audioBlob);
         if (transcription) {
           setUserSpeech(transcription);
-          // Now use the transcribed text to get the fish's response via OpenAI.
-          const response = await fetchFishResponse(transcription);
-          if (response) {
-            setFishResponse(response);
-          }
+          // Now use the transcribed text to get the fish's response.
+          if (reply) await fetchFishResponse(transcription);
         }
       },
       { once: true }
     );
-    mediaRecorderRef.current.stop();
+    if (mediaRecorder.state !== "inactive") mediaRecorder.stop();
     setIsRecording(false);
   };
 
-  // Send the recorded audio to Groq's whisper transcription API.
-  const fetchTranscription = async (audioBlob: Blob): Promise<string | null> => {
-    const GROQ_API_KEY = import.meta.env.VITE_GROQ_API_KEY;
-    const url = "https://api.groq.com/openai/v1/audio/transcriptions";
+  // Push to talk. While hands-free, pressing only cuts the fish off.
+  const startRecording = async () => {
+    // Talking over the fish stops it.
+    cancelResponse();
+    if (handsFreeRef.current) return;
+    try {
+      const stream = await openMicrophone(true);
+      // Released before the microphone opened
+      if (!stream) return;
+      // Only for the input level meter here; segments are pressed, not detected.
+      detectorRef.current = new VoiceActivityDetector(stream);
+      beginSegment(stream);
+      setError(null);
+    } catch (e) {
+      closeMicrophone();
+      failCapture(e);
+    }
+  };
 
-    const formData = new FormData();
-    formData.append("file", audioBlob, "recording.wav");
-    formData.append("model", "whisper-large-v3-turbo");
+  const stopRecording = async () => {
+    if (handsFreeRef.current) return;
+    endSegment(true);
+    closeMicrophone();
+  };
 
+  // Hands-free: the microphone stays open and each stretch of speech is sent as it ends.
+  const startHandsFree = async () => {
+    if (handsFreeRef.current) return;
+    cancelResponse();
+    endSegment(false);
+    // Set before the microphone opens, so switching off while it's opening cancels it
+    handsFreeRef.current = true;
     try {
-      const res = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${GROQ_API_KEY}`,
-          // Note: Do not set the Content-Type header when sending FormData.
-        },
-        body: formData,
+      const stream = await openMicrophone({ echoCancellation: true, noiseSuppression: true, autoGainControl: true });
+      if (!stream) return;
+      detectorRef.current = new VoiceActivityDetector(stream, voiceActivity, {
+        onSpeechStart: () => beginSegment(stream),
+        onSpeechEnd: (isSpeech) => endSegment(isSpeech),
+        onIdle: () => stopHandsFree(),
       });
-      const data = await res.json();
-      console.log("Transcription response:", data);
-      return data.text; // Expecting { text: "transcribed text" }
+      setIsHandsFree(true);
+      setError(null);
+    } catch (e) {
+      handsFreeRef.current = false;
+      closeMicrophone();
+      failCapture(e);
+    }
+  };
+
+  const stopHandsFree = () => {
+    if (!handsFreeRef.current) return;
+    handsFreeRef.current = false;
+    // Whatever was being said when hands-free was switched off is dropped.
+    endSegment(false);
+    closeMicrophone();
+    setIsHandsFree(false);
+  };
+
+  const fetchTranscription = async (audioBlob: Blob): Promise<string | null> => {
+    try {
+      const text = await transcriber.transcribe(audioBlob);
+      console.log("Transcription:", text);
+      setError(null);
+      return text;
     } catch (e) {
       console.error("Error transcribing audio:", e);
+      setError(new CaptureError("upload-failed", `Couldn't send the recording: ${(e as Error).message}`, e));
       return null;
     }
   };
 
-  // Use OpenAI's API (here via chat-completion) to have the fish talk back.
+  // Have the fish talk back, remembering the conversation so far. The reply shows up in
+  // `fishResponse` piece by piece as it streams; a newer reply cuts off an older one.
   const fetchFishResponse = async (userSpeech: string): Promise<string | null> => {
-    const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
-    const url = "https://api.openai.com/v1/chat/completions";
-
-    const payload = {
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a playful and witty fish that responds to the user's speech in a humorous manner. Keep the reply short and in a friendly tone.",
-        },
-        {
-          role: "user",
-          content: userSpeech,
-        },
-      ],
+    responseRef.current?.abort();
+    const controller = new AbortController();
+    responseRef.current = controller;
+    const speechQueue = speech ? new SpeechQueue(speech) : null;
+    speechQueueRef.current = speechQueue;
+    conversation.addUserMessage(userSpeech);
+    let reply = "";
+    // Recorded once streaming ends or is cut off, so a newer turn never lands before it
+    let recorded = false;
+    const recordReply = () => {
+      if (recorded) return;
+      recorded = true;
+      if (reply.trim()) conversation.addAssistantMessage(reply.trim());
     };
-
+    controller.signal.addEventListener("abort", () => {
+      speechQueue?.stop();
+      recordReply();
+    }, { once: true });
     try {
-      const res = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify(payload),
-      });
-      const data = await res.json();
-      console.log("Fish response data:", data);
-      return data.choices?.[0]?.message?.content || null;
+      const stream = chat.chatStream(await conversation.buildPrompt(), { signal: controller.signal });
+      for await (const piece of stream) {
+        if (controller.signal.aborted) break;
+        reply += piece;
+        speechQueue?.push(piece);
+        setFishResponse(reply.trimStart());
+        setIsResponding(true);
+      }
+      console.log("Fish response:", reply);
+      recordReply();
+      // Still responding until the fish has finished saying it
+      await speechQueue?.finish();
     } catch (e) {
-      console.error("Error fetching fish response:", e);
-      return null;
+      if (!controller.signal.aborted) {
+        console.error("Error fetching fish response:", e);
+      }
+    } finally {
+      speechQueue?.stop();
+      if (responseRef.current === controller) {
+        responseRef.current = null;
+        setIsResponding(false);
+      }
+      if (speechQueueRef.current === speechQueue) {
+        speechQueueRef.current = null;
+      }
     }
+    recordReply();
+    return reply.trim() || null;
   };
 
   return {
     isRecording,
+    isHandsFree,
+    error,
     userSpeech,
     fishResponse,
+    isResponding,
+    isSpeechEnabled: speech !== null,
+    speechLevel,
+    inputLevel,
     startRecording,
     stopRecording,
+    startHandsFree,
+    stopHandsFree,
+    cancelResponse,
   };
 } 
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Thought, ThoughtCursor, ThoughtStore } from '../storage/ThoughtStore'
+import { SearchResult, ThoughtIndex } from '../search/ThoughtIndex'
+
+// Larger pages while indexing; the whole journal is read once
+const INDEX_PAGE_SIZE = 500
+
+/**
+ * Searches the whole journal, not only the thoughts loaded so far. The index is built from
+ * `store` the first time a query is given and then kept in sync with `thoughts` (the loaded
+ * list from useThoughts) as thoughts are added, edited and deleted.
+ *
+ * Pass a null query to leave search off.
+ */
+export function useThoughtSearch(store: ThoughtStore, thoughts: Thought[], query: string | null) {
+  const index = useMemo(() => new ThoughtIndex(), [])
+  const [isIndexing, setIsIndexing] = useState(false)
+  const [results, setResults] = useState<SearchResult[]>([])
+  // Latest query, for searching again whenever the index changes
+  const queryRef = useRef(query)
+  // Store the index holds every thought of, once built
+  const indexedStoreRef = useRef<ThoughtStore | null>(null)
+  const previousThoughtsRef = useRef<Thought[]>([])
+
+  const isActive = query !== null
+
+  const refresh = useCallback(() => {
+    const current = queryRef.current
+    setResults(current ? index.search(current) : [])
+  }, [index])
+
+  useEffect(() => {
+    queryRef.current = query
+    refresh()
+  }, [query, refresh])
+
+  // Start from scratch with a different store
+  useEffect(() => {
+    index.clear()
+    indexedStoreRef.current = null
+  }, [store, index])
+
+  // Build the index the first time search is used; an interrupted build starts over next time
+  useEffect(() => {
+    if (!isActive || indexedStoreRef.current === store) return
+    let cancelled = false
+    setIsIndexing(true)
+
+    const build = async () => {
+      let before: ThoughtCursor | null = null
+      do {
+        const page = await store.list({ limit: INDEX_PAGE_SIZE, before })
+        if (cancelled) return
+        // Loaded thoughts may have been edited since they were read; those are indexed below
+        page.items.filter(thought => !index.has(thought.id)).forEach(thought => index.add(thought))
+        before = page.nextCursor
+      } while (before)
+      indexedStoreRef.current = store
+    }
+
+    build()
+      .catch(err => console.error('Error indexing thoughts:', err))
+      .finally(() => {
+        if (cancelled) return
+        setIsIndexing(false)
+        refresh()
+      })
+
+    return () => {
+      cancelled = true
+      setIsIndexing(false)
+    }
+  }, [isActive, store, index, refresh])
+
+  // Follow additions, edits and deletions in the loaded list
+  useEffect(() => {
+    const current = new Set(thoughts.map(thought => thought.id))
+    previousThoughtsRef.current
+      .filter(thought => !current.has(thought.id))
+      .forEach(thought => index.remove(thought.id))
+    thoughts.forEach(thought => index.add(thought))
+    previousThoughtsRef.current = thoughts
+    refresh()
+  }, [thoughts, index, refresh])
+
+  return { results, isIndexing }
+}
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { DEFAULT_PAGE_SIZE, Thought, ThoughtCursor, ThoughtStore } from '../storage/ThoughtStore'
+import { IndexedDBThoughtStore } from '../storage/IndexedDBThoughtStore'
+import { MemoryThoughtStore } from '../storage/MemoryThoughtStore'
+
+let defaultStore: ThoughtStore | null = null
+
+// The journal persists in IndexedDB when the browser has it, otherwise only for the session
+export const getDefaultStore = (): ThoughtStore => {
+  if (!defaultStore) {
+    defaultStore = IndexedDBThoughtStore.isSupported() ? new IndexedDBThoughtStore() : new MemoryThoughtStore()
+  }
+  return defaultStore
+}
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`
+
+// Puts a thought back in newest-first order, e.g. when it is restored from the trash
+const insertSorted = (thoughts: Thought[], thought: Thought) => {
+  const rest = thoughts.filter(t => t.id !== thought.id)
+  const index = rest.findIndex(t =>
+    t.createdAt.getTime() < thought.createdAt.getTime() ||
+    (t.createdAt.getTime() === thought.createdAt.getTime() && t.id < thought.id))
+  return index === -1 ? [...rest, thought] : [...rest.slice(0, index), thought, ...rest.slice(index)]
+}
+
+/**
+ * Journal thoughts, newest first, loaded from `store` a page at a time. Call `loadMore` when the
+ * end of the list comes into view.
+ *
+ * Deleted thoughts go to the trash; the latest ones can be brought back with `undoDelete`.
+ */
+export function useThoughts(store: ThoughtStore = getDefaultStore(), pageSize = DEFAULT_PAGE_SIZE) {
+  const [thoughts, setThoughts] = useState<Thought[]>([])
+  const [hasMore, setHasMore] = useState(true)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const [trash, setTrash] = useState<Thought[]>([])
+  // Ids of deleted thoughts, most recent last, for undo
+  const [deletedIds, setDeletedIds] = useState<string[]>([])
+
+  const cursorRef = useRef<ThoughtCursor | null>(null)
+  const loadingRef = useRef(false)
+
+  const reportError = useCallback((message: string, err: unknown) => {
+    console.error(message, err)
+    setError(err as Error)
+  }, [])
+
+  const loadMore = useCallback(async () => {
+    if (loadingRef.current) return
+    loadingRef.current = true
+    setIsLoading(true)
+    try {
+      const page = await store.list({ limit: pageSize, before: cursorRef.current })
+      cursorRef.current = page.nextCursor
+      // Skip anything already shown, e.g. thoughts added while the page was loading
+      setThoughts(prev => {
+        const seen = new Set(prev.map(t => t.id))
+        return [...prev, ...page.items.filter(t => !seen.has(t.id))]
+      })
+      setHasMore(page.nextCursor !== null)
+    } catch (err) {
+      console.error('Error loading thoughts:', err)
+      setError(err as Error)
+      setHasMore(false)
+    } finally {
+      loadingRef.current = false
+      setIsLoading(false)
+    }
+  }, [store, pageSize])
+
+  // Start over whenever the store changes
+  useEffect(() => {
+    cursorRef.current = null
+    setThoughts([])
+    setHasMore(true)
+    setError(null)
+    setTrash([])
+    setDeletedIds([])
+    loadMore()
+  }, [loadMore])
+
+  // `postUri` marks a thought that was also posted publicly
+  const addThought = useCallback(async (content: string, postUri: string | null = null) => {
+    const thought: Thought = { id: createId(), content, createdAt: new Date(), postUri }
+    setThoughts(prev => [thought, ...prev])
+    try {
+      await store.add(thought)
+    } catch (err) {
+      reportError('Error saving thought:', err)
+    }
+    return thought
+  }, [store, reportError])
+
+  // Saves new content; the previous content is kept as a revision
+  const updateThought = useCallback(async (id: string, content: string) => {
+    try {
+      const updated = await store.update(id, content)
+      setThoughts(prev => prev.map(t => (t.id === id ? updated : t)))
+    } catch (err) {
+      reportError('Error updating thought:', err)
+    }
+  }, [store, reportError])
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await store.listTrash())
+    } catch (err) {
+      reportError('Error loading trash:', err)
+    }
+  }, [store, reportError])
+
+  const deleteThought = useCallback(async (id: string) => {
+    setThoughts(prev => prev.filter(t => t.id !== id))
+    try {
+      const deleted = await store.remove(id)
+      setTrash(prev => [deleted, ...prev.filter(t => t.id !== id)])
+      setDeletedIds(prev => [...prev, id])
+    } catch (err) {
+      reportError('Error deleting thought:', err)
+    }
+  }, [store, reportError])
+
+  const restoreThought = useCallback(async (id: string) => {
+    try {
+      const restored = await store.restore(id)
+      setTrash(prev => prev.filter(t => t.id !== id))
+      setDeletedIds(prev => prev.filter(deletedId => deletedId !== id))
+      setThoughts(prev => insertSorted(prev, restored))
+    } catch (err) {
+      reportError('Error restoring thought:', err)
+    }
+  }, [store, reportError])
+
+  const purgeThought = useCallback(async (id: string) => {
+    try {
+      await store.purge(id)
+      setTrash(prev => prev.filter(t => t.id !== id))
+      setDeletedIds(prev => prev.filter(deletedId => deletedId !== id))
+    } catch (err) {
+      reportError('Error purging thought:', err)
+    }
+  }, [store, reportError])
+
+  // Restores the most recently deleted thought
+  const undoDelete = useCallback(() => {
+    const id = deletedIds[deletedIds.length - 1]
+    if (id) restoreThought(id)
+  }, [deletedIds, restoreThought])
+
+  return {
+    store,
+    thoughts,
+    hasMore,
+    isLoading,
+    error,
+    loadMore,
+    addThought,
+    updateThought,
+    deleteThought,
+    canUndoDelete: deletedIds.length > 0,
+    undoDelete,
+    trash,
+    loadTrash,
+    restoreThought,
+    purgeThought,
+  }
+}
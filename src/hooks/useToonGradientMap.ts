@@ -0,0 +1,17 @@
+import { useMemo } from 'react'
+import * as THREE from 'three'
+
+// Gradient texture for toon materials, with 4 distinct steps for visible toon shading
+export function useToonGradientMap() {
+  return useMemo(() => {
+    const colors = new Uint8Array([0, 80, 160, 255])  // dark, dark-mid, light-mid, light
+    const texture = new THREE.DataTexture(
+      colors,
+      colors.length,
+      1,
+      THREE.RedFormat
+    )
+    texture.needsUpdate = true
+    return texture
+  }, [])
+}
@@ -0,0 +1,81 @@
+import { Speech, SpeechOptions, SpeechProvider } from './Provider';
+
+export interface BrowserSpeechOptions {
+  voice?: string;  // name of one of speechSynthesis.getVoices(); the browser's default otherwise
+  lang?: string;   // BCP 47, e.g. "en-US"
+  rate?: number;   // 0.1 to 10, 1 is normal
+  pitch?: number;  // 0 to 2, 1 is normal
+}
+
+// Loudness between words, and how quickly a word's burst fades back to it
+const RESTING_LEVEL = 0.25;
+const WORD_DECAY_MS = 150;
+
+/**
+ * Speech with the browser's own voices (the Web Speech API), free and offline. The audio never
+ * passes through the page, so `level` is made up: a burst at each word boundary that fades
+ * until the next one.
+ */
+export class BrowserSpeechProvider implements SpeechProvider {
+  private voice?: string;
+  private lang?: string;
+  private rate: number;
+  private pitch: number;
+
+  constructor({ voice, lang, rate = 1, pitch = 1.1 }: BrowserSpeechOptions = {}) {
+    this.voice = voice;
+    this.lang = lang;
+    this.rate = rate;
+    this.pitch = pitch;
+  }
+
+  public speak(text: string, { voice = this.voice, signal }: SpeechOptions = {}): Speech {
+    const synth = window.speechSynthesis;
+    const utterance = new SpeechSynthesisUtterance(text);
+    const chosen = voice ? synth.getVoices().find((candidate) => candidate.name === voice) : undefined;
+    if (chosen) utterance.voice = chosen;
+    if (this.lang) utterance.lang = this.lang;
+    utterance.rate = this.rate;
+    utterance.pitch = this.pitch;
+
+    let speaking = false;
+    let lastBoundary = 0;
+    const finished = new Promise<void>((resolve, reject) => {
+      const stop = () => {
+        speaking = false;
+        synth.cancel();
+        reject(new DOMException('The speech was stopped', 'AbortError'));
+      };
+      if (signal?.aborted) return stop();
+      signal?.addEventListener('abort', stop, { once: true });
+
+      utterance.onstart = () => {
+        speaking = true;
+        lastBoundary = performance.now();
+      };
+      utterance.onboundary = () => {
+        lastBoundary = performance.now();
+      };
+      utterance.onend = () => {
+        speaking = false;
+        signal?.removeEventListener('abort', stop);
+        resolve();
+      };
+      utterance.onerror = (event) => {
+        speaking = false;
+        signal?.removeEventListener('abort', stop);
+        reject(event.error === 'interrupted' || event.error === 'canceled'
+          ? new DOMException('The speech was stopped', 'AbortError')
+          : new Error(`Speech synthesis failed: ${event.error}`));
+      };
+      synth.speak(utterance);
+    });
+
+    return {
+      finished,
+      level: () => speaking
+        ? RESTING_LEVEL + (1 - RESTING_LEVEL) * Math.exp(-(performance.now() - lastBoundary) / WORD_DECAY_MS)
+        : 0,
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  ChatMessage,
+  ChatOptions,
+  ChatProvider,
+  ClassificationProvider,
+  RequestOptions,
+  Speech,
+  SpeechOptions,
+  SpeechProvider,
+  TranscriptionOptions,
+  TranscriptionProvider,
+} from './Provider';
+import { audioExtension } from '../utils/audioTypes';
+import { playAudio } from './audioPlayback';
+import { readChatStream, readJson, throwIfFailed } from './chatStream';
+import { classificationMessages, parseLabel } from './classificationPrompt';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;           // up to and including /v1, e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string;           // left out for local servers that don't check it
+  chatModel?: string;
+  classificationModel?: string;  // defaults to chatModel
+  transcriptionModel?: string;
+  speechModel?: string;
+  voice?: string;            // for speech, e.g. "alloy"
+  fetch?: typeof fetch;      // swapped out in tests
+}
+
+/**
+ * Chat, classification, transcription and speech against any server speaking the OpenAI HTTP API:
+ * OpenAI, Groq, or a local llama.cpp / Ollama / whisper.cpp server, or a local TTS server such as
+ * Kokoro-FastAPI.
+ */
+export class OpenAICompatibleProvider implements ChatProvider, ClassificationProvider, TranscriptionProvider, SpeechProvider {
+  private baseUrl: string;
+  private apiKey?: string;
+  private chatModel: string;
+  private classificationModel: string;
+  private transcriptionModel: string;
+  private speechModel: string;
+  private voice: string;
+  private fetch: typeof fetch;
+
+  constructor({
+    baseUrl,
+    apiKey,
+    chatModel = 'gpt-4o-mini',
+    classificationModel,
+    transcriptionModel = 'whisper-1',
+    speechModel = 'tts-1',
+    voice = 'alloy',
+    fetch: fetchImpl,
+  }: OpenAICompatibleOptions) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.chatModel = chatModel;
+    this.classificationModel = classificationModel ?? chatModel;
+    this.transcriptionModel = transcriptionModel;
+    this.speechModel = speechModel;
+    this.voice = voice;
+    // Bound so that calling it as a method doesn't lose `window`
+    this.fetch = fetchImpl ?? globalThis.fetch.bind(globalThis);
+  }
+
+  public chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    return this.complete(this.chatModel, messages, options);
+  }
+
+  public async *chatStream(messages: ChatMessage[], { maxTokens, temperature, signal }: ChatOptions = {}): AsyncGenerator<string> {
+    const response = await this.send('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.chatModel, messages, max_tokens: maxTokens, temperature, stream: true }),
+      signal,
+    });
+    yield* readChatStream(response);
+  }
+
+  public async classify<L extends string>(text: string, labels: Record<L, string>, options: RequestOptions = {}): Promise<L | null> {
+    const answer = await this.complete(this.classificationModel, classificationMessages(text, labels), { ...options, maxTokens: 10, temperature: 0 });
+    return parseLabel(answer, labels);
+  }
+
+  public async transcribe(audio: Blob, { language, signal }: TranscriptionOptions = {}): Promise<string> {
+    const form = new FormData();
+    // Whisper goes by the extension to work out the format
+    form.append('file', audio, `recording.${audioExtension(audio.type)}`);
+    form.append('model', this.transcriptionModel);
+    if (language) form.append('language', language);
+    // No Content-Type: the browser sets the multipart boundary
+    const data = await this.request<{ text: string }>('/audio/transcriptions', { method: 'POST', body: form, signal });
+    return data.text;
+  }
+
+  public speak(text: string, { voice = this.voice, signal }: SpeechOptions = {}): Speech {
+    const audio = this.send('/audio/speech', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.speechModel, input: text, voice, response_format: 'mp3' }),
+      signal,
+    }).then((response) => response.arrayBuffer());
+    return playAudio(audio, signal);
+  }
+
+  private async complete(model: string, messages: ChatMessage[], { maxTokens, temperature, signal }: ChatOptions): Promise<string> {
+    const data = await this.request<{ choices?: { message?: { content?: string } }[] }>('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, messages, max_tokens: maxTokens, temperature }),
+      signal,
+    });
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+
+  private async request<T>(path: string, init: RequestInit): Promise<T> {
+    const response = await this.send(path, init);
+    return readJson<T>(response);
+  }
+
+  private async send(path: string, init: RequestInit): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (this.apiKey) headers.set('Authorization', `Bearer ${this.apiKey}`);
+    const response = await this.fetch(`${this.baseUrl}${path}`, { ...init, headers });
+    await throwIfFailed(response);
+    return response;
+  }
+}
@@ -0,0 +1,77 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface ChatOptions extends RequestOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface TranscriptionOptions extends RequestOptions {
+  language?: string;  // ISO 639-1 hint, e.g. "en"
+}
+
+export interface SpeechOptions extends RequestOptions {
+  voice?: string;  // provider-specific voice name
+}
+
+// Something being said out loud
+export interface Speech {
+  // Resolves once it has all been said; rejects with an AbortError when stopped early
+  finished: Promise<void>;
+  // How loud it is right now, 0 to 1; cheap enough to read every frame
+  level(): number;
+}
+
+export interface ChatProvider {
+  // The assistant's reply to `messages`
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  // The same reply in pieces as the model writes it; aborting the signal ends the stream
+  chatStream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<string>;
+}
+
+export interface ClassificationProvider {
+  /**
+   * Picks one of `labels` (label -> what it means) for `text`, or null when the answer wasn't
+   * one of them.
+   */
+  classify<L extends string>(text: string, labels: Record<L, string>, options?: RequestOptions): Promise<L | null>;
+}
+
+export interface TranscriptionProvider {
+  transcribe(audio: Blob, options?: TranscriptionOptions): Promise<string>;
+}
+
+export interface SpeechProvider {
+  // Starts saying `text`; aborting the signal stops it
+  speak(text: string, options?: SpeechOptions): Speech;
+}
+
+// The backends the app talks to; one object may implement several
+export interface Providers {
+  chat: ChatProvider;
+  classifier: ClassificationProvider | null;  // null leaves classification to the local model
+  transcriber: TranscriptionProvider;
+  speech: SpeechProvider | null;              // null keeps the fish silent
+}
+
+/**
+ * A failed provider request. `retryAfterMs` is set when the provider rate-limited us and said
+ * when to come back.
+ */
+export class ProviderError extends Error {
+  public status: number;
+  public retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ProviderError } from './Provider';
+import { ProxyProvider } from './ProxyProvider';
+
+const LABELS = { ENTRY: 'journal entry', SEARCH: 'search' };
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status });
+
+describe('ProxyProvider', () => {
+  it('posts the text and labels to /classify', async () => {
+    const fetchImpl = vi.fn<typeof fetch>(async () => json(200, { label: 'SEARCH' }));
+    const provider = new ProxyProvider({ baseUrl: '/proxy/', fetch: fetchImpl });
+
+    expect(await provider.classify('find alice', LABELS)).toBe('SEARCH');
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('/proxy/classify');
+    expect(init?.method).toBe('POST');
+    expect(JSON.parse(String(init?.body))).toEqual({ text: 'find alice', labels: LABELS });
+  });
+
+  it("returns null for a label that isn't one of the labels", async () => {
+    const provider = new ProxyProvider({ fetch: async () => json(200, { label: 'POST' }) });
+    expect(await provider.classify('hello', LABELS)).toBeNull();
+  });
+
+  it('sends audio to /transcribe with its type and the language', async () => {
+    const fetchImpl = vi.fn<typeof fetch>(async () => json(200, { text: 'hello fish' }));
+    const provider = new ProxyProvider({ fetch: fetchImpl });
+    const audio = new Blob(['...'], { type: 'audio/ogg' });
+
+    expect(await provider.transcribe(audio, { language: 'en' })).toBe('hello fish');
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('/api/transcribe?language=en');
+    expect(new Headers(init?.headers).get('Content-Type')).toBe('audio/ogg');
+    expect(init?.body).toBe(audio);
+  });
+
+  it('throws a ProviderError with the retry delay on a 429', async () => {
+    const provider = new ProxyProvider({
+      fetch: async () => new Response(JSON.stringify({ error: { message: 'Too many requests' } }), {
+        status: 429,
+        headers: { 'Retry-After': '2' },
+      }),
+    });
+    const error = await provider.classify('hello', LABELS).catch((err) => err);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 2000, message: 'Too many requests' });
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  ChatMessage,
+  ChatOptions,
+  ChatProvider,
+  ClassificationProvider,
+  RequestOptions,
+  TranscriptionOptions,
+  TranscriptionProvider,
+} from './Provider';
+import { readChatStream, readJson, throwIfFailed } from './chatStream';
+
+export interface ProxyProviderOptions {
+  baseUrl?: string;      // where the /api routes are served
+  fetch?: typeof fetch;  // swapped out in tests
+}
+
+/**
+ * Provider backed by this app's own /api routes (see api/), which hold the API keys and pick the
+ * models. Nothing secret is needed in the browser.
+ */
+export class ProxyProvider implements ChatProvider, ClassificationProvider, TranscriptionProvider {
+  private baseUrl: string;
+  private fetch: typeof fetch;
+
+  constructor({ baseUrl = '/api', fetch: fetchImpl }: ProxyProviderOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    // Bound so that calling it as a method doesn't lose `window`
+    this.fetch = fetchImpl ?? globalThis.fetch.bind(globalThis);
+  }
+
+  public async chat(messages: ChatMessage[], { maxTokens, temperature, signal }: ChatOptions = {}): Promise<string> {
+    const data = await this.post<{ choices?: { message?: { content?: string } }[] }>('/chat', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages, maxTokens, temperature }),
+      signal,
+    });
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+
+  public async *chatStream(messages: ChatMessage[], { maxTokens, temperature, signal }: ChatOptions = {}): AsyncGenerator<string> {
+    const response = await this.send('/chat', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages, maxTokens, temperature, stream: true }),
+      signal,
+    });
+    yield* readChatStream(response);
+  }
+
+  public async classify<L extends string>(text: string, labels: Record<L, string>, { signal }: RequestOptions = {}): Promise<L | null> {
+    const { label } = await this.post<{ label: string | null }>('/classify', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, labels }),
+      signal,
+    });
+    return label !== null && label in labels ? label as L : null;
+  }
+
+  public async transcribe(audio: Blob, { language, signal }: TranscriptionOptions = {}): Promise<string> {
+    const query = language ? `?language=${encodeURIComponent(language)}` : '';
+    const { text } = await this.post<{ text: string }>(`/transcribe${query}`, {
+      headers: { 'Content-Type': audio.type || 'audio/webm' },
+      body: audio,
+      signal,
+    });
+    return text;
+  }
+
+  private async post<T>(path: string, init: RequestInit): Promise<T> {
+    const response = await this.send(path, init);
+    return readJson<T>(response);
+  }
+
+  private async send(path: string, init: RequestInit): Promise<Response> {
+    const response = await this.fetch(`${this.baseUrl}${path}`, { ...init, method: 'POST' });
+    await throwIfFailed(response);
+    return response;
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  ChatMessage,
+  ChatOptions,
+  ChatProvider,
+  ClassificationProvider,
+  RequestOptions,
+  TranscriptionOptions,
+  TranscriptionProvider,
+} from './Provider';
+
+// A scripted answer: returned as is, thrown if it's an Error, or computed from the request
+export type Scripted<Input, Output> = Output | Error | ((input: Input) => Output);
+
+export interface ScriptedProviderOptions {
+  chat?: Scripted<ChatMessage[], string>[];
+  classify?: Scripted<string, string | null>[];
+  transcribe?: Scripted<Blob, string>[];
+  latency?: number;      // simulated network delay in milliseconds
+  streamDelay?: number;  // between the words of a streamed chat answer
+}
+
+export type ScriptedCall =
+  | { kind: 'chat'; messages: ChatMessage[] }
+  | { kind: 'classify'; text: string }
+  | { kind: 'transcribe'; audio: Blob };
+
+/**
+ * Provider answering from scripts instead of a model, for tests and offline development. Each
+ * call takes the next answer from its script; once a script runs out, its last answer repeats.
+ * Every call is recorded in `calls`.
+ */
+export class ScriptedProvider implements ChatProvider, ClassificationProvider, TranscriptionProvider {
+  public calls: ScriptedCall[];
+  private scripts: Required<Omit<ScriptedProviderOptions, 'latency' | 'streamDelay'>>;
+  private latency: number;
+  private streamDelay: number;
+
+  constructor({
+    chat = ['Blub! Tell me more.'],
+    classify = [null],
+    transcribe = ['Hello, fish'],
+    latency = 150,
+    streamDelay = 60,
+  }: ScriptedProviderOptions = {}) {
+    this.calls = [];
+    this.scripts = { chat: [...chat], classify: [...classify], transcribe: [...transcribe] };
+    this.latency = latency;
+    this.streamDelay = streamDelay;
+  }
+
+  public async chat(messages: ChatMessage[], { signal }: ChatOptions = {}): Promise<string> {
+    this.calls.push({ kind: 'chat', messages });
+    await this.delay(signal);
+    return this.next(this.scripts.chat, messages);
+  }
+
+  // Streams the next chat answer a word at a time, spaces kept with the word that follows them
+  public async *chatStream(messages: ChatMessage[], { signal }: ChatOptions = {}): AsyncGenerator<string> {
+    this.calls.push({ kind: 'chat', messages });
+    await this.delay(signal);
+    const pieces = this.next(this.scripts.chat, messages).match(/\s*\S+/g) ?? [];
+    for (let i = 0; i < pieces.length; i++) {
+      if (i > 0) await this.delay(signal, this.streamDelay);
+      yield pieces[i];
+    }
+  }
+
+  public async classify<L extends string>(text: string, labels: Record<L, string>, { signal }: RequestOptions = {}): Promise<L | null> {
+    this.calls.push({ kind: 'classify', text });
+    await this.delay(signal);
+    const answer = this.next(this.scripts.classify, text);
+    return answer !== null && answer in labels ? answer as L : null;
+  }
+
+  public async transcribe(audio: Blob, { signal }: TranscriptionOptions = {}): Promise<string> {
+    this.calls.push({ kind: 'transcribe', audio });
+    await this.delay(signal);
+    return this.next(this.scripts.transcribe, audio);
+  }
+
+  private next<Input, Output>(script: Scripted<Input, Output>[], input: Input): Output {
+    const answer = script.length > 1 ? script.shift()! : script[0];
+    if (answer instanceof Error) throw answer;
+    return typeof answer === 'function' ? (answer as (input: Input) => Output)(input) : answer;
+  }
+
+  private delay(signal?: AbortSignal, ms = this.latency): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        clearTimeout(timeout);
+        reject(new DOMException('The request was aborted', 'AbortError'));
+      };
+      const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', abort);
+        resolve();
+      }, ms);
+      if (signal?.aborted) abort();
+      signal?.addEventListener('abort', abort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { Speech } from './Provider';
+
+// Speech RMS rarely goes past 0.25, so this brings normal talking near the top of 0 to 1
+const LEVEL_GAIN = 4;
+
+let sharedContext: AudioContext | null = null;
+
+// One context for all playback: browsers limit how many a page may have open
+const audioContext = (): AudioContext => {
+  if (!sharedContext) sharedContext = new AudioContext();
+  return sharedContext;
+};
+
+/**
+ * Plays encoded audio (mp3, wav, ogg...) once `audio` has loaded, through an AnalyserNode so that
+ * `level` is the real loudness of what is playing. Aborting the signal stops it, whether it's
+ * still loading or already playing.
+ */
+export function playAudio(audio: Promise<ArrayBuffer>, signal?: AbortSignal): Speech {
+  let analyser: AnalyserNode | null = null;
+  let samples: Float32Array | null = null;
+
+  const play = async () => {
+    const data = await audio;
+    const context = audioContext();
+    // Contexts start suspended until the page has had a user gesture
+    if (context.state === 'suspended') await context.resume();
+    const buffer = await context.decodeAudioData(data);
+    if (signal?.aborted) throw new DOMException('The speech was stopped', 'AbortError');
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    samples = new Float32Array(analyser.fftSize);
+    source.connect(analyser);
+    analyser.connect(context.destination);
+
+    await new Promise<void>((resolve, reject) => {
+      const stop = () => {
+        source.stop();
+        reject(new DOMException('The speech was stopped', 'AbortError'));
+      };
+      source.onended = () => {
+        signal?.removeEventListener('abort', stop);
+        resolve();
+      };
+      signal?.addEventListener('abort', stop, { once: true });
+      source.start();
+    });
+  };
+
+  const finished = play().finally(() => {
+    analyser?.disconnect();
+    analyser = null;
+  });
+
+  return {
+    finished,
+    level: () => {
+      if (!analyser || !samples) return 0;
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      return Math.min(1, Math.sqrt(sum / samples.length) * LEVEL_GAIN);
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { ProviderError } from './Provider';
+import { readChatStream, readJson, throwIfFailed } from './chatStream';
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+// A response whose body arrives in the given pieces
+const streamed = (...pieces: string[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach((piece) => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    },
+  });
+  return new Response(body);
+};
+
+const chunk = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+const collect = async (response: Response) => {
+  const pieces: string[] = [];
+  for await (const piece of readChatStream(response)) pieces.push(piece);
+  return pieces;
+};
+
+describe('readChatStream', () => {
+  it('yields the content of each event in order, until [DONE]', async () => {
+    const response = streamed(chunk('Hel'), chunk('lo'), 'data: [DONE]\n\n', chunk('ignored'));
+    expect(await collect(response)).toEqual(['Hel', 'lo']);
+  });
+
+  it('joins events split across reads', async () => {
+    const event = chunk('blub');
+    const response = streamed(event.slice(0, 10), event.slice(10, 25), event.slice(25));
+    expect(await collect(response)).toEqual(['blub']);
+  });
+
+  it('handles CRLF line endings and skips comments, empty deltas and bad JSON', async () => {
+    const response = streamed(
+      ': keep-alive\r\n\r\n',
+      'data: {"choices":[{"delta":{}}]}\r\n\r\n',
+      'data: not json\n\n',
+      chunk('ok').replace(/\n/g, '\r\n')
+    );
+    expect(await collect(response)).toEqual(['ok']);
+  });
+});
+
+describe('throwIfFailed', () => {
+  it('lets successful responses through', async () => {
+    await expect(throwIfFailed(json(200, {}))).resolves.toBeUndefined();
+  });
+
+  it('throws the message from an OpenAI-style error body', async () => {
+    const error = await throwIfFailed(json(400, { error: { message: 'Bad model' } })).catch((err) => err);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ status: 400, message: 'Bad model', retryAfterMs: undefined });
+  });
+
+  it('reads Retry-After seconds as retryAfterMs', async () => {
+    const error = await throwIfFailed(json(429, {}, { 'Retry-After': '3' })).catch((err) => err);
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 3000, message: 'Request failed with status 429' });
+  });
+
+  it('ignores a Retry-After that is not a number of seconds', async () => {
+    const error = await throwIfFailed(json(429, {}, { 'Retry-After': 'Wed, 21 Oct 2015 07:28:00 GMT' })).catch((err) => err);
+    expect(error.retryAfterMs).toBeUndefined();
+  });
+});
+
+describe('readJson', () => {
+  it('returns the JSON body', async () => {
+    expect(await readJson(new Response('{"a":1}'))).toEqual({ a: 1 });
+  });
+
+  it('throws a ProviderError when the body is not JSON', async () => {
+    await expect(readJson(new Response('<html>'))).rejects.toBeInstanceOf(ProviderError);
+  });
+});
@@ -0,0 +1,71 @@
+import { ProviderError } from './Provider';
+
+/**
+ * Throws the ProviderError for a failed response, with the message from an OpenAI-style error
+ * body when there is one.
+ */
+export async function throwIfFailed(response: Response): Promise<void> {
+  if (response.ok) return;
+  const body = await response.json().catch(() => null);
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  throw new ProviderError(
+    response.status,
+    body?.error?.message ?? `Request failed with status ${response.status}`,
+    retryAfter > 0 ? retryAfter * 1000 : undefined
+  );
+}
+
+/**
+ * The JSON object a successful response carries. A body that isn't one (an HTML error page from a
+ * proxy, say) is a ProviderError rather than something for callers to trip over.
+ */
+export async function readJson<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => null);
+  if (typeof body !== 'object' || body === null) {
+    throw new ProviderError(response.status, `Expected a JSON response from ${response.url || 'the provider'}`);
+  }
+  return body as T;
+}
+
+/**
+ * The text pieces of a streamed OpenAI chat completion (server-sent events of
+ * `chat.completion.chunk`s), in order, until the `[DONE]` event or the end of the body.
+ */
+export async function* readChatStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += value;
+      // Events end with a blank line; the last piece may still be arriving
+      const events = buffered.split(/\r?\n\r?\n/);
+      buffered = events.pop() ?? '';
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('\n');
+        if (!data) continue;
+        if (data === '[DONE]') return;
+        const delta = parseDelta(data);
+        if (delta) yield delta;
+      }
+    }
+  } finally {
+    // Stops the download when the caller breaks off early
+    reader.cancel().catch(() => {});
+  }
+}
+
+function parseDelta(data: string): string {
+  try {
+    const chunk: { choices?: { delta?: { content?: string } }[] } = JSON.parse(data);
+    return chunk.choices?.[0]?.delta?.content ?? '';
+  } catch {
+    return '';
+  }
+}
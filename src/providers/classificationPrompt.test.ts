@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { classificationMessages, parseLabel } from './classificationPrompt';
+
+const LABELS = { ENTRY: 'journal entry', SEARCH: 'search', POST: 'public post' };
+
+describe('parseLabel', () => {
+  it('accepts a label in any case, with whitespace around it', () => {
+    expect(parseLabel('SEARCH', LABELS)).toBe('SEARCH');
+    expect(parseLabel('  post\n', LABELS)).toBe('POST');
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseLabel('It is a SEARCH.', LABELS)).toBeNull();
+    expect(parseLabel('', LABELS)).toBeNull();
+  });
+});
+
+describe('classificationMessages', () => {
+  it('lists every label with its meaning and passes the text as the user message', () => {
+    const [system, user] = classificationMessages('find alice', LABELS);
+    expect(system.content).toContain('ENTRY (journal entry), SEARCH (search), POST (public post)');
+    expect(user).toEqual({ role: 'user', content: 'find alice' });
+  });
+});
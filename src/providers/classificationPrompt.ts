@@ -0,0 +1,20 @@
+import { ChatMessage } from './Provider';
+
+// Shared by the in-browser provider and the /api/classify route, so both ask the same question
+
+export function classificationMessages(text: string, labels: Record<string, string>): ChatMessage[] {
+  const descriptions = Object.entries(labels).map(([name, meaning]) => `${name} (${meaning})`).join(', ');
+  return [
+    {
+      role: 'system',
+      content: `You are a text classifier. Classify the user input as one of: ${descriptions}. Respond with ONLY the classification word.`,
+    },
+    { role: 'user', content: text },
+  ];
+}
+
+// The label the model answered with, or null when it answered something else
+export function parseLabel<L extends string>(answer: string, labels: Record<L, string>): L | null {
+  const label = answer.trim().toUpperCase();
+  return (Object.keys(labels) as L[]).find((name) => name.toUpperCase() === label) ?? null;
+}
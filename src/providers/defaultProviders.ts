@@ -0,0 +1,39 @@
+import { BrowserSpeechProvider } from './BrowserSpeechProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { Providers, SpeechProvider } from './Provider';
+import { ProxyProvider } from './ProxyProvider';
+import { ScriptedProvider } from './ScriptedProvider';
+
+let defaultProviders: Providers | null = null;
+
+/**
+ * Providers configured from the environment: the app's /api proxy, which keeps the API keys on
+ * the server (VITE_API_BASE_URL moves it elsewhere), or scripted answers without any network when
+ * VITE_PROVIDERS_FAKE=true. The fish speaks with the browser's voices unless VITE_TTS_BASE_URL
+ * points at a local OpenAI-compatible TTS server.
+ */
+export function getDefaultProviders(): Providers {
+  if (!defaultProviders) {
+    const env = import.meta.env;
+    const provider = env.VITE_PROVIDERS_FAKE === 'true'
+      ? new ScriptedProvider()
+      : new ProxyProvider({ baseUrl: env.VITE_API_BASE_URL });
+    defaultProviders = { chat: provider, classifier: provider, transcriber: provider, speech: speechProvider() };
+  }
+  return defaultProviders;
+}
+
+function speechProvider(): SpeechProvider | null {
+  const env = import.meta.env;
+  if (env.VITE_TTS_BASE_URL) {
+    return new OpenAICompatibleProvider({
+      baseUrl: env.VITE_TTS_BASE_URL,
+      speechModel: env.VITE_TTS_MODEL,
+      voice: env.VITE_TTS_VOICE,
+    });
+  }
+  if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
+    return new BrowserSpeechProvider({ voice: env.VITE_TTS_VOICE });
+  }
+  return null;
+}
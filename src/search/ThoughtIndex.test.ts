@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Thought } from '../storage/ThoughtStore';
+import { ThoughtIndex, editDistance, highlight, tokenize } from './ThoughtIndex';
+
+const thought = (id: string, content: string, day = 1): Thought => ({ id, content, createdAt: new Date(2024, 0, day) });
+
+const indexOf = (...thoughts: Thought[]) => {
+  const index = new ThoughtIndex();
+  thoughts.forEach((t) => index.add(t));
+  return index;
+};
+
+const ids = (index: ThoughtIndex, query: string) => index.search(query).map((result) => result.thought.id);
+
+describe('ThoughtIndex', () => {
+  it('matches words exactly, by prefix and with typos, ranking exact matches first', () => {
+    const index = indexOf(
+      thought('a', 'Morning swim in the lake'),
+      thought('b', 'Avocado toast again'),
+      thought('c', 'The morn was grey')
+    );
+    expect(ids(index, 'morn')).toEqual(['c', 'a']);
+    expect(ids(index, 'avocdo')).toEqual(['b']);
+    expect(ids(index, 'zebra')).toEqual([]);
+  });
+
+  it('needs every query word to match', () => {
+    const index = indexOf(thought('a', 'coffee with Sam'), thought('b', 'coffee alone'));
+    expect(ids(index, 'coffee sam')).toEqual(['a']);
+  });
+
+  it('ignores case and accents', () => {
+    const index = indexOf(thought('a', 'Lunch at the Café'));
+    expect(ids(index, 'CAFE')).toEqual(['a']);
+  });
+
+  it('puts newer thoughts first on equal scores', () => {
+    const index = indexOf(thought('old', 'rain', 1), thought('new', 'rain', 2));
+    expect(ids(index, 'rain')).toEqual(['new', 'old']);
+  });
+
+  it('re-indexes edited thoughts and forgets removed ones', () => {
+    const index = indexOf(thought('a', 'first draft'));
+    index.add(thought('a', 'second version'));
+    expect(ids(index, 'draft')).toEqual([]);
+    expect(ids(index, 'version')).toEqual(['a']);
+    index.remove('a');
+    expect(index.size).toBe(0);
+    expect(ids(index, 'version')).toEqual([]);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts edits, giving up past the maximum', () => {
+    expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+  });
+});
+
+describe('highlight', () => {
+  it('marks the words matching the terms', () => {
+    expect(highlight('Café au lait', new Set(tokenize('cafe')))).toEqual([
+      { text: 'Café', match: true },
+      { text: ' au lait', match: false },
+    ]);
+  });
+});
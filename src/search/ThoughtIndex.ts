@@ -0,0 +1,180 @@
+import { Thought } from '../storage/ThoughtStore';
+
+export interface SearchResult {
+  thought: Thought;
+  score: number;
+  terms: Set<string>;  // indexed terms that matched, for highlighting
+}
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Relative weight of each kind of term match
+const EXACT_WEIGHT = 3;
+const PREFIX_WEIGHT = 2;
+const FUZZY_WEIGHT = 1;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Lowercase and strip accents so "Café" matches "cafe"
+export const normalize = (text: string) => text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string): string[] => normalize(text).match(WORD) ?? [];
+
+// Typos tolerated for a query word of this length
+const maxEdits = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+/**
+ * Levenshtein distance, giving up (returning max + 1) as soon as it must exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * In-memory inverted index over journal thoughts.
+ *
+ * Every query word must match some word of a thought, exactly, as a prefix ("morn" → "morning")
+ * or within a small edit distance ("avocdo" → "avocado"). Results are ranked by match quality
+ * and term frequency, newest first on ties.
+ */
+export class ThoughtIndex {
+  private postings: Map<string, Map<string, number>>;  // term -> thought id -> occurrences
+  private documents: Map<string, { thought: Thought; terms: Set<string> }>;
+
+  constructor() {
+    this.postings = new Map();
+    this.documents = new Map();
+  }
+
+  public get size(): number {
+    return this.documents.size;
+  }
+
+  public has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Adds a thought, or re-indexes it if its content changed.
+   */
+  public add(thought: Thought): void {
+    const existing = this.documents.get(thought.id);
+    if (existing && existing.thought.content === thought.content) {
+      existing.thought = thought;
+      return;
+    }
+    if (existing) this.remove(thought.id);
+
+    const counts = new Map<string, number>();
+    for (const term of tokenize(thought.content)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    counts.forEach((count, term) => {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(thought.id, count);
+    });
+    this.documents.set(thought.id, { thought, terms: new Set(counts.keys()) });
+  }
+
+  public remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+    document.terms.forEach((term) => {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    });
+    this.documents.delete(id);
+  }
+
+  public clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+  }
+
+  public search(query: string, { limit = 50 }: SearchOptions = {}): SearchResult[] {
+    const words = [...new Set(tokenize(query))];
+    if (words.length === 0) return [];
+
+    let candidates: Map<string, { score: number; terms: Set<string> }> | null = null;
+    for (const word of words) {
+      const matches = this.matchWord(word);
+      const next = new Map<string, { score: number; terms: Set<string> }>();
+      matches.forEach((weight, term) => {
+        this.postings.get(term)!.forEach((count, id) => {
+          // Every query word has to match: only keep thoughts matched by the previous words
+          const previous = candidates ? candidates.get(id) : { score: 0, terms: new Set<string>() };
+          if (!previous) return;
+          const entry = next.get(id) ?? { score: previous.score, terms: new Set(previous.terms) };
+          entry.score += weight * (1 + Math.log(count));
+          entry.terms.add(term);
+          next.set(id, entry);
+        });
+      });
+      candidates = next;
+      if (candidates.size === 0) return [];
+    }
+
+    return [...candidates!.entries()]
+      .map(([id, { score, terms }]) => ({ thought: this.documents.get(id)!.thought, score, terms }))
+      .sort((a, b) => b.score - a.score || b.thought.createdAt.getTime() - a.thought.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  // Indexed terms matching one query word, with the weight of the best kind of match
+  private matchWord(word: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    const edits = maxEdits(word.length);
+    this.postings.forEach((_, term) => {
+      if (term === word) {
+        matches.set(term, EXACT_WEIGHT);
+      } else if (term.startsWith(word)) {
+        matches.set(term, PREFIX_WEIGHT * (word.length / term.length));
+      } else if (edits > 0 && editDistance(word, term, edits) <= edits) {
+        matches.set(term, FUZZY_WEIGHT);
+      }
+    });
+    return matches;
+  }
+}
+
+/**
+ * Splits `text` into runs, marking the words whose normalized form is one of `terms`.
+ */
+export function highlight(text: string, terms: Set<string>): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)) {
+    const isMatch = tokenize(match[0]).some((token) => terms.has(token));
+    if (!isMatch) continue;
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index), match: false });
+    segments.push({ text: match[0], match: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
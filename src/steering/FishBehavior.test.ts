@@ -0,0 +1,290 @@
+import * as THREE from 'three';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FishBehavior, FishState, FishTransitionEvent } from './FishBehavior';
+
+const still = new THREE.Vector3();
+const origin = new THREE.Vector3();
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('FishBehavior transitions', () => {
+  it('tells listeners where the fish went, why and when', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+    const fish = new FishBehavior({ eatDuration: 0.1 });
+    const events: FishTransitionEvent[] = [];
+    fish.on((event) => events.push(event));
+
+    fish.setFoodTarget(new THREE.Vector3());
+    fish.update(origin, still, 0.05);
+    fish.update(origin, still, 0.1);
+
+    expect(events).toEqual([
+      { from: FishState.WANDER, to: FishState.APPROACH, reason: 'food-spotted', timestamp: 1_700_000_000_000 },
+      { from: FishState.APPROACH, to: FishState.EAT, reason: 'reached-food', timestamp: 1_700_000_000_000 },
+      { from: FishState.EAT, to: FishState.REST, reason: 'done-eating', timestamp: 1_700_000_000_000 },
+    ]);
+  });
+
+  it("doesn't notify when the state stays the same", () => {
+    const fish = new FishBehavior();
+    const listener = vi.fn();
+    fish.on(listener);
+
+    fish.resetTarget();
+    fish.update(origin, still, 0.1);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('stops notifying once unsubscribed', () => {
+    const fish = new FishBehavior();
+    const listener = vi.fn();
+    const unsubscribe = fish.on(listener);
+
+    fish.forceState(FishState.CURIOUS);
+    unsubscribe();
+    fish.forceState(FishState.WANDER);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ to: FishState.CURIOUS, reason: 'forced' }));
+  });
+});
+
+describe('FishBehavior snapshots', () => {
+  // A fish that stopped to talk by its food, with more queued and the meters off their defaults
+  const talkingFish = () => {
+    const fish = new FishBehavior({ restDuration: 2, initialHunger: 0.3, initialEnergy: 0.6 });
+    fish.setFoodTarget(new THREE.Vector3(0.25, 0, 0.5));
+    fish.setFoodTarget(new THREE.Vector3(3, 0, -4));
+    const velocity = new THREE.Vector3(0, 0, 0.5);
+    fish.update(new THREE.Vector3(0.25, 0, 0.5), velocity, 0.25);
+    fish.startTalking(new THREE.Vector3(1, 0.5, 2), velocity);
+    fish.update(new THREE.Vector3(1, 0.5, 2), still, 0.5);
+    return fish;
+  };
+
+  it('restores everything exactly through JSON', () => {
+    const fish = talkingFish();
+    const snapshot = fish.toJSON();
+    const restored = FishBehavior.fromJSON(JSON.parse(JSON.stringify(snapshot)));
+
+    expect(restored.toJSON()).toEqual(snapshot);
+    expect(restored.state).toBe(FishState.TALK);
+    expect(restored.target?.toArray()).toEqual([0.25, 0, 0.5]);
+    expect(restored.targetQueue.map((t) => t.toArray())).toEqual([[3, 0, -4]]);
+    expect(restored.stationaryPosition?.toArray()).toEqual([1, 0.5, 2]);
+    expect(restored.stationaryDirection?.toArray()).toEqual([0, 0, 1]);
+  });
+
+  it('carries on from the restored timer', () => {
+    const fish = new FishBehavior({ restDuration: 2, initialEnergy: 1 });
+    fish.forceState(FishState.REST, origin);
+    fish.update(origin, still, 1.5);
+
+    const restored = FishBehavior.fromJSON(fish.toJSON(), { restDuration: 2 });
+    restored.update(origin, still, 0.25);
+    expect(restored.state).toBe(FishState.REST);
+    restored.update(origin, still, 0.25);
+    expect(restored.state).toBe(FishState.WANDER);
+  });
+
+  it('copies vectors instead of sharing them with the fish it came from', () => {
+    const fish = talkingFish();
+    const restored = FishBehavior.fromJSON(fish.toJSON());
+    fish.target!.set(9, 9, 9);
+    expect(restored.target?.toArray()).toEqual([0.25, 0, 0.5]);
+  });
+
+  it('tells listeners about the restored state', () => {
+    const fish = new FishBehavior();
+    const listener = vi.fn();
+    fish.on(listener);
+
+    fish.restore(talkingFish().toJSON());
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      from: FishState.WANDER,
+      to: FishState.TALK,
+      reason: 'restored',
+    }));
+  });
+});
+
+describe('FishBehavior meters', () => {
+  it('drains energy in proportion to swimming speed and builds hunger over time', () => {
+    const fish = new FishBehavior({ initialHunger: 0, initialEnergy: 1, hungerRate: 0.1, energyDrainPerSpeed: 0.05 });
+    fish.update(origin, new THREE.Vector3(2, 0, 0), 1);
+
+    expect(fish.energy).toBeCloseTo(0.9);
+    expect(fish.hunger).toBeCloseTo(0.1);
+  });
+
+  it('takes foodValue off hunger once it has eaten', () => {
+    const fish = new FishBehavior({ eatDuration: 0.5, initialHunger: 0.8, hungerRate: 0, foodValue: 0.35 });
+    fish.setFoodTarget(new THREE.Vector3());
+    fish.update(origin, still, 0.5);
+    fish.update(origin, still, 0.5);
+
+    expect(fish.state).toBe(FishState.REST);
+    expect(fish.hunger).toBeCloseTo(0.45);
+  });
+
+  it('keeps both meters between 0 and 1', () => {
+    const fish = new FishBehavior({ initialHunger: 0.95, initialEnergy: 0.05, hungerRate: 1, energyDrainPerSpeed: 1 });
+    fish.update(origin, new THREE.Vector3(10, 0, 0), 1);
+
+    expect(fish.hunger).toBe(1);
+    expect(fish.energy).toBe(0);
+  });
+
+  it('rests of its own accord when tired, until rested', () => {
+    const fish = new FishBehavior({
+      initialEnergy: 0.1,
+      tiredThreshold: 0.2,
+      restedThreshold: 0.8,
+      restDuration: 1,
+      energyRecoveryRate: 0.5,
+    });
+    const events: FishTransitionEvent[] = [];
+    fish.on((event) => events.push(event));
+
+    fish.update(origin, still, 0.1);
+    expect(fish.state).toBe(FishState.REST);
+    expect(events[0].reason).toBe('tired');
+
+    // restDuration has passed, but energy is still short of restedThreshold
+    fish.update(origin, still, 1);
+    expect(fish.state).toBe(FishState.REST);
+    expect(fish.energy).toBeCloseTo(0.6);
+
+    fish.update(origin, still, 0.5);
+    expect(fish.state).toBe(FishState.WANDER);
+    expect(events[1].reason).toBe('rested');
+  });
+
+  it('notices food from further away the hungrier it is', () => {
+    const options = { noticeRadius: 5, hungryNoticeRadius: 25, hungerRate: 0 };
+    const fed = new FishBehavior({ ...options, initialHunger: 0 });
+    const starving = new FishBehavior({ ...options, initialHunger: 1 });
+    expect(fed.getNoticeRadius()).toBe(5);
+    expect(starving.getNoticeRadius()).toBe(25);
+
+    const food = new THREE.Vector3(10, 0, 0);
+    [fed, starving].forEach((fish) => {
+      fish.update(origin, still, 0.1);
+      fish.setFoodTarget(food);
+      fish.update(origin, still, 0.1);
+    });
+
+    expect(fed.state).toBe(FishState.WANDER);
+    expect(fed.targetQueue).toHaveLength(1);
+    expect(starving.state).toBe(FishState.APPROACH);
+    expect(starving.target?.toArray()).toEqual([10, 0, 0]);
+  });
+
+  it('goes for queued food once hunger has widened its notice radius', () => {
+    const fish = new FishBehavior({ noticeRadius: 5, hungryNoticeRadius: 25, initialHunger: 0, hungerRate: 0.5 });
+    fish.update(origin, still, 0.1);
+    fish.setFoodTarget(new THREE.Vector3(10, 0, 0));
+    expect(fish.state).toBe(FishState.WANDER);
+
+    fish.update(origin, still, 1);
+    expect(fish.state).toBe(FishState.APPROACH);
+  });
+});
+
+describe('FishBehavior curiosity', () => {
+  const options = {
+    visionRange: 6,
+    stillSpeed: 0.5,
+    curiosityDelay: 1,
+    boredomTimeout: 4,
+    curiosityCooldown: 2,
+    fleeSpeed: 15,
+    fleeDuration: 1,
+  };
+  const swimming = new THREE.Vector3(0, 0, 1);
+  const ahead = new THREE.Vector3(0, 0, 3);
+
+  // Runs `seconds` of frames, each `ticks` fixed ticks long, with the pointer sampled once per frame
+  const run = (fish: FishBehavior, seconds: number, pointerAt: (t: number) => THREE.Vector3 | null, ticks = 1) => {
+    const step = 0.05;
+    for (let t = step * ticks; t <= seconds + 1e-9; t += step * ticks) {
+      fish.setPointer(pointerAt(t), step * ticks);
+      for (let i = 0; i < ticks; i++) fish.update(origin, swimming, step);
+    }
+  };
+
+  it('gets CURIOUS once the pointer has stayed still in view for curiosityDelay', () => {
+    const fish = new FishBehavior(options);
+    run(fish, 0.9, () => ahead);
+    expect(fish.state).toBe(FishState.WANDER);
+    run(fish, 0.2, () => ahead);
+    expect(fish.state).toBe(FishState.CURIOUS);
+  });
+
+  it('ignores a pointer behind it or out of range', () => {
+    const fish = new FishBehavior(options);
+    run(fish, 2, () => new THREE.Vector3(0, 0, -3));
+    run(fish, 2, () => new THREE.Vector3(0, 0, 10));
+    expect(fish.state).toBe(FishState.WANDER);
+  });
+
+  it('gets bored after boredomTimeout and stays uninterested for curiosityCooldown', () => {
+    const fish = new FishBehavior(options);
+    const events: FishTransitionEvent[] = [];
+    fish.on((event) => events.push(event));
+
+    run(fish, 1, () => ahead);
+    run(fish, 4.1, () => ahead);
+    expect(fish.state).toBe(FishState.WANDER);
+    expect(events.map((e) => e.reason)).toEqual(['curious', 'bored']);
+
+    run(fish, 1.5, () => ahead);
+    expect(fish.state).toBe(FishState.WANDER);
+    run(fish, 2, () => ahead);
+    expect(fish.state).toBe(FishState.CURIOUS);
+  });
+
+  it('loses interest as soon as the pointer leaves', () => {
+    const fish = new FishBehavior(options);
+    run(fish, 1, () => ahead);
+    expect(fish.state).toBe(FishState.CURIOUS);
+    run(fish, 0.05, () => null);
+    expect(fish.state).toBe(FishState.WANDER);
+  });
+
+  it('flees a pointer moving fast nearby, then calms down', () => {
+    const fish = new FishBehavior(options);
+    run(fish, 0.1, (t) => new THREE.Vector3(t * 20, 0, 2));
+    expect(fish.state).toBe(FishState.FLEE);
+    run(fish, 1, () => null);
+    expect(fish.state).toBe(FishState.WANDER);
+  });
+
+  it("doesn't flee a fast pointer that is far away", () => {
+    const fish = new FishBehavior(options);
+    run(fish, 0.5, (t) => new THREE.Vector3(t * 20, 0, 10));
+    expect(fish.state).toBe(FishState.WANDER);
+  });
+
+  it('sees the same pointer speed however many ticks a frame runs', () => {
+    // 10 units per second is below fleeSpeed; spread over one tick out of four it would read as 40
+    const fish = new FishBehavior(options);
+    run(fish, 1, (t) => new THREE.Vector3(t * 10, 0, 2), 4);
+    expect(fish.pointerVelocity.x).toBeCloseTo(10);
+    expect(fish.state).toBe(FishState.WANDER);
+  });
+
+  it("doesn't count a pointer that jumped while no time passed as moving", () => {
+    const fish = new FishBehavior(options);
+    fish.setPointer(new THREE.Vector3(0, 0, 2), 0.05);
+    fish.setPointer(new THREE.Vector3(5, 0, 2), 0);
+    expect(fish.pointerVelocity.length()).toBe(0);
+    fish.update(origin, swimming, 0.05);
+    expect(fish.state).toBe(FishState.WANDER);
+  });
+});
@@ -6,6 +6,8 @@ export enum FishState {
   EAT = "eat",
   REST = "rest",
   TALK = "talk",
+  CURIOUS = "curious",
+  FLEE = "flee",
 }
 
 export interface FishBehaviorOptions {
@@ -13,15 +15,100 @@ export interface FishBehaviorOptions {
   restDuration?: number;         // how long the fish remains in REST state (in seconds)
   eatDuration?: number;          // how long the eating animation lasts (in seconds)
   bounds?: { min: number; max: number }; // allowed X and Z range for targets
-  onEat?: () => void;           // callback triggered when the fish finishes eating
+  onEat?: (food: THREE.Vector3) => void; // callback triggered when the fish finishes eating
+  // Shared food (e.g. a school): whether a food target can still be eaten, and a claim made on arrival.
+  // A fish drops targets that are no longer available, and only starts eating once its claim succeeds.
+  isFoodAvailable?: (food: THREE.Vector3) => boolean;
+  claimFood?: (food: THREE.Vector3) => boolean;
+
+  // Metabolism. Both meters run from 0 to 1.
+  initialHunger?: number;
+  initialEnergy?: number;
+  hungerRate?: number;           // hunger gained per second
+  foodValue?: number;            // hunger removed by one food
+  energyDrainPerSpeed?: number;  // energy lost per second for each unit per second of swimming speed
+  energyRecoveryRate?: number;   // energy regained per second while resting
+  tiredThreshold?: number;       // below this energy a wandering fish stops for a rest
+  restedThreshold?: number;      // a rest lasts at least restDuration, and until energy is back above this
+  noticeRadius?: number;         // food within this distance is noticed by a fed fish
+  hungryNoticeRadius?: number;   // ...and within this distance by a starving one
+
+  // Curiosity about the pointer
+  visionRange?: number;          // how far ahead the fish sees the pointer
+  visionAngle?: number;          // full angle of the vision cone (in radians)
+  stillSpeed?: number;           // pointer speed (units per second) under which it counts as still
+  curiosityDelay?: number;       // how long the pointer must stay still in view before the fish gets CURIOUS (in seconds)
+  boredomTimeout?: number;       // how long the fish stays CURIOUS before losing interest (in seconds)
+  curiosityCooldown?: number;    // how long after getting bored before the fish can get curious again (in seconds)
+  comfortDistance?: number;      // distance a CURIOUS fish keeps from the pointer while circling it
+  fleeSpeed?: number;            // pointer speed (units per second) within visionRange that startles the fish
+  fleeDuration?: number;         // how long the fish keeps fleeing (in seconds)
 }
 
+export type FishTransitionReason =
+  | "food-spotted"   // a food target was set or taken from the queue
+  | "reached-food"   // arrived at the target and started eating
+  | "food-taken"     // the target was eaten or claimed by another fish
+  | "done-eating"    // finished eating, resting
+  | "tired"          // energy ran low while wandering
+  | "curious"        // the pointer hovered still in view
+  | "bored"          // lost interest in the pointer
+  | "startled"       // the pointer moved fast nearby
+  | "calmed"         // done fleeing
+  | "rested"         // finished resting
+  | "talk-start"
+  | "talk-stop"
+  | "reset"
+  | "forced"         // set explicitly through forceState (debugging)
+  | "restored";      // loaded from a snapshot
+
+export interface FishTransitionEvent {
+  from: FishState;
+  to: FishState;
+  reason: FishTransitionReason;
+  timestamp: number; // milliseconds since the epoch
+}
+
+export type FishTransitionListener = (event: FishTransitionEvent) => void;
+
+type Vec3Tuple = [number, number, number];
+
+/**
+ * Plain-JSON copy of everything needed to resume a FishBehavior exactly where it left off.
+ * Options (durations, callbacks) are not part of the snapshot and are passed in again on restore.
+ */
+export interface FishBehaviorSnapshot {
+  state: FishState;
+  timer: number;
+  target: Vec3Tuple | null;
+  targetQueue: Vec3Tuple[];
+  stationaryPosition: Vec3Tuple | null;
+  stationaryDirection: Vec3Tuple | null;
+  hunger: number;
+  energy: number;
+  curiosityTimer: number;
+}
+
+const toTuple = (v: THREE.Vector3 | null): Vec3Tuple | null => (v ? [v.x, v.y, v.z] : null);
+const fromTuple = (t: Vec3Tuple | null): THREE.Vector3 | null => (t ? new THREE.Vector3(t[0], t[1], t[2]) : null);
+
 export class FishBehavior {
-  public state: FishState;
   public target: THREE.Vector3 | null;
   public targetQueue: THREE.Vector3[];
   private options: FishBehaviorOptions;
   private timer: number;
+  private _state: FishState;
+  private listeners: Set<FishTransitionListener>;
+  private _hunger: number;
+  private _energy: number;
+  // Head position as of the last update, used to decide which food is close enough to notice
+  private lastPosition: THREE.Vector3 | null;
+
+  // Pointer on the ground plane as of the last sample (null when it is away) and its velocity
+  public pointer: THREE.Vector3 | null;
+  public pointerVelocity: THREE.Vector3;
+  // Time the pointer has been still in view; negative while cooling down after boredom
+  private curiosityTimer: number;
   
   // Single source of truth for stationary states (REST and TALK)
   public stationaryPosition: THREE.Vector3 | null;
@@ -37,28 +124,126 @@ export class FishBehavior {
       eatDuration: 1,
       bounds: { min: -10, max: 10 },
       onEat: undefined,
+      isFoodAvailable: undefined,
+      claimFood: undefined,
+      initialHunger: 0.5,
+      initialEnergy: 1,
+      hungerRate: 0.01,
+      foodValue: 0.35,
+      energyDrainPerSpeed: 0.01,
+      energyRecoveryRate: 0.1,
+      tiredThreshold: 0.2,
+      restedThreshold: 0.8,
+      noticeRadius: 6,
+      hungryNoticeRadius: 30,
+      visionRange: 6,
+      visionAngle: Math.PI * 2 / 3,
+      stillSpeed: 0.5,
+      curiosityDelay: 1,
+      boredomTimeout: 8,
+      curiosityCooldown: 5,
+      comfortDistance: 1.5,
+      fleeSpeed: 15,
+      fleeDuration: 1.5,
       ...options,
     };
-    this.state = FishState.WANDER;
+    this._state = FishState.WANDER;
     this.target = null;
     this.targetQueue = [];
     this.stationaryPosition = null;
     this.stationaryDirection = null;
     this.timer = 0;
+    this.listeners = new Set();
+    this._hunger = THREE.MathUtils.clamp(this.options.initialHunger!, 0, 1);
+    this._energy = THREE.MathUtils.clamp(this.options.initialEnergy!, 0, 1);
+    this.lastPosition = null;
+    this.pointer = null;
+    this.pointerVelocity = new THREE.Vector3();
+    this.curiosityTimer = 0;
     this._tempVec = new THREE.Vector3();
   }
 
+  public get state(): FishState {
+    return this._state;
+  }
+
+  public get hunger(): number {
+    return this._hunger;
+  }
+
+  public get energy(): number {
+    return this._energy;
+  }
+
+  /**
+   * Distance within which food is noticed; widens from noticeRadius to hungryNoticeRadius with hunger.
+   */
+  public getNoticeRadius(): number {
+    return THREE.MathUtils.lerp(this.options.noticeRadius!, this.options.hungryNoticeRadius!, this._hunger);
+  }
+
+  /**
+   * Subscribes to state transitions; returns an unsubscribe function.
+   * Listeners are only called when the state actually changes.
+   */
+  public on(listener: FishTransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Every state change goes through here so listeners see it; restarts the state timer.
+   */
+  private transition(to: FishState, reason: FishTransitionReason) {
+    const from = this._state;
+    this._state = to;
+    this.timer = 0;
+    if (from === to) return;
+    const event: FishTransitionEvent = { from, to, reason, timestamp: Date.now() };
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  // Distance a CURIOUS fish keeps from the pointer
+  public getComfortDistance(): number {
+    return this.options.comfortDistance!;
+  }
+
+  /**
+   * Reports where the pointer is on the ground plane, or null when it left, `deltaTime` seconds after
+   * the previous report. Call it once per rendered frame rather than per tick: the pointer only moves
+   * between frames, so ticks within a frame would otherwise see all of its movement on the first tick.
+   * With no time passed (e.g. while paused) the pointer jumps there without counting as movement.
+   */
+  public setPointer(position: THREE.Vector3 | null, deltaTime: number) {
+    if (!position) {
+      this.pointer = null;
+      this.pointerVelocity.set(0, 0, 0);
+    } else if (!this.pointer) {
+      this.pointer = position.clone();
+      this.pointerVelocity.set(0, 0, 0);
+    } else {
+      if (deltaTime > 0) {
+        this.pointerVelocity.subVectors(position, this.pointer).divideScalar(deltaTime);
+      } else {
+        this.pointerVelocity.set(0, 0, 0);
+      }
+      this.pointer.copy(position);
+    }
+  }
+
   /**
    * External method to set the food target.
    * Instead of overriding the current target if one exists, we queue additional food points.
+   * Food the fish hasn't noticed yet (too far away for how hungry it is) is queued as well.
    */
   public setFoodTarget(target: THREE.Vector3) {
     // If no current target, set it and transition (unless talking)
-    if (!this.target) {
+    if (!this.target && this.isNoticed(target)) {
       this.target = target.clone();
       if (this.state !== FishState.TALK) {
-        this.state = FishState.APPROACH;
-        this.timer = 0;
+        this.transition(FishState.APPROACH, "food-spotted");
       }
     } else {
       // Otherwise queue it
@@ -67,23 +252,51 @@ export class FishBehavior {
   }
 
   /**
-   * Call this on every frame.
+   * Call this on every simulation tick.
    * The update logic is:
+   * - Hunger grows over time; swimming drains energy in proportion to speed.
+   * - In WANDER, head for queued food once it is close enough to notice, or REST when energy runs low.
    * - In APPROACH, if the fish is near the target, switch to EAT.
-   * - In EAT, count elapsed time (allowing an eating animation to play), then call onEat and switch to REST.
-   * - In REST, wait a little (simulate a pause), then:
-   *   > If there is another food target queued, switch to APPROACH with that target.
+   * - In EAT, count elapsed time (allowing an eating animation to play), then call onEat, reduce hunger and switch to REST.
+   * - In REST, recover energy for at least restDuration and until rested, then:
+   *   > If there is another noticed food target queued, switch to APPROACH with that target.
    *   > Otherwise, return to WANDER.
+   * - A pointer that stays still in the vision cone makes a wandering fish CURIOUS until it gets bored;
+   *   a pointer moving fast nearby makes it FLEE for a while (except while eating or talking).
    */
   public update(headPosition: THREE.Vector3, velocity: THREE.Vector3, deltaTime: number) {
+    this.updateMeters(velocity, deltaTime);
+    if (this.lastPosition) {
+      this.lastPosition.copy(headPosition);
+    } else {
+      this.lastPosition = headPosition.clone();
+    }
+    this.updatePointer(headPosition, velocity, deltaTime);
+
+    if (this.isStartled(headPosition) && this.state !== FishState.FLEE &&
+        this.state !== FishState.EAT && this.state !== FishState.TALK) {
+      this.stationaryPosition = null;
+      this.stationaryDirection = null;
+      this.transition(FishState.FLEE, "startled");
+      return;
+    }
+
     switch (this.state) {
       case FishState.APPROACH:
         if (this.target) {
+          // Another fish got to the food first
+          if (!this.isAvailable(this.target)) {
+            this.approachNextTarget("food-taken");
+            break;
+          }
           // Reuse the temporary vector instead of creating a new one
           this._tempVec.copy(headPosition).sub(this.target);
           if (this._tempVec.length() < this.options.approachThreshold!) {
-            this.state = FishState.EAT;
-            this.timer = 0;
+            if (this.options.claimFood && !this.options.claimFood(this.target)) {
+              this.approachNextTarget("food-taken");
+            } else {
+              this.transition(FishState.EAT, "reached-food");
+            }
           }
         }
         break;
@@ -91,23 +304,49 @@ export class FishBehavior {
       case FishState.EAT:
         this.timer += deltaTime;
         if (this.timer >= this.options.eatDuration!) {
-          this.options.onEat?.();
-          this.enterStationaryState(FishState.REST, headPosition, velocity);
+          if (this.target) this.options.onEat?.(this.target);
+          this.target = null;
+          this._hunger = Math.max(0, this._hunger - this.options.foodValue!);
+          this.enterStationaryState(FishState.REST, headPosition, velocity, "done-eating");
         }
         break;
 
       case FishState.REST:
         this.timer += deltaTime;
-        if (this.timer >= this.options.restDuration!) {
-          this.exitStationaryState();
+        if (this.timer >= this.options.restDuration! && this._energy >= this.options.restedThreshold!) {
+          this.exitStationaryState("rested");
         }
         break;
 
       case FishState.WANDER:
-        if (!this.target && this.targetQueue.length > 0) {
-          this.target = this.targetQueue.shift()!;
-          this.state = FishState.APPROACH;
-          this.timer = 0;
+        if (!this.target && this.targetQueue.some((t) => this.isNoticed(t))) {
+          this.approachNextTarget("food-spotted");
+        } else if (this._energy < this.options.tiredThreshold!) {
+          this.enterStationaryState(FishState.REST, headPosition, velocity, "tired");
+        } else if (this.curiosityTimer >= this.options.curiosityDelay!) {
+          this.transition(FishState.CURIOUS, "curious");
+        }
+        break;
+
+      case FishState.CURIOUS:
+        this.timer += deltaTime;
+        if (this.targetQueue.some((t) => this.isNoticed(t))) {
+          this.approachNextTarget("food-spotted");
+        } else if (!this.pointer || this.timer >= this.options.boredomTimeout!) {
+          this.curiosityTimer = -this.options.curiosityCooldown!;
+          this.transition(FishState.WANDER, "bored");
+        }
+        break;
+
+      case FishState.FLEE:
+        this.timer += deltaTime;
+        if (this.timer >= this.options.fleeDuration!) {
+          this.curiosityTimer = Math.min(this.curiosityTimer, 0);
+          if (this.target && this.isAvailable(this.target)) {
+            this.transition(FishState.APPROACH, "calmed");
+          } else {
+            this.approachNextTarget("calmed");
+          }
         }
         break;
 
@@ -117,7 +356,12 @@ export class FishBehavior {
     }
   }
 
-  private enterStationaryState(state: FishState.REST | FishState.TALK, position: THREE.Vector3, velocity: THREE.Vector3) {
+  private enterStationaryState(
+    state: FishState.REST | FishState.TALK,
+    position: THREE.Vector3,
+    velocity: THREE.Vector3,
+    reason: FishTransitionReason
+  ) {
     this.stationaryPosition = position.clone();
     
     // Set direction, preferring current velocity if significant
@@ -131,32 +375,89 @@ export class FishBehavior {
       this.stationaryDirection = new THREE.Vector3(0, 0, 1);
     }
     
-    this.state = state;
-    this.timer = 0;
+    this.transition(state, reason);
   }
 
-  private exitStationaryState() {
-    if (this.targetQueue.length > 0) {
-      this.target = this.targetQueue.shift()!;
-      this.state = FishState.APPROACH;
-    } else {
-      this.state = FishState.WANDER;
-      this.target = null;
-    }
+  private exitStationaryState(reason: FishTransitionReason) {
     this.stationaryPosition = null;
     this.stationaryDirection = null;
-    this.timer = 0;
+    // A target set while talking is still pending; otherwise take the next queued one
+    if (this.target && this.isAvailable(this.target)) {
+      this.transition(FishState.APPROACH, reason);
+    } else {
+      this.approachNextTarget(reason);
+    }
+  }
+
+  private updateMeters(velocity: THREE.Vector3, deltaTime: number) {
+    this._hunger = Math.min(1, this._hunger + this.options.hungerRate! * deltaTime);
+    if (this.state === FishState.REST) {
+      this._energy = Math.min(1, this._energy + this.options.energyRecoveryRate! * deltaTime);
+    } else {
+      this._energy = Math.max(0, this._energy - velocity.length() * this.options.energyDrainPerSpeed! * deltaTime);
+    }
+  }
+
+  /**
+   * Advances the curiosity timer while the pointer stays still in view.
+   */
+  private updatePointer(headPosition: THREE.Vector3, velocity: THREE.Vector3, deltaTime: number) {
+    if (this.curiosityTimer < 0) {
+      this.curiosityTimer = Math.min(0, this.curiosityTimer + deltaTime);
+    } else if (this.pointer && this.pointerVelocity.length() < this.options.stillSpeed! &&
+               this.isInView(this.pointer, headPosition, velocity)) {
+      this.curiosityTimer += deltaTime;
+    } else {
+      this.curiosityTimer = 0;
+    }
+  }
+
+  private isInView(point: THREE.Vector3, headPosition: THREE.Vector3, velocity: THREE.Vector3): boolean {
+    this._tempVec.subVectors(point, headPosition).setY(0);
+    const dist = this._tempVec.length();
+    if (dist > this.options.visionRange!) return false;
+    // Still fish have no heading to look along; anything in range counts
+    if (dist < 1e-6 || velocity.lengthSq() < 1e-6) return true;
+    const forward = velocity.clone().setY(0);
+    if (forward.lengthSq() < 1e-12) return true;
+    return forward.angleTo(this._tempVec) <= this.options.visionAngle! / 2;
+  }
+
+  private isStartled(headPosition: THREE.Vector3): boolean {
+    return !!this.pointer &&
+      this.pointerVelocity.length() > this.options.fleeSpeed! &&
+      this.pointer.distanceTo(headPosition) < this.options.visionRange!;
+  }
+
+  private isAvailable(food: THREE.Vector3): boolean {
+    return this.options.isFoodAvailable ? this.options.isFoodAvailable(food) : true;
+  }
+
+  // Before the first update the fish's position is unknown, so all food counts as noticed
+  private isNoticed(food: THREE.Vector3): boolean {
+    return !this.lastPosition || this.lastPosition.distanceTo(food) <= this.getNoticeRadius();
+  }
+
+  /**
+   * Moves on to the next queued food that is still available and noticed, or back to WANDER if there is none.
+   * Food that is gone is dropped from the queue; food that hasn't been noticed yet stays queued.
+   */
+  private approachNextTarget(reason: FishTransitionReason) {
+    this.targetQueue = this.targetQueue.filter((t) => this.isAvailable(t));
+    const next = this.targetQueue.findIndex((t) => this.isNoticed(t));
+    this.target = next >= 0 ? this.targetQueue.splice(next, 1)[0] : null;
+    this.transition(this.target ? FishState.APPROACH : FishState.WANDER, reason);
   }
 
   public startTalking(position: THREE.Vector3, velocity: THREE.Vector3) {
     if (this.state !== FishState.TALK) {
-      this.enterStationaryState(FishState.TALK, position, velocity);
+      this.enterStationaryState(FishState.TALK, position, velocity, "talk-start");
     }
   }
 
   public stopTalking() {
     if (this.state === FishState.TALK) {
-      this.exitStationaryState();
+      this.exitStationaryState("talk-stop");
     }
   }
 
@@ -165,8 +466,67 @@ export class FishBehavior {
     this.targetQueue = [];
     this.stationaryPosition = null;
     this.stationaryDirection = null;
-    this.state = FishState.WANDER;
-    this.timer = 0;
+    this.transition(FishState.WANDER, "reset");
+  }
+
+  /**
+   * Jumps straight to a state, bypassing the usual triggers. Meant for debugging tools.
+   * REST and TALK hold the fish at `position` (its last known position by default) facing along `velocity`.
+   * APPROACH needs a food target; without one queued or set the fish stays where it is.
+   */
+  public forceState(state: FishState, position?: THREE.Vector3, velocity?: THREE.Vector3) {
+    if (state === FishState.REST || state === FishState.TALK) {
+      this.enterStationaryState(
+        state,
+        position ?? this.lastPosition ?? new THREE.Vector3(),
+        velocity ?? new THREE.Vector3(),
+        "forced"
+      );
+      return;
+    }
+    if (state === FishState.APPROACH && !this.target) {
+      const next = this.targetQueue.findIndex((t) => this.isAvailable(t));
+      if (next < 0) return;
+      this.target = this.targetQueue.splice(next, 1)[0];
+    }
+    this.stationaryPosition = null;
+    this.stationaryDirection = null;
+    this.transition(state, "forced");
+  }
+
+  public toJSON(): FishBehaviorSnapshot {
+    return {
+      state: this._state,
+      timer: this.timer,
+      target: toTuple(this.target),
+      targetQueue: this.targetQueue.map((t) => toTuple(t)!),
+      stationaryPosition: toTuple(this.stationaryPosition),
+      stationaryDirection: toTuple(this.stationaryDirection),
+      hunger: this._hunger,
+      energy: this._energy,
+      curiosityTimer: this.curiosityTimer,
+    };
+  }
+
+  /**
+   * Restores a snapshot taken with toJSON(). Listeners are notified if the state changes.
+   */
+  public restore(snapshot: FishBehaviorSnapshot) {
+    this.target = fromTuple(snapshot.target);
+    this.targetQueue = snapshot.targetQueue.map((t) => fromTuple(t)!);
+    this.stationaryPosition = fromTuple(snapshot.stationaryPosition);
+    this.stationaryDirection = fromTuple(snapshot.stationaryDirection);
+    this._hunger = snapshot.hunger;
+    this._energy = snapshot.energy;
+    this.curiosityTimer = snapshot.curiosityTimer;
+    this.transition(snapshot.state, "restored");
+    this.timer = snapshot.timer;
+  }
+
+  public static fromJSON(snapshot: FishBehaviorSnapshot, options?: FishBehaviorOptions): FishBehavior {
+    const behavior = new FishBehavior(options);
+    behavior.restore(snapshot);
+    return behavior;
   }
 
   // Helper to check if we're in a stationary state
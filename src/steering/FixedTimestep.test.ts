@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { FixedTimestep, dampFactor } from './FixedTimestep';
+
+describe('FixedTimestep', () => {
+  it('runs one tick per whole step and carries the remainder', () => {
+    const timestep = new FixedTimestep({ step: 0.25 });
+    const ticks: number[] = [];
+    const alpha = timestep.advance(0.625, (dt) => ticks.push(dt));
+    expect(ticks).toEqual([0.25, 0.25]);
+    expect(alpha).toBe(0.5);
+
+    timestep.advance(0.125, (dt) => ticks.push(dt));
+    expect(ticks).toHaveLength(3);
+  });
+
+  it('ticks the same number of times whatever the frame rate', () => {
+    const count = (fps: number) => {
+      const timestep = new FixedTimestep();
+      let ticks = 0;
+      for (let frame = 0; frame < fps; frame++) timestep.advance(1 / fps, () => ticks++);
+      return ticks;
+    };
+    expect(Math.abs(count(30) - count(144))).toBeLessThanOrEqual(1);
+  });
+
+  it('drops the backlog after a stall instead of catching up', () => {
+    const timestep = new FixedTimestep({ step: 0.1, maxSubSteps: 3 });
+    let ticks = 0;
+    const alpha = timestep.advance(10, () => ticks++);
+    expect(ticks).toBe(3);
+    expect(alpha).toBeLessThan(1);
+  });
+
+  it('ignores negative deltas', () => {
+    const timestep = new FixedTimestep({ step: 0.1 });
+    let ticks = 0;
+    expect(timestep.advance(-1, () => ticks++)).toBe(0);
+    expect(ticks).toBe(0);
+  });
+});
+
+describe('dampFactor', () => {
+  it('compounds to the same result however the time is split', () => {
+    const once = dampFactor(5, 0.2);
+    const half = dampFactor(5, 0.1);
+    expect(1 - (1 - half) * (1 - half)).toBeCloseTo(once);
+  });
+});
@@ -0,0 +1,61 @@
+export interface FixedTimestepOptions {
+  step?: number;        // length of one simulation tick (in seconds)
+  maxSubSteps?: number; // most ticks run per frame; any time beyond that is dropped
+}
+
+/**
+ * Fixed-timestep accumulator ("Fix Your Timestep!").
+ *
+ * Frame deltas are accumulated and the simulation is advanced in whole ticks of `step` seconds,
+ * so it behaves the same at 30, 60 or 144 Hz. `advance` returns how far the accumulator sits
+ * between the last two ticks, which the renderer uses to interpolate between simulated states.
+ */
+export class FixedTimestep {
+  public readonly step: number;
+  private maxSubSteps: number;
+  private accumulator: number;
+
+  constructor(options?: FixedTimestepOptions) {
+    const { step, maxSubSteps } = {
+      step: 1 / 60,
+      maxSubSteps: 8,
+      ...options,
+    };
+    this.step = step;
+    this.maxSubSteps = maxSubSteps;
+    this.accumulator = 0;
+  }
+
+  /**
+   * Accumulates `delta` seconds and calls `tick(step)` once per whole step.
+   * Returns the interpolation factor in [0, 1) between the previous and the current tick.
+   */
+  public advance(delta: number, tick: (dt: number) => void): number {
+    this.accumulator += Math.max(0, delta);
+
+    let steps = 0;
+    while (this.accumulator >= this.step && steps < this.maxSubSteps) {
+      tick(this.step);
+      this.accumulator -= this.step;
+      steps++;
+    }
+
+    // Spiral of death guard: after a long stall (e.g. a background tab) drop the backlog
+    if (steps === this.maxSubSteps && this.accumulator >= this.step) {
+      this.accumulator %= this.step;
+    }
+
+    return this.accumulator / this.step;
+  }
+
+  public reset() {
+    this.accumulator = 0;
+  }
+}
+
+/**
+ * Frame-rate independent lerp factor for exponential smoothing at `lambda` per second.
+ */
+export function dampFactor(lambda: number, dt: number): number {
+  return 1 - Math.exp(-lambda * dt);
+}
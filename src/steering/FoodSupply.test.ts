@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { describe, expect, it, vi } from 'vitest';
+import { FishBehavior, FishState } from './FishBehavior';
+import { FoodSupply, FoodSupplyEvent } from './FoodSupply';
+
+describe('FoodSupply', () => {
+  it('keeps its own copy of the position and matches pellets by value', () => {
+    const food = new FoodSupply();
+    const position = new THREE.Vector3(1, 0, 2);
+    food.add(position);
+    position.set(9, 9, 9);
+
+    expect(food.isAvailable(new THREE.Vector3(1, 0, 2))).toBe(true);
+    expect(food.isAvailable(position)).toBe(false);
+  });
+
+  it('lets only the first claim on a pellet succeed', () => {
+    const food = new FoodSupply();
+    const { position } = food.add(new THREE.Vector3(1, 0, 2));
+
+    expect(food.claim(position)).toBe(true);
+    expect(food.claim(position)).toBe(false);
+    expect(food.isAvailable(position)).toBe(false);
+  });
+
+  it('cannot claim a pellet that was removed', () => {
+    const food = new FoodSupply();
+    const { position } = food.add(new THREE.Vector3(1, 0, 2));
+    food.remove(position);
+
+    expect(food.claim(position)).toBe(false);
+    expect(food.getPellets()).toHaveLength(0);
+  });
+
+  it('tells subscribers about every change until they unsubscribe', () => {
+    const food = new FoodSupply();
+    const events: FoodSupplyEvent['type'][] = [];
+    const unsubscribe = food.subscribe((event) => events.push(event.type));
+
+    const { position } = food.add(new THREE.Vector3());
+    food.claim(position);
+    food.remove(position);
+    food.add(new THREE.Vector3(1, 0, 0));
+    food.clear();
+    unsubscribe();
+    food.add(new THREE.Vector3(2, 0, 0));
+
+    expect(events).toEqual(['added', 'claimed', 'removed', 'added', 'removed']);
+  });
+
+  it('has each pellet eaten by exactly one fish of a school', () => {
+    const food = new FoodSupply();
+    const onEat = vi.fn((eaten: THREE.Vector3) => food.remove(eaten));
+    const school = [0, 1, 2].map(() => new FishBehavior({
+      eatDuration: 0.1,
+      onEat,
+      isFoodAvailable: (target) => food.isAvailable(target),
+      claimFood: (target) => food.claim(target),
+    }));
+    const pellet = food.add(new THREE.Vector3(0, 0, 0));
+    school.forEach((fish) => fish.setFoodTarget(pellet.position));
+
+    // Every fish arrives on the same tick
+    const still = new THREE.Vector3();
+    for (let tick = 0; tick < 10; tick++) {
+      school.forEach((fish) => fish.update(new THREE.Vector3(0.1, 0, 0), still, 0.05));
+    }
+
+    expect(onEat).toHaveBeenCalledTimes(1);
+    expect(food.getPellets()).toHaveLength(0);
+    expect(school.filter((fish) => fish.state === FishState.REST)).toHaveLength(1);
+    expect(school.filter((fish) => fish.state === FishState.WANDER)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,94 @@
+import * as THREE from 'three'
+
+export interface FoodPellet {
+  id: number;
+  position: THREE.Vector3;
+  claimed: boolean;  // a fish has reached the pellet and is eating it
+}
+
+export type FoodSupplyEvent =
+  | { type: 'added'; pellet: FoodPellet }
+  | { type: 'claimed'; pellet: FoodPellet }
+  | { type: 'removed'; pellet: FoodPellet };
+
+export type FoodSupplyListener = (event: FoodSupplyEvent) => void;
+
+/**
+ * Food shared by a school of fish.
+ *
+ * Every fish is told about every pellet, but only the first one to reach a pellet can claim it,
+ * so each pellet is eaten exactly once. Pellets are looked up by position: FishBehavior keeps
+ * exact copies of the positions it was given, so `equals` is enough to match them.
+ */
+export class FoodSupply {
+  private pellets: FoodPellet[];
+  private listeners: Set<FoodSupplyListener>;
+  private nextId: number;
+
+  constructor() {
+    this.pellets = [];
+    this.listeners = new Set();
+    this.nextId = 1;
+  }
+
+  public getPellets(): readonly FoodPellet[] {
+    return this.pellets;
+  }
+
+  public add(position: THREE.Vector3): FoodPellet {
+    const pellet: FoodPellet = { id: this.nextId++, position: position.clone(), claimed: false };
+    this.pellets.push(pellet);
+    this.emit({ type: 'added', pellet });
+    return pellet;
+  }
+
+  /**
+   * Whether the pellet at `position` still exists and nobody has started eating it.
+   */
+  public isAvailable(position: THREE.Vector3): boolean {
+    const pellet = this.find(position);
+    return !!pellet && !pellet.claimed;
+  }
+
+  /**
+   * Claims the pellet at `position` for the caller. Returns false if it is gone or already claimed.
+   */
+  public claim(position: THREE.Vector3): boolean {
+    const pellet = this.find(position);
+    if (!pellet || pellet.claimed) return false;
+    pellet.claimed = true;
+    this.emit({ type: 'claimed', pellet });
+    return true;
+  }
+
+  public remove(position: THREE.Vector3) {
+    const pellet = this.find(position);
+    if (!pellet) return;
+    this.pellets = this.pellets.filter((p) => p !== pellet);
+    this.emit({ type: 'removed', pellet });
+  }
+
+  public clear() {
+    const removed = this.pellets;
+    this.pellets = [];
+    removed.forEach((pellet) => this.emit({ type: 'removed', pellet }));
+  }
+
+  /**
+   * Subscribes to pellet changes; returns an unsubscribe function.
+   */
+  public subscribe(listener: FoodSupplyListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private find(position: THREE.Vector3): FoodPellet | undefined {
+    return this.pellets.find((p) => p.position.equals(position));
+  }
+
+  private emit(event: FoodSupplyEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,66 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { SpatialHash } from './SpatialHash';
+
+const item = (x: number, z: number) => ({ position: new THREE.Vector3(x, 0, z) });
+
+describe('SpatialHash', () => {
+  it('finds items within the radius across cell boundaries', () => {
+    const hash = new SpatialHash(2);
+    const near = item(1.9, 0);
+    const acrossCell = item(2.1, 0);
+    const negative = item(-0.2, -0.2);
+    const far = item(10, 0);
+    [near, acrossCell, negative, far].forEach((i) => hash.update(i));
+
+    const found = hash.query(new THREE.Vector3(1, 0, 0), 1.5);
+
+    expect(found).toHaveLength(3);
+    expect(found).toEqual(expect.arrayContaining([near, acrossCell, negative]));
+  });
+
+  it('measures distance on the XZ plane only', () => {
+    const hash = new SpatialHash();
+    const above = { position: new THREE.Vector3(0, 50, 0) };
+    hash.update(above);
+    expect(hash.query(new THREE.Vector3(), 1)).toEqual([above]);
+  });
+
+  it('skips the excluded item and reuses `out`', () => {
+    const hash = new SpatialHash();
+    const self = item(0, 0);
+    const other = item(0.5, 0);
+    hash.update(self);
+    hash.update(other);
+    const out = [self, self, self];
+
+    expect(hash.query(self.position, 1, out, self)).toBe(out);
+    expect(out).toEqual([other]);
+  });
+
+  it('re-buckets an item that moved', () => {
+    const hash = new SpatialHash(2);
+    const fish = item(0, 0);
+    hash.update(fish);
+    fish.position.set(20, 0, 20);
+    hash.update(fish);
+
+    expect(hash.size).toBe(1);
+    expect(hash.query(new THREE.Vector3(), 1)).toEqual([]);
+    expect(hash.query(new THREE.Vector3(20, 0, 20), 1)).toEqual([fish]);
+  });
+
+  it('forgets removed and cleared items', () => {
+    const hash = new SpatialHash();
+    const a = item(0, 0);
+    const b = item(0.5, 0);
+    hash.update(a);
+    hash.update(b);
+    hash.remove(a);
+    expect(hash.query(new THREE.Vector3(), 1)).toEqual([b]);
+
+    hash.clear();
+    expect(hash.size).toBe(0);
+    expect(hash.query(new THREE.Vector3(), 1)).toEqual([]);
+  });
+});
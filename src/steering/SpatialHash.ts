@@ -0,0 +1,101 @@
+import * as THREE from 'three'
+
+export interface SpatialItem {
+  position: THREE.Vector3;
+}
+
+/**
+ * Uniform grid over the XZ plane for neighbor queries.
+ *
+ * Items are stored by reference and keep their own position; call `update` after an item
+ * moves so it is re-bucketed. Queries only visit the cells overlapping the search radius,
+ * so a school of N fish costs roughly O(N) per tick instead of O(N²).
+ */
+export class SpatialHash<T extends SpatialItem> {
+  public readonly cellSize: number;
+  private cells: Map<string, Set<T>>;
+  private itemCells: Map<T, string>;
+
+  constructor(cellSize = 2) {
+    this.cellSize = cellSize;
+    this.cells = new Map();
+    this.itemCells = new Map();
+  }
+
+  public get size(): number {
+    return this.itemCells.size;
+  }
+
+  /**
+   * Inserts an item, or re-buckets it if it is already indexed.
+   */
+  public update(item: T) {
+    const key = this.keyFor(item.position.x, item.position.z);
+    const previous = this.itemCells.get(item);
+    if (previous === key) return;
+    if (previous !== undefined) {
+      this.removeFromCell(previous, item);
+    }
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = new Set();
+      this.cells.set(key, cell);
+    }
+    cell.add(item);
+    this.itemCells.set(item, key);
+  }
+
+  public remove(item: T) {
+    const key = this.itemCells.get(item);
+    if (key === undefined) return;
+    this.removeFromCell(key, item);
+    this.itemCells.delete(item);
+  }
+
+  public clear() {
+    this.cells.clear();
+    this.itemCells.clear();
+  }
+
+  /**
+   * Collects every item within `radius` of `position` (on the XZ plane) into `out`,
+   * skipping `exclude` so an agent can query its own neighbors.
+   */
+  public query(position: THREE.Vector3, radius: number, out: T[] = [], exclude?: T): T[] {
+    out.length = 0;
+    const radiusSq = radius * radius;
+    const minX = Math.floor((position.x - radius) / this.cellSize);
+    const maxX = Math.floor((position.x + radius) / this.cellSize);
+    const minZ = Math.floor((position.z - radius) / this.cellSize);
+    const maxZ = Math.floor((position.z + radius) / this.cellSize);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cz = minZ; cz <= maxZ; cz++) {
+        const cell = this.cells.get(`${cx},${cz}`);
+        if (!cell) continue;
+        for (const item of cell) {
+          if (item === exclude) continue;
+          const dx = item.position.x - position.x;
+          const dz = item.position.z - position.z;
+          if (dx * dx + dz * dz <= radiusSq) {
+            out.push(item);
+          }
+        }
+      }
+    }
+    return out;
+  }
+
+  private keyFor(x: number, z: number): string {
+    return `${Math.floor(x / this.cellSize)},${Math.floor(z / this.cellSize)}`;
+  }
+
+  private removeFromCell(key: string, item: T) {
+    const cell = this.cells.get(key);
+    if (!cell) return;
+    cell.delete(item);
+    if (cell.size === 0) {
+      this.cells.delete(key);
+    }
+  }
+}
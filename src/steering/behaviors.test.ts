@@ -0,0 +1,54 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { applySteering, containment, desiredArrive, flee, heading, isOutOfBounds, seek } from './behaviors';
+
+const params = { maxSpeed: 2, maxSteerForce: 0.5 };
+
+describe('steering behaviors', () => {
+  it('seeks towards the target with a force clamped to maxSteerForce', () => {
+    const force = seek(new THREE.Vector3(), new THREE.Vector3(10, 0, 0), new THREE.Vector3(), params);
+    expect(force.x).toBeGreaterThan(0);
+    expect(force.length()).toBeCloseTo(params.maxSteerForce);
+  });
+
+  it('flees away from the threat', () => {
+    const force = flee(new THREE.Vector3(), new THREE.Vector3(10, 0, 0), new THREE.Vector3(), params);
+    expect(force.x).toBeLessThan(0);
+  });
+
+  it('slows down inside the slowing radius and stops on the target', () => {
+    const arrive = { ...params, slowingRadius: 4 };
+    const far = desiredArrive(new THREE.Vector3(), new THREE.Vector3(10, 0, 0), arrive);
+    const near = desiredArrive(new THREE.Vector3(), new THREE.Vector3(1, 0, 0), arrive);
+    expect(far.length()).toBeCloseTo(2);
+    expect(near.length()).toBeCloseTo(0.5);
+    expect(desiredArrive(new THREE.Vector3(), new THREE.Vector3(), arrive).length()).toBe(0);
+  });
+
+  it('writes into `out` when one is given', () => {
+    const out = new THREE.Vector3();
+    expect(seek(new THREE.Vector3(), new THREE.Vector3(1, 0, 0), new THREE.Vector3(), params, out)).toBe(out);
+  });
+
+  it('heads +Z when still and along the velocity on the XZ plane otherwise', () => {
+    expect(heading(new THREE.Vector3()).toArray()).toEqual([0, 0, 1]);
+    const h = heading(new THREE.Vector3(3, 5, 0));
+    expect(h.x).toBeCloseTo(1);
+    expect(h.y).toBe(0);
+  });
+
+  it('only steers back once the agent looks out of bounds', () => {
+    const bounds = { min: -10, max: 10 };
+    const contain = { ...params, bounds, boundaryBuffer: 1, visionDistance: 2 };
+    const inside = containment(new THREE.Vector3(), new THREE.Vector3(1, 0, 0), contain);
+    expect(inside.length()).toBe(0);
+    const edge = containment(new THREE.Vector3(8, 0, 0), new THREE.Vector3(1, 0, 0), contain);
+    expect(edge.x).toBeLessThan(0);
+    expect(isOutOfBounds(new THREE.Vector3(0, 0, 11), bounds)).toBe(true);
+  });
+
+  it('clamps the integrated velocity to maxSpeed', () => {
+    const velocity = applySteering(new THREE.Vector3(1.8, 0, 0), new THREE.Vector3(1, 0, 0), 2);
+    expect(velocity.length()).toBeCloseTo(2);
+  });
+});
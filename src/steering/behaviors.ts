@@ -0,0 +1,386 @@
+import * as THREE from 'three'
+
+/**
+ * Framework-free steering behaviors (after Reynolds, "Steering Behaviors For Autonomous Characters").
+ *
+ * Every behavior takes plain vectors and parameters and returns a steering force, written into
+ * `out` when one is given so callers can reuse vectors across frames. Forces are expressed in the
+ * same units as velocity and are already clamped to `maxSteerForce`; combine them with
+ * `applySteering` to integrate them into a velocity over a timestep.
+ */
+
+export interface Bounds {
+  min: number;
+  max: number;
+}
+
+export interface SteeringParams {
+  maxSpeed: number;       // upper bound on the desired velocity
+  maxSteerForce: number;  // upper bound on the returned steering force
+}
+
+export interface ArriveParams extends SteeringParams {
+  slowingRadius: number;  // distance from the target at which the agent starts to slow down
+}
+
+export interface ContainmentParams extends SteeringParams {
+  bounds: Bounds;          // allowed X and Z range
+  boundaryBuffer: number;  // distance inside the bounds at which the agent starts turning back
+  visionDistance: number;  // how far ahead of the agent the bounds are probed
+  center?: THREE.Vector3;  // point the agent is steered towards when it looks out of bounds
+}
+
+export interface WanderParams extends ArriveParams, ContainmentParams {
+  forwardDistance: number;   // distance ahead of the agent of the wander circle's center
+  radius: number;            // radius of the wander circle
+  updateInterval: number;    // time between picking new wander targets
+  arrivalThreshold: number;  // distance under which the current wander target counts as reached
+}
+
+export interface WanderState {
+  target: THREE.Vector3;  // current wander target
+  lastUpdate: number;     // time at which the target was last picked
+}
+
+const ORIGIN = new THREE.Vector3()
+
+// Scratch vectors; every public function finishes using them before returning
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+
+export function createWanderState(position?: THREE.Vector3): WanderState {
+  return {
+    target: position ? position.clone() : new THREE.Vector3(),
+    lastUpdate: 0,
+  };
+}
+
+/**
+ * Unit heading on the XZ plane derived from a velocity, or +Z when the agent is (almost) still.
+ */
+export function heading(velocity: THREE.Vector3, out = new THREE.Vector3()): THREE.Vector3 {
+  if (velocity.lengthSq() > 1e-6) {
+    out.copy(velocity).setY(0);
+    if (out.lengthSq() > 1e-12) return out.normalize();
+  }
+  return out.set(0, 0, 1);
+}
+
+/**
+ * Turns a desired velocity into a steering force: `desired - velocity`, clamped to `maxSteerForce`.
+ */
+export function steerTowards(
+  desired: THREE.Vector3,
+  velocity: THREE.Vector3,
+  maxSteerForce: number,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  return out.subVectors(desired, velocity).clampLength(0, maxSteerForce);
+}
+
+/**
+ * Desired velocity towards `target`, scaled down linearly inside `slowingRadius`.
+ */
+export function desiredArrive(
+  position: THREE.Vector3,
+  target: THREE.Vector3,
+  params: ArriveParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  out.subVectors(target, position);
+  const dist = out.length();
+  if (dist < 1e-6) return out.set(0, 0, 0);
+  out.divideScalar(dist);
+  if (dist < params.slowingRadius) {
+    return out.multiplyScalar(params.maxSpeed * (dist / params.slowingRadius));
+  }
+  return out.multiplyScalar(params.maxSpeed);
+}
+
+export function seek(
+  position: THREE.Vector3,
+  target: THREE.Vector3,
+  velocity: THREE.Vector3,
+  params: SteeringParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  _a.subVectors(target, position).setLength(params.maxSpeed);
+  return steerTowards(_a, velocity, params.maxSteerForce, out);
+}
+
+export function flee(
+  position: THREE.Vector3,
+  threat: THREE.Vector3,
+  velocity: THREE.Vector3,
+  params: SteeringParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  _a.subVectors(position, threat).setLength(params.maxSpeed);
+  return steerTowards(_a, velocity, params.maxSteerForce, out);
+}
+
+export function arrive(
+  position: THREE.Vector3,
+  target: THREE.Vector3,
+  velocity: THREE.Vector3,
+  params: ArriveParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  desiredArrive(position, target, params, _a);
+  return steerTowards(_a, velocity, params.maxSteerForce, out);
+}
+
+/**
+ * Where a moving target will be once the agent could reach it at full speed.
+ */
+export function predictPosition(
+  position: THREE.Vector3,
+  targetPosition: THREE.Vector3,
+  targetVelocity: THREE.Vector3,
+  maxSpeed: number,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  const lookAhead = maxSpeed > 0 ? position.distanceTo(targetPosition) / maxSpeed : 0;
+  return out.copy(targetPosition).addScaledVector(targetVelocity, lookAhead);
+}
+
+export function pursue(
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  targetPosition: THREE.Vector3,
+  targetVelocity: THREE.Vector3,
+  params: SteeringParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  predictPosition(position, targetPosition, targetVelocity, params.maxSpeed, _b);
+  return seek(position, _b, velocity, params, out);
+}
+
+export function evade(
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  threatPosition: THREE.Vector3,
+  threatVelocity: THREE.Vector3,
+  params: SteeringParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  predictPosition(position, threatPosition, threatVelocity, params.maxSpeed, _b);
+  return flee(position, _b, velocity, params, out);
+}
+
+export interface OrbitParams extends SteeringParams {
+  radius: number;      // distance kept from the center
+  orbitSpeed: number;  // tangential speed once on the circle
+  clockwise?: boolean;
+}
+
+/**
+ * Approaches `center` until `radius` away from it, then circles it at `orbitSpeed`.
+ */
+export function orbit(
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  center: THREE.Vector3,
+  params: OrbitParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  _a.subVectors(center, position).setY(0);
+  const dist = _a.length();
+  if (dist < 1e-6) return flee(position, center, velocity, params, out);
+  _a.divideScalar(dist);
+  const sign = params.clockwise ? -1 : 1;
+  _b.set(-_a.z * sign, 0, _a.x * sign).multiplyScalar(params.orbitSpeed);
+  _b.addScaledVector(_a, dist - params.radius).clampLength(0, params.maxSpeed);
+  return steerTowards(_b, velocity, params.maxSteerForce, out);
+}
+
+export function isOutOfBounds(point: THREE.Vector3, bounds: Bounds, inset = 0): boolean {
+  return point.x < bounds.min + inset ||
+         point.x > bounds.max - inset ||
+         point.z < bounds.min + inset ||
+         point.z > bounds.max - inset;
+}
+
+export function clampToBounds(point: THREE.Vector3, bounds: Bounds): THREE.Vector3 {
+  point.x = THREE.MathUtils.clamp(point.x, bounds.min, bounds.max);
+  point.z = THREE.MathUtils.clamp(point.z, bounds.min, bounds.max);
+  return point;
+}
+
+/**
+ * Point `visionDistance` ahead of the agent, used to probe the bounds before reaching them.
+ */
+export function visionPoint(
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  visionDistance: number,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  heading(velocity, _a);
+  return out.copy(position).addScaledVector(_a, visionDistance);
+}
+
+/**
+ * Steers back towards the center once the vision point leaves the buffered bounds; zero otherwise.
+ */
+export function containment(
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  params: ContainmentParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  visionPoint(position, velocity, params.visionDistance, _b);
+  if (!isOutOfBounds(_b, params.bounds, params.boundaryBuffer)) return out.set(0, 0, 0);
+  return seek(position, params.center ?? ORIGIN, velocity, params, out);
+}
+
+/**
+ * Wander-circle steering. A new target is picked on a circle `forwardDistance` ahead of the agent
+ * (or towards the center when the agent looks out of bounds) whenever the interval elapses, the
+ * current target is reached, or it falls out of bounds. The agent then arrives at that target.
+ * `state` is updated in place; `random` can be swapped for a seeded generator.
+ */
+export function wander(
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  state: WanderState,
+  params: WanderParams,
+  time: number,
+  out = new THREE.Vector3(),
+  random: () => number = Math.random
+): THREE.Vector3 {
+  visionPoint(position, velocity, params.visionDistance, _b);
+  const isVisionOut = isOutOfBounds(_b, params.bounds, params.boundaryBuffer);
+  const isTargetOut = isOutOfBounds(state.target, params.bounds);
+  const shouldUpdate = (time - state.lastUpdate > params.updateInterval) ||
+                       (position.distanceTo(state.target) < params.arrivalThreshold) ||
+                       isTargetOut ||
+                       isVisionOut;
+
+  if (shouldUpdate) {
+    if (isVisionOut) {
+      _a.subVectors(params.center ?? ORIGIN, position).normalize();
+    } else {
+      heading(velocity, _a);
+    }
+    const angle = random() * Math.PI * 2;
+    const offsetLen = random() * params.radius;
+    state.target
+      .copy(position)
+      .addScaledVector(_a, params.forwardDistance)
+      .add(_b.set(Math.cos(angle), 0, Math.sin(angle)).multiplyScalar(offsetLen));
+    clampToBounds(state.target, params.bounds);
+    state.target.y = 0;
+    state.lastUpdate = time;
+  }
+
+  return arrive(position, state.target, velocity, params, out);
+}
+
+export interface Neighbor {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+}
+
+export interface FlockParams extends SteeringParams {
+  separationRadius: number;  // neighbors closer than this push the agent away
+  separationWeight: number;
+  alignmentWeight: number;
+  cohesionWeight: number;
+}
+
+/**
+ * Steers away from neighbors closer than `radius`, weighted by inverse square distance.
+ */
+export function separation(
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  neighbors: readonly Neighbor[],
+  radius: number,
+  params: SteeringParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  _a.set(0, 0, 0);
+  let count = 0;
+  for (const neighbor of neighbors) {
+    _b.subVectors(position, neighbor.position).setY(0);
+    const distSq = _b.lengthSq();
+    if (distSq < 1e-8 || distSq > radius * radius) continue;
+    _a.addScaledVector(_b, 1 / distSq);
+    count++;
+  }
+  if (count === 0) return out.set(0, 0, 0);
+  _a.setLength(params.maxSpeed);
+  return steerTowards(_a, velocity, params.maxSteerForce, out);
+}
+
+/**
+ * Steers towards the average heading of the neighbors.
+ */
+export function alignment(
+  velocity: THREE.Vector3,
+  neighbors: readonly Neighbor[],
+  params: SteeringParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  if (neighbors.length === 0) return out.set(0, 0, 0);
+  _a.set(0, 0, 0);
+  for (const neighbor of neighbors) {
+    _a.add(neighbor.velocity);
+  }
+  _a.setY(0);
+  if (_a.lengthSq() < 1e-12) return out.set(0, 0, 0);
+  _a.setLength(params.maxSpeed);
+  return steerTowards(_a, velocity, params.maxSteerForce, out);
+}
+
+/**
+ * Steers towards the center of mass of the neighbors.
+ */
+export function cohesion(
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  neighbors: readonly Neighbor[],
+  params: SteeringParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  if (neighbors.length === 0) return out.set(0, 0, 0);
+  _b.set(0, 0, 0);
+  for (const neighbor of neighbors) {
+    _b.add(neighbor.position);
+  }
+  _b.divideScalar(neighbors.length).setY(position.y);
+  return seek(position, _b, velocity, params, out);
+}
+
+/**
+ * Boids: weighted sum of separation, alignment and cohesion, clamped to `maxSteerForce`.
+ */
+export function flock(
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  neighbors: readonly Neighbor[],
+  params: FlockParams,
+  out = new THREE.Vector3()
+): THREE.Vector3 {
+  out.set(0, 0, 0);
+  if (neighbors.length === 0) return out;
+  const force = new THREE.Vector3();
+  out.addScaledVector(separation(position, velocity, neighbors, params.separationRadius, params, force), params.separationWeight);
+  out.addScaledVector(alignment(velocity, neighbors, params, force), params.alignmentWeight);
+  out.addScaledVector(cohesion(position, velocity, neighbors, params, force), params.cohesionWeight);
+  return out.clampLength(0, params.maxSteerForce);
+}
+
+/**
+ * Integrates a steering force over `dt` into a velocity and clamps the result to `maxSpeed`.
+ * With the default `dt` of 1 the force is applied as a per-step velocity change.
+ */
+export function applySteering(
+  velocity: THREE.Vector3,
+  steer: THREE.Vector3,
+  maxSpeed: number,
+  dt = 1
+): THREE.Vector3 {
+  return velocity.addScaledVector(steer, dt).clampLength(0, maxSpeed);
+}
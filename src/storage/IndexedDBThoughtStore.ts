@@ -0,0 +1,146 @@
+import {
+  DEFAULT_PAGE_SIZE,
+  ListOptions,
+  Thought,
+  ThoughtNotFoundError,
+  ThoughtPage,
+  ThoughtRecord,
+  ThoughtStore,
+  fromRecord,
+  isTrashed,
+  toCursor,
+  toRecord,
+  withRevision,
+} from './ThoughtStore';
+
+const DB_VERSION = 2;
+const STORE_NAME = 'thoughts';
+// Compound index giving the same newest-first order as compareNewestFirst when walked backwards
+const CREATED_INDEX = 'createdAt_id';
+// Null isn't a valid key, so only trashed thoughts are in this index
+const DELETED_INDEX = 'deletedAt';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * ThoughtStore persisted in the browser's IndexedDB. The database is opened lazily on first use.
+ */
+export class IndexedDBThoughtStore implements ThoughtStore {
+  private dbName: string;
+  private db: Promise<IDBDatabase> | null;
+
+  constructor(dbName = 'journal') {
+    this.dbName = dbName;
+    this.db = null;
+  }
+
+  public static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  public async add(thought: Thought): Promise<void> {
+    const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(toRecord(thought));
+    await completion(transaction);
+  }
+
+  public async get(id: string): Promise<Thought | null> {
+    const store = (await this.open()).transaction(STORE_NAME).objectStore(STORE_NAME);
+    const record = await promisify<ThoughtRecord | undefined>(store.get(id));
+    return record ? fromRecord(record) : null;
+  }
+
+  public async list({ limit = DEFAULT_PAGE_SIZE, before = null }: ListOptions = {}): Promise<ThoughtPage> {
+    const index = (await this.open()).transaction(STORE_NAME).objectStore(STORE_NAME).index(CREATED_INDEX);
+    const range = before ? IDBKeyRange.upperBound([before.createdAt, before.id], true) : null;
+
+    // Read one extra record to learn whether another page follows; trashed thoughts are skipped
+    const records: ThoughtRecord[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(range, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        if (!isTrashed(cursor.value)) records.push(cursor.value);
+        if (records.length > limit) return resolve();
+        cursor.continue();
+      };
+    });
+
+    const hasMore = records.length > limit;
+    const page = records.slice(0, limit);
+    return { items: page.map(fromRecord), nextCursor: hasMore ? toCursor(page[page.length - 1]) : null };
+  }
+
+  public async update(id: string, content: string): Promise<Thought> {
+    return this.modify(id, (record) => withRevision(record, content));
+  }
+
+  public async remove(id: string): Promise<Thought> {
+    return this.modify(id, (record) => ({ ...record, deletedAt: new Date().toISOString() }));
+  }
+
+  public async restore(id: string): Promise<Thought> {
+    return this.modify(id, (record) => ({ ...record, deletedAt: null }));
+  }
+
+  public async purge(id: string): Promise<void> {
+    const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    if ((await promisify(store.count(id))) === 0) throw new ThoughtNotFoundError(id);
+    store.delete(id);
+    await completion(transaction);
+  }
+
+  public async listTrash(): Promise<Thought[]> {
+    const index = (await this.open()).transaction(STORE_NAME).objectStore(STORE_NAME).index(DELETED_INDEX);
+    return (await promisify<ThoughtRecord[]>(index.getAll())).reverse().map(fromRecord);
+  }
+
+  // Reads, changes and writes back a thought in a single transaction
+  private async modify(id: string, change: (record: ThoughtRecord) => ThoughtRecord): Promise<Thought> {
+    const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const record = await promisify<ThoughtRecord | undefined>(store.get(id));
+    if (!record) {
+      transaction.abort();
+      throw new ThoughtNotFoundError(id);
+    }
+    const next = change(record);
+    store.put(next);
+    await completion(transaction);
+    return fromRecord(next);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex(CREATED_INDEX, ['createdAt', 'id']);
+        }
+        if (event.oldVersion < 2) {
+          request.transaction!.objectStore(STORE_NAME).createIndex(DELETED_INDEX, 'deletedAt');
+        }
+      };
+      this.db = promisify(request);
+      // Allow a later call to retry if opening failed (e.g. blocked by private browsing)
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+}
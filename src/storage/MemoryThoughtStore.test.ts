@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryThoughtStore } from './MemoryThoughtStore';
+import { Thought, ThoughtNotFoundError, fromRecord, toRecord } from './ThoughtStore';
+
+const thought = (id: string, createdAt: string, content = id): Thought => ({ id, content, createdAt: new Date(createdAt) });
+
+// Every page of the store, following the cursors
+async function listAll(store: MemoryThoughtStore, limit: number) {
+  const pages: string[][] = [];
+  let before = null;
+  do {
+    const page = await store.list({ limit, before });
+    pages.push(page.items.map((item) => item.id));
+    before = page.nextCursor;
+  } while (before);
+  return pages;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('MemoryThoughtStore', () => {
+  it('lists newest first, ordering thoughts created at the same time by id', async () => {
+    const store = new MemoryThoughtStore([
+      thought('a', '2024-01-01T10:00:00.000Z'),
+      thought('c', '2024-01-02T10:00:00.000Z'),
+      thought('b', '2024-01-02T10:00:00.000Z'),
+      thought('d', '2024-01-02T10:00:00.000Z'),
+      thought('e', '2024-01-03T10:00:00.000Z'),
+    ]);
+    const { items } = await store.list();
+    expect(items.map((item) => item.id)).toEqual(['e', 'd', 'c', 'b', 'a']);
+  });
+
+  it('pages through ties in createdAt without skipping or repeating any', async () => {
+    const store = new MemoryThoughtStore(
+      ['a', 'b', 'c', 'd', 'e'].map((id) => thought(id, '2024-01-01T10:00:00.000Z'))
+    );
+    expect(await listAll(store, 2)).toEqual([['e', 'd'], ['c', 'b'], ['a']]);
+  });
+
+  it('returns no cursor on the last page', async () => {
+    const store = new MemoryThoughtStore([thought('a', '2024-01-01T10:00:00.000Z'), thought('b', '2024-01-02T10:00:00.000Z')]);
+    expect((await store.list({ limit: 2 })).nextCursor).toBeNull();
+    expect((await store.list({ limit: 1 })).nextCursor).toEqual({ createdAt: '2024-01-02T10:00:00.000Z', id: 'b' });
+  });
+
+  it('moves removed thoughts to the trash, most recently deleted first', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryThoughtStore([
+      thought('a', '2024-01-01T10:00:00.000Z'),
+      thought('b', '2024-01-02T10:00:00.000Z'),
+      thought('c', '2024-01-03T10:00:00.000Z'),
+    ]);
+    vi.setSystemTime(new Date('2024-02-01T00:00:00.000Z'));
+    await store.remove('b');
+    vi.setSystemTime(new Date('2024-02-02T00:00:00.000Z'));
+    const removed = await store.remove('a');
+
+    expect(removed.deletedAt).toEqual(new Date('2024-02-02T00:00:00.000Z'));
+    expect((await store.list()).items.map((item) => item.id)).toEqual(['c']);
+    expect((await store.listTrash()).map((item) => item.id)).toEqual(['a', 'b']);
+  });
+
+  it('restores trashed thoughts to their place in the list', async () => {
+    const store = new MemoryThoughtStore([thought('a', '2024-01-01T10:00:00.000Z'), thought('b', '2024-01-02T10:00:00.000Z')]);
+    await store.remove('a');
+    const restored = await store.restore('a');
+    expect(restored.deletedAt).toBeNull();
+    expect((await store.list()).items.map((item) => item.id)).toEqual(['b', 'a']);
+    expect(await store.listTrash()).toEqual([]);
+  });
+
+  it('purges for good, and rejects unknown ids', async () => {
+    const store = new MemoryThoughtStore([thought('a', '2024-01-01T10:00:00.000Z')]);
+    await store.remove('a');
+    await store.purge('a');
+    expect(await store.get('a')).toBeNull();
+    expect(await store.listTrash()).toEqual([]);
+    await expect(store.purge('a')).rejects.toBeInstanceOf(ThoughtNotFoundError);
+    await expect(store.remove('missing')).rejects.toBeInstanceOf(ThoughtNotFoundError);
+  });
+});
+
+describe('MemoryThoughtStore.update', () => {
+  it('keeps earlier contents as revisions, oldest first', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryThoughtStore([thought('a', '2024-01-01T10:00:00.000Z', 'first')]);
+    vi.setSystemTime(new Date('2024-01-01T11:00:00.000Z'));
+    await store.update('a', 'second');
+    vi.setSystemTime(new Date('2024-01-01T12:00:00.000Z'));
+    const updated = await store.update('a', 'third');
+
+    expect(updated.content).toBe('third');
+    expect(updated.revisions).toEqual([
+      { content: 'first', editedAt: new Date('2024-01-01T11:00:00.000Z') },
+      { content: 'second', editedAt: new Date('2024-01-01T12:00:00.000Z') },
+    ]);
+    expect(await store.get('a')).toEqual(updated);
+  });
+
+  it("adds no revision when the content didn't change", async () => {
+    const store = new MemoryThoughtStore([thought('a', '2024-01-01T10:00:00.000Z', 'same')]);
+    expect((await store.update('a', 'same')).revisions).toBeUndefined();
+  });
+
+  it('rejects unknown ids', async () => {
+    await expect(new MemoryThoughtStore().update('missing', 'text')).rejects.toBeInstanceOf(ThoughtNotFoundError);
+  });
+});
+
+describe('toRecord / fromRecord', () => {
+  it('round-trip a thought through its persisted form', () => {
+    const original: Thought = {
+      id: 'a',
+      content: 'now',
+      createdAt: new Date('2024-01-01T10:00:00.000Z'),
+      revisions: [{ content: 'before', editedAt: new Date('2024-01-01T11:00:00.000Z') }],
+      deletedAt: new Date('2024-01-02T10:00:00.000Z'),
+      postUri: 'at://did:plc:abc/app.bsky.feed.post/1',
+    };
+    const record = toRecord(original);
+    expect(record.createdAt).toBe('2024-01-01T10:00:00.000Z');
+    expect(record.revisions).toEqual([{ content: 'before', editedAt: '2024-01-01T11:00:00.000Z' }]);
+    expect(fromRecord(JSON.parse(JSON.stringify(record)))).toEqual(original);
+  });
+
+  it('fills in the optional fields', () => {
+    const record = toRecord(thought('a', '2024-01-01T10:00:00.000Z'));
+    expect(record.deletedAt).toBeNull();
+    expect(record.postUri).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  DEFAULT_PAGE_SIZE,
+  ListOptions,
+  Thought,
+  ThoughtNotFoundError,
+  ThoughtPage,
+  ThoughtRecord,
+  ThoughtStore,
+  compareDeletedFirst,
+  compareNewestFirst,
+  fromRecord,
+  isTrashed,
+  toCursor,
+  toRecord,
+  withRevision,
+} from './ThoughtStore';
+
+/**
+ * Non-persistent ThoughtStore for tests and for browsers without IndexedDB. Thoughts are kept as
+ * records, exactly as IndexedDB would store them.
+ */
+export class MemoryThoughtStore implements ThoughtStore {
+  private records: Map<string, ThoughtRecord>;
+
+  constructor(initial: Thought[] = []) {
+    this.records = new Map(initial.map((thought) => [thought.id, toRecord(thought)]));
+  }
+
+  public async add(thought: Thought): Promise<void> {
+    this.records.set(thought.id, toRecord(thought));
+  }
+
+  public async get(id: string): Promise<Thought | null> {
+    const record = this.records.get(id);
+    return record ? fromRecord(record) : null;
+  }
+
+  public async list({ limit = DEFAULT_PAGE_SIZE, before = null }: ListOptions = {}): Promise<ThoughtPage> {
+    const sorted = [...this.records.values()].filter((record) => !isTrashed(record)).sort(compareNewestFirst);
+    const start = before ? sorted.findIndex((record) => compareNewestFirst(record, before) > 0) : 0;
+    if (start === -1) return { items: [], nextCursor: null };
+
+    const page = sorted.slice(start, start + limit);
+    const hasMore = start + limit < sorted.length;
+    return {
+      items: page.map(fromRecord),
+      nextCursor: hasMore && page.length > 0 ? toCursor(page[page.length - 1]) : null,
+    };
+  }
+
+  public async update(id: string, content: string): Promise<Thought> {
+    return this.modify(id, (record) => withRevision(record, content));
+  }
+
+  public async remove(id: string): Promise<Thought> {
+    return this.modify(id, (record) => ({ ...record, deletedAt: new Date().toISOString() }));
+  }
+
+  public async restore(id: string): Promise<Thought> {
+    return this.modify(id, (record) => ({ ...record, deletedAt: null }));
+  }
+
+  public async purge(id: string): Promise<void> {
+    if (!this.records.delete(id)) throw new ThoughtNotFoundError(id);
+  }
+
+  public async listTrash(): Promise<Thought[]> {
+    return [...this.records.values()].filter(isTrashed).sort(compareDeletedFirst).map(fromRecord);
+  }
+
+  private modify(id: string, change: (record: ThoughtRecord) => ThoughtRecord): Thought {
+    const record = this.records.get(id);
+    if (!record) throw new ThoughtNotFoundError(id);
+    const next = change(record);
+    this.records.set(id, next);
+    return fromRecord(next);
+  }
+}
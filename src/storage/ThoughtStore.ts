@@ -0,0 +1,120 @@
+export interface ThoughtRevision {
+  content: string;  // content before the edit
+  editedAt: Date;
+}
+
+export interface Thought {
+  id: string;
+  content: string;
+  createdAt: Date;
+  revisions?: ThoughtRevision[];  // earlier contents, oldest first
+  deletedAt?: Date | null;        // set while the thought is in the trash
+  postUri?: string | null;        // at:// URI of the BlueSky post, for thoughts that were made public
+}
+
+// How a thought is persisted: the same fields with dates as ISO 8601 strings
+export interface ThoughtRecord {
+  id: string;
+  content: string;
+  createdAt: string;
+  revisions?: { content: string; editedAt: string }[];
+  deletedAt?: string | null;
+  postUri?: string | null;
+}
+
+// Position in the newest-first ordering; a page continues strictly after it
+export interface ThoughtCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface ListOptions {
+  limit?: number;
+  before?: ThoughtCursor | null;
+}
+
+export interface ThoughtPage {
+  items: Thought[];
+  nextCursor: ThoughtCursor | null;  // null once the last page has been returned
+}
+
+/**
+ * Where journal thoughts are persisted. Thoughts are listed newest first, a page at a time,
+ * so opening a journal with thousands of entries only reads the first page.
+ *
+ * Deleting is soft: a removed thought moves to the trash, where it can be restored or purged.
+ * `list` never returns trashed thoughts. Methods taking an id reject if the thought doesn't exist.
+ */
+export interface ThoughtStore {
+  add(thought: Thought): Promise<void>;
+  get(id: string): Promise<Thought | null>;
+  list(options?: ListOptions): Promise<ThoughtPage>;
+  // Replaces the content, keeping the previous one in `revisions`
+  update(id: string, content: string): Promise<Thought>;
+  remove(id: string): Promise<Thought>;
+  restore(id: string): Promise<Thought>;
+  // Permanently deletes a thought
+  purge(id: string): Promise<void>;
+  // Trashed thoughts, most recently deleted first
+  listTrash(): Promise<Thought[]>;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+export class ThoughtNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Thought ${id} not found`);
+    this.name = 'ThoughtNotFoundError';
+  }
+}
+
+export function toRecord(thought: Thought): ThoughtRecord {
+  return {
+    id: thought.id,
+    content: thought.content,
+    createdAt: thought.createdAt.toISOString(),
+    revisions: thought.revisions?.map((revision) => ({ content: revision.content, editedAt: revision.editedAt.toISOString() })),
+    deletedAt: thought.deletedAt ? thought.deletedAt.toISOString() : null,
+    postUri: thought.postUri ?? null,
+  };
+}
+
+export function fromRecord(record: ThoughtRecord): Thought {
+  return {
+    id: record.id,
+    content: record.content,
+    createdAt: new Date(record.createdAt),
+    revisions: record.revisions?.map((revision) => ({ content: revision.content, editedAt: new Date(revision.editedAt) })),
+    deletedAt: record.deletedAt ? new Date(record.deletedAt) : null,
+    postUri: record.postUri ?? null,
+  };
+}
+
+export const isTrashed = (record: ThoughtRecord) => !!record.deletedAt;
+
+/**
+ * The record with `content` as its new content. Unchanged content adds no revision.
+ */
+export function withRevision(record: ThoughtRecord, content: string, editedAt = new Date().toISOString()): ThoughtRecord {
+  if (record.content === content) return record;
+  return {
+    ...record,
+    content,
+    revisions: [...(record.revisions ?? []), { content: record.content, editedAt }],
+  };
+}
+
+export const compareDeletedFirst = (a: ThoughtRecord, b: ThoughtRecord) =>
+  (b.deletedAt ?? '').localeCompare(a.deletedAt ?? '');
+
+export const toCursor = (record: ThoughtRecord): ThoughtCursor => ({ createdAt: record.createdAt, id: record.id });
+
+/**
+ * Newest first; thoughts created in the same millisecond are ordered by id so pages never overlap.
+ * ISO strings in UTC compare chronologically as plain strings.
+ */
+export function compareNewestFirst(a: ThoughtCursor, b: ThoughtCursor): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? 1 : -1;
+  if (a.id !== b.id) return a.id < b.id ? 1 : -1;
+  return 0;
+}
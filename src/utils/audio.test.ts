@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { CaptureError, microphoneError } from './audio';
+
+const domError = (name: string) => new DOMException('failed', name);
+
+describe('microphoneError', () => {
+  it.each([
+    ['NotAllowedError', 'permission-denied'],
+    ['SecurityError', 'permission-denied'],
+    ['NotFoundError', 'no-device'],
+    ['NotReadableError', 'no-device'],
+    ['NotSupportedError', 'capture-failed'],
+  ])('maps %s to %s', (name, kind) => {
+    const error = microphoneError(domError(name));
+    expect(error).toBeInstanceOf(CaptureError);
+    expect(error.kind).toBe(kind);
+  });
+
+  it("doesn't claim there is no microphone for errors it doesn't know", () => {
+    const cause = new Error('Something else broke');
+    const error = microphoneError(cause);
+    expect(error.kind).toBe('capture-failed');
+    expect(error.message).toContain('Something else broke');
+    expect(error.cause).toBe(cause);
+  });
+});
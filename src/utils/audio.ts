@@ -0,0 +1,57 @@
+// Recording formats in order of preference; Chrome and Firefox record Opus in WebM or Ogg,
+// Safari only MP4 (AAC)
+const RECORDING_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/ogg;codecs=opus',
+  'audio/ogg',
+  'audio/mp4',
+];
+
+/**
+ * The first format MediaRecorder can record in this browser, or undefined to leave the choice to
+ * the browser (MediaRecorder.mimeType then says what it picked).
+ */
+export function pickRecordingType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') return undefined;
+  return RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+export type CaptureErrorKind =
+  | 'permission-denied'  // the user or browser settings refused the microphone
+  | 'no-device'          // no microphone, or it's unavailable (in use elsewhere, unplugged)
+  | 'capture-failed'     // the microphone is there but recording from it failed for another reason
+  | 'upload-failed';     // the recording was made but couldn't be transcribed
+
+/**
+ * Why capturing or sending speech failed, with `kind` for the UI to pick its message.
+ */
+export class CaptureError extends Error {
+  public kind: CaptureErrorKind;
+  public cause?: unknown;
+
+  constructor(kind: CaptureErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'CaptureError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Turns a getUserMedia / MediaRecorder failure into a CaptureError.
+ */
+export function microphoneError(error: unknown): CaptureError {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return new CaptureError('permission-denied', 'Microphone access was denied', error);
+  }
+  if (name === 'NotReadableError' || name === 'AbortError') {
+    return new CaptureError('no-device', 'The microphone is in use or unavailable', error);
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return new CaptureError('no-device', 'No microphone was found', error);
+  }
+  // e.g. MediaRecorder's NotSupportedError: there is a microphone, recording from it failed
+  return new CaptureError('capture-failed', `Couldn't record from the microphone: ${error instanceof Error ? error.message : String(error)}`, error);
+}
@@ -0,0 +1,17 @@
+// Shared with the /api/transcribe route, so nothing here may depend on the browser
+
+// Whisper works out the format from the file name
+export const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'mp4',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+};
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+export const baseAudioType = (type: string) => type.split(';')[0].trim().toLowerCase();
+
+// File extension for an audio MIME type, parameters ignored; "webm" when it's unknown
+export const audioExtension = (type: string) => AUDIO_EXTENSIONS[baseAudioType(type)] ?? 'webm';
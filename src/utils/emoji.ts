@@ -0,0 +1,160 @@
+export interface Emoji {
+  char: string;
+  name: string;
+  keywords: string[];
+}
+
+export interface EmojiCategory {
+  name: string;
+  emoji: Emoji[];
+}
+
+const e = (char: string, name: string, ...keywords: string[]): Emoji => ({ char, name, keywords });
+
+// A small set for a journal: moods, nature (plenty of water), and everyday things
+export const EMOJI_CATEGORIES: EmojiCategory[] = [
+  {
+    name: 'Smileys',
+    emoji: [
+      e('😀', 'grinning face', 'happy', 'smile'),
+      e('😊', 'smiling face with smiling eyes', 'happy', 'blush', 'pleased'),
+      e('😂', 'face with tears of joy', 'laugh', 'lol', 'funny'),
+      e('🙂', 'slightly smiling face', 'smile', 'fine'),
+      e('😉', 'winking face', 'wink', 'joke'),
+      e('😍', 'smiling face with heart-eyes', 'love', 'crush'),
+      e('🥰', 'smiling face with hearts', 'love', 'adore'),
+      e('😎', 'smiling face with sunglasses', 'cool'),
+      e('🤔', 'thinking face', 'think', 'hmm', 'wonder'),
+      e('🤯', 'exploding head', 'mind blown', 'shocked'),
+      e('😴', 'sleeping face', 'sleep', 'tired', 'zzz'),
+      e('😌', 'relieved face', 'calm', 'peace', 'content'),
+      e('🥲', 'smiling face with tear', 'bittersweet', 'grateful'),
+      e('😢', 'crying face', 'sad', 'tear'),
+      e('😭', 'loudly crying face', 'sob', 'sad'),
+      e('😤', 'face with steam from nose', 'frustrated', 'determined'),
+      e('😠', 'angry face', 'mad', 'annoyed'),
+      e('😱', 'face screaming in fear', 'scared', 'shock'),
+      e('😅', 'grinning face with sweat', 'relief', 'nervous'),
+      e('🙃', 'upside-down face', 'silly', 'irony'),
+      e('😶', 'face without mouth', 'speechless', 'quiet'),
+      e('🫠', 'melting face', 'embarrassed', 'hot'),
+      e('🥱', 'yawning face', 'bored', 'tired'),
+      e('🤗', 'hugging face', 'hug', 'thanks'),
+    ],
+  },
+  {
+    name: 'Gestures',
+    emoji: [
+      e('👍', 'thumbs up', 'yes', 'like', 'ok'),
+      e('👎', 'thumbs down', 'no', 'dislike'),
+      e('👏', 'clapping hands', 'applause', 'bravo'),
+      e('🙌', 'raising hands', 'celebrate', 'hooray'),
+      e('🙏', 'folded hands', 'please', 'thanks', 'pray'),
+      e('👋', 'waving hand', 'hello', 'bye', 'wave'),
+      e('✌️', 'victory hand', 'peace'),
+      e('🤞', 'crossed fingers', 'luck', 'hope'),
+      e('💪', 'flexed biceps', 'strong', 'strength'),
+      e('✍️', 'writing hand', 'write', 'journal'),
+      e('🫶', 'heart hands', 'love', 'support'),
+      e('🤝', 'handshake', 'deal', 'agreement'),
+    ],
+  },
+  {
+    name: 'Hearts',
+    emoji: [
+      e('❤️', 'red heart', 'love'),
+      e('🧡', 'orange heart', 'love'),
+      e('💛', 'yellow heart', 'love', 'friendship'),
+      e('💚', 'green heart', 'love', 'nature'),
+      e('💙', 'blue heart', 'love', 'calm'),
+      e('💜', 'purple heart', 'love'),
+      e('🖤', 'black heart', 'dark'),
+      e('🤍', 'white heart', 'pure'),
+      e('💔', 'broken heart', 'heartbreak', 'sad'),
+      e('✨', 'sparkles', 'magic', 'new', 'shiny'),
+      e('🔥', 'fire', 'hot', 'lit'),
+      e('💯', 'hundred points', 'perfect', 'score'),
+    ],
+  },
+  {
+    name: 'Nature',
+    emoji: [
+      e('🐟', 'fish', 'sea', 'swim'),
+      e('🐠', 'tropical fish', 'sea', 'reef'),
+      e('🐡', 'blowfish', 'puffer', 'sea'),
+      e('🐋', 'whale', 'sea', 'ocean'),
+      e('🐙', 'octopus', 'sea'),
+      e('🦈', 'shark', 'sea'),
+      e('🪸', 'coral', 'reef', 'sea'),
+      e('🌊', 'water wave', 'ocean', 'sea', 'surf'),
+      e('💧', 'droplet', 'water', 'drop'),
+      e('🫧', 'bubbles', 'water', 'soap'),
+      e('🌱', 'seedling', 'grow', 'plant', 'new'),
+      e('🌿', 'herb', 'leaf', 'plant'),
+      e('🍃', 'leaf fluttering in wind', 'leaf', 'breeze'),
+      e('🌸', 'cherry blossom', 'flower', 'spring'),
+      e('🌻', 'sunflower', 'flower', 'summer'),
+      e('🍂', 'fallen leaf', 'autumn', 'fall'),
+      e('🌙', 'crescent moon', 'night', 'moon'),
+      e('⭐', 'star', 'night'),
+      e('☀️', 'sun', 'sunny', 'weather'),
+      e('🌧️', 'cloud with rain', 'rain', 'weather'),
+      e('⛈️', 'cloud with lightning and rain', 'storm', 'weather'),
+      e('❄️', 'snowflake', 'snow', 'cold', 'winter'),
+      e('🌈', 'rainbow', 'weather', 'pride'),
+      e('🐈', 'cat', 'pet'),
+      e('🐕', 'dog', 'pet'),
+      e('🦋', 'butterfly', 'insect', 'change'),
+    ],
+  },
+  {
+    name: 'Things',
+    emoji: [
+      e('☕', 'hot beverage', 'coffee', 'tea'),
+      e('🍵', 'teacup without handle', 'tea', 'matcha'),
+      e('🍕', 'pizza', 'food'),
+      e('🍎', 'red apple', 'fruit', 'food'),
+      e('🎂', 'birthday cake', 'birthday', 'celebrate'),
+      e('🎉', 'party popper', 'celebrate', 'party', 'congrats'),
+      e('🎵', 'musical note', 'music', 'song'),
+      e('🎨', 'artist palette', 'art', 'paint'),
+      e('📚', 'books', 'read', 'study'),
+      e('📝', 'memo', 'note', 'write', 'journal'),
+      e('💡', 'light bulb', 'idea'),
+      e('🧠', 'brain', 'think', 'mind'),
+      e('💻', 'laptop', 'computer', 'work', 'code'),
+      e('📷', 'camera', 'photo'),
+      e('🏃', 'person running', 'run', 'exercise'),
+      e('🧘', 'person in lotus position', 'meditate', 'yoga', 'calm'),
+      e('🛌', 'person in bed', 'sleep', 'rest'),
+      e('🏠', 'house', 'home'),
+      e('✈️', 'airplane', 'travel', 'flight'),
+      e('🚲', 'bicycle', 'bike', 'cycle'),
+      e('⏰', 'alarm clock', 'time', 'morning'),
+      e('🎯', 'direct hit', 'goal', 'target', 'focus'),
+      e('✅', 'check mark button', 'done', 'complete'),
+      e('❓', 'red question mark', 'question'),
+    ],
+  },
+];
+
+const ALL_EMOJI = EMOJI_CATEGORIES.flatMap((category) => category.emoji);
+
+/**
+ * Emoji whose name or keywords contain every word of `query`. Name matches at the start of a word
+ * come first.
+ */
+export function searchEmoji(query: string): Emoji[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return ALL_EMOJI;
+  const scored: { emoji: Emoji; score: number }[] = [];
+  for (const emoji of ALL_EMOJI) {
+    const haystack = [emoji.name, ...emoji.keywords].join(' ');
+    if (!words.every((word) => haystack.includes(word))) continue;
+    const nameWords = emoji.name.split(/[\s-]+/);
+    const score = words.filter((word) => nameWords.some((nameWord) => nameWord.startsWith(word))).length;
+    scored.push({ emoji, score });
+  }
+  // Stable, so ties keep the category order
+  return scored.sort((a, b) => b.score - a.score).map(({ emoji }) => emoji);
+}
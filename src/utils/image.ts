@@ -0,0 +1,58 @@
+export interface ResizedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface ResizeOptions {
+  maxDimension?: number;  // longest side, in pixels
+  maxBytes?: number;
+}
+
+// JPEG qualities tried in turn until the image fits in maxBytes
+const QUALITIES = [0.9, 0.8, 0.7, 0.6, 0.5, 0.4];
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), type, quality);
+  });
+
+/**
+ * Scales an image file down to `maxDimension` and re-encodes it as JPEG, lowering the quality and
+ * then the size until it fits in `maxBytes`. Small images that already fit are returned as they are.
+ */
+export async function resizeImage(file: Blob, { maxDimension = 2000, maxBytes = 1_000_000 }: ResizeOptions = {}): Promise<ResizedImage> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const { width, height } = bitmap;
+    if (file.size <= maxBytes && Math.max(width, height) <= maxDimension) {
+      return { blob: file, width, height };
+    }
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D is not available');
+
+    let scale = Math.min(1, maxDimension / Math.max(width, height));
+    // Each pass shrinks the image by a quarter once no quality fits
+    for (let pass = 0; pass < 6; pass++) {
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      // JPEG has no alpha; transparent areas would turn black
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+      for (const quality of QUALITIES) {
+        const blob = await toBlob(canvas, 'image/jpeg', quality);
+        if (blob.size <= maxBytes) {
+          return { blob, width: canvas.width, height: canvas.height };
+        }
+      }
+      scale *= 0.75;
+    }
+    throw new Error('Image is too large to attach');
+  } finally {
+    bitmap.close();
+  }
+}
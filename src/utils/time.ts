@@ -0,0 +1,72 @@
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Whole calendar days from `date` to `now` in local time (0 = same day, 1 = yesterday).
+ * Counted on day boundaries rather than 24h spans so that 23:50 yesterday is still "yesterday".
+ */
+export function daysAgo(date: Date, now: Date): number {
+  return Math.round((startOfDay(now).getTime() - startOfDay(date).getTime()) / (24 * HOUR));
+}
+
+const formatDayMonth = (date: Date, now: Date) => {
+  const dayMonth = `${date.getDate()} ${MONTHS[date.getMonth()]}`;
+  return date.getFullYear() === now.getFullYear() ? dayMonth : `${dayMonth} ${date.getFullYear()}`;
+};
+
+/**
+ * Short label relative to `now`: "just now", "23m ago", "4h ago", "yesterday", "Mon", "12 Oct".
+ */
+export function formatRelativeTime(date: Date, now: Date): string {
+  const elapsed = now.getTime() - date.getTime();
+  const days = daysAgo(date, now);
+
+  if (elapsed < MINUTE) return 'just now';
+  if (days === 0) {
+    return elapsed < HOUR ? `${Math.floor(elapsed / MINUTE)}m ago` : `${Math.floor(elapsed / HOUR)}h ago`;
+  }
+  if (days === 1) return 'yesterday';
+  if (days < 7) return WEEKDAYS[date.getDay()];
+  return formatDayMonth(date, now);
+}
+
+/**
+ * Header for a group of thoughts from one day: "Today", "Yesterday" or "Mon 12 Oct".
+ */
+export function formatDayHeader(date: Date, now: Date): string {
+  const days = daysAgo(date, now);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  return `${WEEKDAYS[date.getDay()]} ${formatDayMonth(date, now)}`;
+}
+
+// Full local date and time, e.g. for a tooltip
+export const formatAbsoluteTime = (date: Date) =>
+  date.toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export interface DayGroup<T> {
+  day: Date;  // local midnight
+  items: T[];
+}
+
+/**
+ * Splits items that are already in date order into consecutive groups by local calendar day.
+ */
+export function groupByDay<T>(items: T[], getDate: (item: T) => Date): DayGroup<T>[] {
+  const groups: DayGroup<T>[] = [];
+  for (const item of items) {
+    const day = startOfDay(getDate(item));
+    const last = groups[groups.length - 1];
+    if (last && last.day.getTime() === day.getTime()) {
+      last.items.push(item);
+    } else {
+      groups.push({ day, items: [item] });
+    }
+  }
+  return groups;
+}
@@ -1,10 +1,76 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { existsSync } from 'fs'
+import { IncomingMessage, ServerResponse } from 'http'
 import { resolve } from 'path'
+import { Readable } from 'stream'
+
+type RouteHandler = (request: Request) => Promise<Response>
+
+function toRequest(req: IncomingMessage, url: URL, signal: AbortSignal): Request {
+  const headers = new Headers()
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value)
+  })
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD'
+  return new Request(url, {
+    method: req.method,
+    headers,
+    body: hasBody ? Readable.toWeb(req) as ReadableStream : undefined,
+    signal,
+    // Required by Node for a streamed request body
+    ...(hasBody && { duplex: 'half' }),
+  })
+}
+
+async function sendResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.statusCode = response.status
+  response.headers.forEach((value, name) => res.setHeader(name, value))
+  if (response.body) {
+    // Written as it arrives, so streamed chat replies stream in dev too
+    for await (const chunk of response.body) res.write(chunk)
+  }
+  res.end()
+}
+
+// Serves the api/ routes in `pnpm dev` the way Vercel does once deployed, with keys from .env.
+// Routes are loaded through Vite, so edits to them apply on the next request.
+function apiRoutes(): Plugin {
+  return {
+    name: 'api-routes',
+    apply: 'serve',
+    configureServer(server) {
+      Object.assign(process.env, loadEnv(server.config.mode, process.cwd(), ''))
+      server.middlewares.use('/api', async (req, res, next) => {
+        const url = new URL(req.originalUrl ?? req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`)
+        const name = url.pathname.replace(/^\/api\//, '')
+        const file = resolve(process.cwd(), 'api', `${name}.ts`)
+        if (!/^[a-z]+$/.test(name) || !existsSync(file)) return next()
+
+        const controller = new AbortController()
+        res.on('close', () => controller.abort())
+        try {
+          const route: Record<string, RouteHandler | undefined> = await server.ssrLoadModule(file)
+          const handle = route[req.method ?? 'GET']
+          if (!handle) {
+            res.statusCode = 405
+            res.end()
+            return
+          }
+          await sendResponse(res, await handle(toRequest(req, url, controller.signal)))
+        } catch (error) {
+          // The browser went away mid-response; nothing left to answer
+          if (controller.signal.aborted) res.end()
+          else next(error)
+        }
+      })
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), apiRoutes()],
   resolve: {
     alias: {
       react: resolve(process.cwd(), 'node_modules/react'),